@@ -1,20 +1,48 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom';
 import Sidebar from './components/Sidebar';
 import StoryView from './components/StoryView';
-import { GameState, StoryStep, GameSession, NarrationRef } from './types';
-import { generateAdventureStart, generateNextStep, generateRandomPrompt, generateRandomVisualStylePrompt } from './services/geminiService';
-import { WandIcon, TrashIcon, SparklesIcon, HomeIcon, PlayIcon, SpeakerOnIcon, SpeakerOffIcon, PaintBrushIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, MicrophoneIcon } from './components/Icons';
+import { GameState, StoryStep, GameSession, NarrationRef, PartialScene, GenerationReport, SessionSummary, CheckResult, EndingType, PacingMode, Difficulty, ContentRating, ScenarioPack, QuarantinedSession } from './types';
+import { generateAdventureStart, generateEpilogue, generateNextStep, generateRandomPrompt, generateRandomVisualStylePrompt, NextStepResult, playAuthoredScene, regenerateSceneImage } from './services/geminiService';
+import { StoryGenerationError } from './services/resilience';
+import { compressStoryMemory } from './services/storyMemory';
+import { cancelSave, deleteSession, discardQuarantinedSessions, flushSaves, importSessions, inlineSessionImages, loadQuarantine, loadSession, loadSessionIndex, readSessionIndex, saveSession } from './services/sessionStore';
+import { SessionFormatError, toSessionFile } from './services/sessionFormat';
+import { deleteScenarioPack, importScenarioPacks, inlineScenarioImages, loadScenarioPacks } from './services/scenarioStore';
+import { isScenarioPackFile, parseScenarioPack, toScenarioPackFile } from './services/scenarioPack';
+import { createLookahead, LOOKAHEAD_BUDGETS } from './services/lookahead';
+import { acquireSessionLock, broadcastSessionOpened, isSessionOpenElsewhere, onTabMessage, SessionLock, SessionLockHandlers } from './services/tabSync';
+import { applyCodexUpdates, getCodexForPath } from './lib/codex';
+import { mergeInventory } from './lib/inventory';
+import { applyQuestUpdates, getQuestsCompletedAt, getQuestsForPath } from './lib/quests';
+import { applyStatChanges, createRuleset, createStartingStats, NO_CHECK, recordChoice } from './lib/rules';
+import { getEpilogue, getStepEnding, resolveEnding } from './lib/endings';
+import { getArcProgress, PACING_MODES } from './lib/pacing';
+import { getNextSceneNode, getStartNode, resolveNextBeat } from './lib/sceneGraph';
+import { appendStep, findChoiceBranch, getBranchLeaf, getBranchPosition, getChildren, getPath, getSiblings, getStoryPath } from './lib/storyTree';
+import { getStepContent, replaceStepContent, revertStepVersion } from './lib/stepVersions';
+import { forkSession } from './lib/fork';
+import { CONTENT_RATINGS, DEFAULT_CONTENT_RATING, DEFAULT_DIFFICULTY, DIFFICULTIES } from './lib/presets';
+import { WandIcon, TrashIcon, SparklesIcon, HomeIcon, PlayIcon, SpeakerOnIcon, SpeakerOffIcon, PaintBrushIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, MicrophoneIcon, ChevronDoubleRightIcon, DieIcon, CompassIcon, GlobeAltIcon, PencilIcon, PlusIcon } from './components/Icons';
 import LoadingSpinner from './components/LoadingSpinner';
+import StoredImage from './components/StoredImage';
 import { translations } from './lib/translations';
 import LanguageSelector from './components/LanguageSelector';
 import Tooltip, { TooltipData } from './components/Tooltip';
 import LiveNarrator, { NarrationState } from './components/LiveNarrator';
+import { endingBadgeClasses, endingLabelKeys } from './components/EndingCard';
+import ScenarioEditor, { createScenarioDraft } from './components/ScenarioEditor';
+import BranchMap from './components/BranchMap';
+import { EditedChoice } from './components/StepDialog';
 
-const SESSIONS_KEY = 'infinite-adventure-sessions';
 const NARRATION_ENABLED_KEY = 'sagaforge-narration-enabled';
 const NARRATION_SPEED_KEY = 'sagaforge-narration-speed';
 const NARRATION_SPEEDS = [1, 1.25, 1.5];
+const LOOKAHEAD_BUDGET_KEY = 'sagaforge-lookahead-budget';
+const RULESET_ENABLED_KEY = 'sagaforge-ruleset-enabled';
+const PACING_MODE_KEY = 'sagaforge-pacing-mode';
+const DIFFICULTY_KEY = 'sagaforge-difficulty';
+const CONTENT_RATING_KEY = 'sagaforge-content-rating';
 
 // Let TypeScript know about the global localforage object from the CDN script
 declare const localforage: any;
@@ -27,16 +55,80 @@ const predefinedStyles = [
 ];
 const DEFAULT_STYLE_ID = 'fantasy';
 
+const pacingLabelKeys: Record<PacingMode, keyof typeof translations.en> = {
+  short: 'pacingShort',
+  novella: 'pacingNovella',
+  endless: 'pacingEndless',
+};
+const pacingHintKeys: Record<PacingMode, keyof typeof translations.en> = {
+  short: 'pacingShortHint',
+  novella: 'pacingNovellaHint',
+  endless: 'pacingEndlessHint',
+};
+const difficultyLabelKeys: Record<Difficulty, keyof typeof translations.en> = {
+  forgiving: 'difficultyForgiving',
+  standard: 'difficultyStandard',
+  harsh: 'difficultyHarsh',
+};
+const contentRatingLabelKeys: Record<ContentRating, keyof typeof translations.en> = {
+  'all-ages': 'ratingAllAges',
+  teen: 'ratingTeen',
+  mature: 'ratingMature',
+};
+const contentRatingHintKeys: Record<ContentRating, keyof typeof translations.en> = {
+  'all-ages': 'ratingAllAgesHint',
+  teen: 'ratingTeenHint',
+  mature: 'ratingMatureHint',
+};
+const contentRatingBadgeClasses: Record<ContentRating, string> = {
+  'all-ages': 'bg-emerald-900/60 border-emerald-600 text-emerald-200',
+  teen: 'bg-sky-900/60 border-sky-600 text-sky-200',
+  mature: 'bg-rose-900/60 border-rose-600 text-rose-200',
+};
+
+/**
+ * The step for a scene played from the last step of a path, which carries the choice
+ * that led to it. The ending and the authored beat it leads into are settled here.
+ */
+const buildNextStep = (session: GameSession, path: StoryStep[], id: string, scene: NextStepResult['scene'], imageUrl: string, sceneNodeId?: string): StoryStep => {
+  const lastStep = path[path.length - 1];
+  const step: StoryStep = {
+    id,
+    imageUrl,
+    story: scene.story,
+    choices: scene.choices,
+    inventory: scene.inventory,
+    currentQuest: scene.currentQuest,
+    mood: scene.mood,
+    imagePrompt: scene.imagePrompt,
+    sceneNodeId,
+    ...(lastStep.stats && {
+      choiceChecks: scene.choiceChecks,
+      stats: applyStatChanges(lastStep.stats, scene.healthChange, scene.skillsGained),
+    }),
+  };
+  const isOverdue = !!getArcProgress(session.pacing, path.length + 1)?.overdue;
+  const ending = resolveEnding(scene.ending, !!lastStep.endingRequested || isOverdue, step);
+  if (ending) step.ending = ending;
+  const nextBeat = resolveNextBeat(session.scenario?.sceneGraph, [...path, step], scene.nextBeat);
+  if (nextBeat) step.nextBeat = nextBeat;
+  return step;
+};
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>('SESSION_SELECT');
-  const [sessions, setSessions] = useState<GameSession[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedSession[]>([]);
   const [activeSession, setActiveSession] = useState<GameSession | null>(null);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  // The branch of the story tree being played, from the opening scene to its last step.
+  const history: StoryStep[] = useMemo(() => activeSession ? getStoryPath(activeSession) : [], [activeSession]);
   
   const [language, setLanguage] = useState<'en' | 'es' | 'pt'>('es');
   const [error, setError] = useState<string | null>(null);
   const [importSuccessMessage, setImportSuccessMessage] = useState<string | null>(null);
+  const [questToast, setQuestToast] = useState<string | null>(null);
+  const [generationNotice, setGenerationNotice] = useState<string | null>(null);
   
   // Main prompt state
   const [playerInput, setPlayerInput] = useState<string>('');
@@ -57,13 +149,40 @@ const App: React.FC = () => {
   const [clickedChoiceToNarrate, setClickedChoiceToNarrate] = useState<{ id: string; choice: string } | null>(null);
   const [initialLoadingMessage, setInitialLoadingMessage] = useState('');
   const [optimisticChoice, setOptimisticChoice] = useState<string | null>(null);
+  const [pendingScene, setPendingScene] = useState<PartialScene | null>(null);
+  const [pendingCheckResult, setPendingCheckResult] = useState<CheckResult | null>(null);
+  const [isRulesetEnabled, setIsRulesetEnabled] = useState(false);
+  const [pacingMode, setPacingMode] = useState<PacingMode>('endless');
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [contentRating, setContentRating] = useState<ContentRating>(DEFAULT_CONTENT_RATING);
+  const [writingEpilogueFor, setWritingEpilogueFor] = useState<string | null>(null);
+  const [showEndingConfirm, setShowEndingConfirm] = useState(false);
+
+  // Look-ahead (speculative pre-generation) state
+  const [lookaheadBudget, setLookaheadBudget] = useState(0);
+  const [lookahead] = useState(createLookahead);
 
   const narratorRef = useRef<NarrationRef>(null);
+  const memoryUpdateInFlight = useRef(false);
+  // The session as last rendered, for work that finishes after the closure it began in.
+  const activeSessionRef = useRef(activeSession);
+  activeSessionRef.current = activeSession;
   const portalRoot = document.getElementById('portals');
 
 
-  const [showBranchConfirm, setShowBranchConfirm] = useState<string | null>(null);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
+
+  // Other tabs: the edit lock on the adventure played here, whether it is only being
+  // watched here, whether another tab plays it at the same time, and a resume it blocked.
+  const sessionLockRef = useRef<SessionLock | null>(null);
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [isOpenInTwoTabs, setIsOpenInTwoTabs] = useState(false);
+  const [lockConflictSessionId, setLockConflictSessionId] = useState<string | null>(null);
+  const [scenarioPacks, setScenarioPacks] = useState<ScenarioPack[]>([]);
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  const [scenarioToDelete, setScenarioToDelete] = useState<string | null>(null);
+  const [editingScenario, setEditingScenario] = useState<ScenarioPack | null>(null);
+  const [isBranchMapOpen, setIsBranchMapOpen] = useState(false);
   
   const [tooltipData, setTooltipData] = useState<TooltipData>({ visible: false, content: { text: '' }, x: 0, y: 0 });
   const promptTextareaRef = useRef<HTMLTextAreaElement>(null);
@@ -74,6 +193,30 @@ const App: React.FC = () => {
     const translation = translations[language][key] || translations.en[key];
     return translation;
   }, [language]);
+
+  // Picks the message for a failed turn, falling back to a generic one for unexpected errors.
+  const generationErrorMessage = useCallback((e: unknown, fallbackKey: 'errorStart' | 'errorTangled'): string => {
+    if (e instanceof StoryGenerationError) {
+      switch (e.reason) {
+        case 'invalid-response': return t('errorInvalidResponse') as string;
+        case 'unsuitable-content': return t('errorUnsuitableContent') as string;
+        case 'rate-limited': return t('errorRateLimited') as string;
+        case 'unavailable': return t('errorUnavailable') as string;
+      }
+    }
+    return t(fallbackKey) as string;
+  }, [t]);
+
+  // Lets the player know when a scene only came through after retries or a repair, or was
+  // rewritten to fit the content rating.
+  const reportGeneration = useCallback((report: GenerationReport) => {
+    const notes: string[] = [];
+    if (report.retries === 1) notes.push(t('generationRetriedOnce') as string);
+    else if (report.retries > 1) notes.push((t('generationRetried') as string).replace('{count}', report.retries.toString()));
+    if (report.repaired) notes.push(t('generationRepaired') as string);
+    if (report.rewrittenForRating) notes.push(t('generationRewrittenForRating') as string);
+    if (notes.length > 0) setGenerationNotice(notes.join(' '));
+  }, [t]);
   
 
   // Load settings and sessions from localForage on initial render
@@ -81,21 +224,43 @@ const App: React.FC = () => {
     const loadData = async () => {
       try {
         if (typeof localforage !== 'undefined') {
-          const [savedSessions, savedNarration, savedSpeed] = await Promise.all([
-            localforage.getItem(SESSIONS_KEY),
+          const [savedSessions, savedQuarantine, savedScenarioPacks, savedNarration, savedSpeed, savedLookahead, savedRuleset, savedPacing, savedDifficulty, savedContentRating] = await Promise.all([
+            loadSessionIndex(),
+            loadQuarantine(),
+            loadScenarioPacks(),
             localforage.getItem(NARRATION_ENABLED_KEY),
-            localforage.getItem(NARRATION_SPEED_KEY)
+            localforage.getItem(NARRATION_SPEED_KEY),
+            localforage.getItem(LOOKAHEAD_BUDGET_KEY),
+            localforage.getItem(RULESET_ENABLED_KEY),
+            localforage.getItem(PACING_MODE_KEY),
+            localforage.getItem(DIFFICULTY_KEY),
+            localforage.getItem(CONTENT_RATING_KEY)
           ]);
 
-          if (savedSessions && Array.isArray(savedSessions)) {
-            setSessions(savedSessions);
-          }
+          setSessions(savedSessions);
+          setQuarantine(savedQuarantine);
+          setScenarioPacks(savedScenarioPacks);
           if (savedNarration !== null) {
             setIsNarrationEnabled(savedNarration as boolean);
           }
           if (savedSpeed !== null && NARRATION_SPEEDS.includes(savedSpeed as number)) {
             setNarrationSpeed(savedSpeed as number);
           }
+          if (savedLookahead !== null && LOOKAHEAD_BUDGETS.includes(savedLookahead as number)) {
+            setLookaheadBudget(savedLookahead as number);
+          }
+          if (savedRuleset !== null) {
+            setIsRulesetEnabled(savedRuleset as boolean);
+          }
+          if (savedPacing !== null && PACING_MODES.includes(savedPacing as PacingMode)) {
+            setPacingMode(savedPacing as PacingMode);
+          }
+          if (savedDifficulty !== null && DIFFICULTIES.includes(savedDifficulty as Difficulty)) {
+            setDifficulty(savedDifficulty as Difficulty);
+          }
+          if (savedContentRating !== null && CONTENT_RATINGS.includes(savedContentRating as ContentRating)) {
+            setContentRating(savedContentRating as ContentRating);
+          }
         }
       } catch (e) {
         console.error("Failed to load data from localForage", e);
@@ -116,9 +281,24 @@ const App: React.FC = () => {
         localforage.setItem(NARRATION_SPEED_KEY, narrationSpeed).catch((err: any) => {
           console.error("Failed to save narration speed", err);
         });
+        localforage.setItem(LOOKAHEAD_BUDGET_KEY, lookaheadBudget).catch((err: any) => {
+          console.error("Failed to save look-ahead budget", err);
+        });
+        localforage.setItem(RULESET_ENABLED_KEY, isRulesetEnabled).catch((err: any) => {
+          console.error("Failed to save ruleset setting", err);
+        });
+        localforage.setItem(PACING_MODE_KEY, pacingMode).catch((err: any) => {
+          console.error("Failed to save pacing mode", err);
+        });
+        localforage.setItem(DIFFICULTY_KEY, difficulty).catch((err: any) => {
+          console.error("Failed to save difficulty", err);
+        });
+        localforage.setItem(CONTENT_RATING_KEY, contentRating).catch((err: any) => {
+          console.error("Failed to save content rating", err);
+        });
       }
     }
-  }, [isNarrationEnabled, narrationSpeed, settingsLoaded]);
+  }, [isNarrationEnabled, narrationSpeed, lookaheadBudget, isRulesetEnabled, pacingMode, difficulty, contentRating, settingsLoaded]);
 
   // Clear error/success messages after a delay
   useEffect(() => {
@@ -135,6 +315,20 @@ const App: React.FC = () => {
     }
   }, [importSuccessMessage]);
 
+  useEffect(() => {
+    if (questToast) {
+        const timer = setTimeout(() => setQuestToast(null), 5000);
+        return () => clearTimeout(timer);
+    }
+  }, [questToast]);
+
+  useEffect(() => {
+    if (generationNotice) {
+        const timer = setTimeout(() => setGenerationNotice(null), 5000);
+        return () => clearTimeout(timer);
+    }
+  }, [generationNotice]);
+
   // Set a random loading message when starting a new game
   useEffect(() => {
     if (gameState === 'LOADING' && !activeSession) {
@@ -143,30 +337,66 @@ const App: React.FC = () => {
     }
   }, [gameState, activeSession, t]);
 
-  // Auto-save active session whenever it changes
+  // Auto-save active session whenever it changes. Its images are already in the image store,
+  // so only the session's own record and the index entry are written. A session watched
+  // while another tab plays it is never written from here.
   useEffect(() => {
-    if (activeSession) {
-      setSessions(prevSessions => {
-        const sessionExists = prevSessions.some(s => s.id === activeSession.id);
-        let updatedSessions;
-
-        if (sessionExists) {
-          updatedSessions = prevSessions.map(s => s.id === activeSession.id ? activeSession : s);
-        } else {
-          updatedSessions = [activeSession, ...prevSessions];
-        }
-
-        if (typeof localforage !== 'undefined') {
-          localforage.setItem(SESSIONS_KEY, updatedSessions).catch((err: any) => {
-            console.error("Failed to save session", err);
-          });
-        }
-        
-        return updatedSessions;
+    if (activeSession && !isReadOnly && typeof localforage !== 'undefined') {
+      saveSession(activeSession).then(setSessions).catch((err: any) => {
+        console.error("Failed to save session", err);
       });
     }
-  }, [activeSession]);
+  }, [activeSession, isReadOnly]);
+
+  // Saves wait a moment for further changes; write them out whenever the page may be closed.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushSaves();
+    };
+    const handlePageHide = () => { flushSaves(); };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
+
+
+  // Other tabs save and delete adventures too. Keep the list current, follow the adventure
+  // being watched here, and warn if the one played here is also being played elsewhere,
+  // which only goes unnoticed by the edit lock in browsers without Web Locks.
+  useEffect(() => onTabMessage(message => {
+    const isActive = (sessionId: string) => activeSession?.id === sessionId;
+    if (message.type === 'session-opened') {
+      if (isActive(message.sessionId) && !isReadOnly) setIsOpenInTwoTabs(true);
+      return;
+    }
+    if (message.type !== 'sessions-changed') return;
+    Promise.all([readSessionIndex(), loadQuarantine()]).then(([index, quarantined]) => {
+      setSessions(index);
+      setQuarantine(quarantined);
+    }).catch((err: any) => {
+      console.error("Failed to refresh saved adventures", err);
+    });
+    const changedActive = message.sessionIds.find(isActive);
+    if (!changedActive) return;
+    if (isReadOnly) followWatchedSession(changedActive, history.length);
+    else setIsOpenInTwoTabs(true);
+  }), [activeSession?.id, isReadOnly, history.length]);
+
+  // Pre-generate the scenes behind the latest step's choices while the player reads it.
+  // Leaving the adventure, turning look-ahead off or only watching it from this tab, where
+  // no choice can be made, cancels whatever is still running.
+  useEffect(() => {
+    if (!activeSession || lookaheadBudget === 0 || isReadOnly) {
+      lookahead.cancel();
+    } else if (gameState === 'PLAYING' && currentStepIndex === history.length - 1) {
+      lookahead.start(activeSession, history, language, lookaheadBudget);
+    }
+  }, [activeSession, history, currentStepIndex, gameState, language, lookaheadBudget, isReadOnly, lookahead]);
 
+  useEffect(() => () => lookahead.cancel(), [lookahead]);
 
   // Auto-focus prompt input after AI generation
   useEffect(() => {
@@ -186,6 +416,60 @@ const App: React.FC = () => {
   }, [isCustomStyleAiGenerated, customVisualStyle]);
 
 
+  /** Keeps the edit lock on the adventure now being played here, releasing the previous one once its saves are written. */
+  const holdSessionLock = (lock: SessionLock | null) => {
+    const previous = sessionLockRef.current;
+    if (previous && previous !== lock) flushSaves().finally(previous.release);
+    sessionLockRef.current = lock;
+    setIsReadOnly(!lock);
+    setIsOpenInTwoTabs(false);
+    if (lock) broadcastSessionOpened(lock.sessionId);
+  };
+
+  // Another tab took the adventure over: stop writing it and watch it instead. Pending
+  // saves were written when it asked for the adventure; one still waiting now, because
+  // the lock was taken without asking or a save came in since, is dropped, as it could
+  // land after the other tab's.
+  const handleSessionLockLost = (sessionId: string) => {
+    if (sessionLockRef.current?.sessionId !== sessionId) return;
+    sessionLockRef.current = null;
+    cancelSave(sessionId);
+    lookahead.cancel();
+    setIsReadOnly(true);
+    setIsOpenInTwoTabs(false);
+  };
+
+  const lockHandlers = (sessionId: string): SessionLockHandlers => ({
+    onLost: () => handleSessionLockLost(sessionId),
+    beforeHandOver: flushSaves,
+  });
+
+  const handleExitSession = () => {
+    holdSessionLock(null);
+    setIsReadOnly(false);
+    setActiveSession(null);
+    setGameState('SESSION_SELECT');
+  };
+
+  // Brings the watched adventure up to what the other tab saved. Viewing its latest scene
+  // follows the story on; viewing an earlier one stays there.
+  const followWatchedSession = async (sessionId: string, watchedLength: number) => {
+    let updated: GameSession | null = null;
+    try {
+      updated = await loadSession(sessionId);
+    } catch (err) {
+      await reportUnreadableSession(err);
+    }
+    if (!updated) {
+      handleExitSession();
+      setError(t('errorSessionDeletedElsewhere') as string);
+      return;
+    }
+    const length = getStoryPath(updated).length;
+    setActiveSession(prev => prev && prev.id === sessionId ? updated : prev);
+    setCurrentStepIndex(i => i === watchedLength - 1 ? length - 1 : Math.min(i, length - 1));
+  };
+
   const handleGenerateIdea = useCallback(async () => {
     setIsGeneratingIdea(true);
     setError(null);
@@ -219,7 +503,8 @@ const App: React.FC = () => {
   }, [customVisualStyle, language, t, isCustomStyleAiGenerated]);
 
   const handleStartNewGame = useCallback(async () => {
-    if (!playerInput.trim()) {
+    const scenario = scenarioPacks.find(pack => pack.id === selectedScenarioId);
+    if (!playerInput.trim() && !scenario) {
       setError(t('describePrompt') as string);
       return;
     }
@@ -227,15 +512,21 @@ const App: React.FC = () => {
     setError(null);
 
     let finalVisualStyle = '';
-    if (visualStyleSelection === 'custom') {
+    if (scenario?.stylePrompt) {
+      finalVisualStyle = scenario.stylePrompt;
+    } else if (visualStyleSelection === 'custom') {
       finalVisualStyle = customVisualStyle.trim() || predefinedStyles.find(s => s.id === DEFAULT_STYLE_ID)!.prompt;
     } else {
       finalVisualStyle = predefinedStyles.find(s => s.id === visualStyleSelection)!.prompt;
     }
 
 
+    const ruleset = isRulesetEnabled ? createRuleset() : undefined;
+    const startingStats = ruleset && createStartingStats(ruleset);
+
     try {
-      const { scene, imageUrl, bannerUrl } = await generateAdventureStart(playerInput, language, finalVisualStyle);
+      const { scene, imageUrl, bannerUrl, characters, report } = await generateAdventureStart(playerInput, language, finalVisualStyle, { pacing: pacingMode, difficulty, contentRating, scenario }, startingStats);
+      reportGeneration(report);
       const firstStep: StoryStep = {
         id: crypto.randomUUID(),
         imageUrl,
@@ -244,17 +535,35 @@ const App: React.FC = () => {
         inventory: scene.inventory,
         currentQuest: scene.currentQuest,
         mood: scene.mood,
+        imagePrompt: scene.imagePrompt,
+        sceneNodeId: getStartNode(scenario?.sceneGraph)?.id,
+        ...(startingStats && {
+          choiceChecks: scene.choiceChecks,
+          stats: applyStatChanges(startingStats, scene.healthChange, scene.skillsGained),
+        }),
       };
+      const nextBeat = resolveNextBeat(scenario?.sceneGraph, [firstStep], scene.nextBeat);
+      if (nextBeat) firstStep.nextBeat = nextBeat;
       const newSession: GameSession = {
         id: crypto.randomUUID(),
         title: scene.title,
-        prompt: playerInput,
+        prompt: playerInput.trim() || scenario!.lore,
         visualStyle: finalVisualStyle,
         bannerUrl,
         language,
         createdAt: Date.now(),
-        history: [firstStep],
+        steps: [firstStep],
+        currentLeafId: firstStep.id,
+        codex: applyCodexUpdates([], scene.codexUpdates, firstStep.id),
+        quests: applyQuestUpdates([], scene.questUpdates, firstStep.id),
+        characters,
+        ...(ruleset && { ruleset }),
+        pacing: pacingMode,
+        difficulty,
+        contentRating,
+        ...(scenario && { scenario }),
       };
+      holdSessionLock(await acquireSessionLock(newSession.id, lockHandlers(newSession.id)));
       setActiveSession(newSession);
       setCurrentStepIndex(0);
       setGameState('PLAYING');
@@ -262,17 +571,19 @@ const App: React.FC = () => {
       setIsPromptAiGenerated(false);
     } catch (e) {
       console.error(e);
-      setError(t('errorStart') as string);
+      setError(generationErrorMessage(e, 'errorStart'));
       setGameState('SESSION_SELECT');
     }
-  }, [playerInput, language, t, visualStyleSelection, customVisualStyle]);
+  }, [playerInput, language, t, visualStyleSelection, customVisualStyle, isRulesetEnabled, pacingMode, difficulty, contentRating, scenarioPacks, selectedScenarioId, generationErrorMessage, reportGeneration]);
 
   // Keyboard shortcuts handler
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
-        setShowBranchConfirm(null);
+        setIsBranchMapOpen(false);
+        setShowEndingConfirm(false);
         setSessionToDelete(null);
+        setScenarioToDelete(null);
       }
       if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
         if (document.activeElement === promptTextareaRef.current || document.activeElement === customStyleTextareaRef.current) {
@@ -286,7 +597,43 @@ const App: React.FC = () => {
   }, [gameState, handleStartNewGame, handleGenerateIdea]);
 
 
-  const processChoice = useCallback(async (choice: string, historySlice: StoryStep[]) => {
+  // Summarizes the scenes that have fallen out of the recent window into chapters, in the
+  // background, starting from the chapters the session has now rather than when the turn began.
+  const updateStoryMemory = useCallback((sessionId: string, history: StoryStep[]) => {
+    if (memoryUpdateInFlight.current) return;
+    const current = activeSessionRef.current;
+    const chapters = current?.id === sessionId ? current.chapters : undefined;
+    memoryUpdateInFlight.current = true;
+    compressStoryMemory(history, chapters, language)
+      .then(updatedChapters => {
+        // Chapters changed in the meantime, e.g. by an edit that dropped some, are not
+        // overwritten with ones built on the old text; the next turn summarizes again.
+        if (updatedChapters) {
+          setActiveSession(prev => prev && prev.id === sessionId && prev.chapters === chapters ? { ...prev, chapters: updatedChapters } : prev);
+        }
+      })
+      .catch(err => console.error("Failed to update story memory", err))
+      .finally(() => { memoryUpdateInFlight.current = false; });
+  }, [language]);
+
+  // Writes the epilogue and summary card of a story that ended at the last step of the history, in the background.
+  const writeEpilogue = useCallback((session: GameSession, history: StoryStep[], ending: EndingType) => {
+    const stepId = history[history.length - 1].id;
+    setWritingEpilogueFor(stepId);
+    generateEpilogue(session, history, ending, language)
+      .then(epilogue => {
+        setActiveSession(prev => prev && prev.id === session.id
+          ? { ...prev, epilogues: [...(prev.epilogues ?? []).filter(e => e.stepId !== stepId), epilogue] }
+          : prev);
+      })
+      .catch(err => {
+        console.error("Failed to write the epilogue", err);
+        setError(t('errorEpilogue') as string);
+      })
+      .finally(() => setWritingEpilogueFor(current => current === stepId ? null : current));
+  }, [language, t]);
+
+  const processChoice = useCallback(async (choice: string, historySlice: StoryStep[], isCustomAction = false, requestsEnding = false) => {
     if (!activeSession) return;
     setGameState('LOADING');
     setError(null);
@@ -294,87 +641,276 @@ const App: React.FC = () => {
     const updatedHistorySlice = [...historySlice];
     const lastStepIndex = updatedHistorySlice.length - 1;
     
-    updatedHistorySlice[lastStepIndex] = {
-        ...updatedHistorySlice[lastStepIndex],
-        choiceMade: choice
-    };
+    // Under the ruleset the dice are rolled here, before the model narrates the outcome.
+    const lastStep = { ...recordChoice(updatedHistorySlice[lastStepIndex], choice, isCustomAction, activeSession.ruleset), endingRequested: requestsEnding || undefined };
+    updatedHistorySlice[lastStepIndex] = lastStep;
+    setPendingCheckResult(lastStep.checkResult ?? null);
 
     try {
-        const { scene, imageUrl } = await generateNextStep(updatedHistorySlice, choice, language, activeSession.visualStyle);
-        const newStep: StoryStep = { 
-            id: crypto.randomUUID(), 
-            imageUrl, 
-            story: scene.story,
-            choices: scene.choices,
-            inventory: scene.inventory,
-            currentQuest: scene.currentQuest,
-            mood: scene.mood,
-        };
+        // A scene pre-generated for this choice commits at once; if it failed, generate it normally.
+        // Look-ahead never asks for an ending, so a request to end the story is always generated now.
+        if (requestsEnding) lookahead.cancel();
+        const speculation = requestsEnding ? null : lookahead.take(lastStep.id, choice);
+        let result: NextStepResult | null = null;
+        if (speculation) {
+            result = await speculation.catch(err => {
+                console.warn("Look-ahead result unusable, generating the scene again:", err);
+                return null;
+            });
+        }
+        // An authored scene of the scenario's scene graph is played as written.
+        const graph = activeSession.scenario?.sceneGraph;
+        const nextNode = getNextSceneNode(graph, lastStep, choice, isCustomAction);
+        const { scene, imageUrl, characters, report } = result ?? await (nextNode?.kind === 'fixed'
+            ? playAuthoredScene(activeSession, updatedHistorySlice, nextNode)
+            : generateNextStep(activeSession, updatedHistorySlice, choice, language, setPendingScene));
+        reportGeneration(report);
+        const newStep = buildNextStep(activeSession, updatedHistorySlice, crypto.randomUUID(), scene, imageUrl, nextNode?.id);
+        const ending = newStep.ending;
         
+        // The new scene starts a branch of its own if the step already led somewhere else.
         const newHistory = [...updatedHistorySlice, newStep];
+        const quests = applyQuestUpdates(activeSession.quests, scene.questUpdates, newStep.id);
+        const updatedSession: GameSession = {
+            ...appendStep(activeSession, updatedHistorySlice, newStep),
+            codex: applyCodexUpdates(activeSession.codex, scene.codexUpdates, newStep.id),
+            quests,
+            characters,
+        };
         
-        setActiveSession({ ...activeSession, history: newHistory });
+        // Chapters may have been written in the background while the scene was generated.
+        setActiveSession(prev => prev && prev.id === updatedSession.id ? { ...updatedSession, chapters: prev.chapters } : prev);
+        if (ending) writeEpilogue(updatedSession, newHistory, ending);
+        const completedQuests = getQuestsCompletedAt(getQuestsForPath(quests, newHistory), newHistory.length - 1);
+        if (completedQuests.length > 0) {
+            setQuestToast((t('questCompletedToast') as string).replace('{quest}', completedQuests.map(quest => quest.title).join(', ')));
+        }
         setCurrentStepIndex(newHistory.length - 1);
         setGameState('PLAYING');
+        updateStoryMemory(activeSession.id, newHistory);
     } catch (e) {
         console.error(e);
-        setError(t('errorTangled') as string);
+        setError(generationErrorMessage(e, 'errorTangled'));
         setGameState('PLAYING');
     } finally {
-        setShowBranchConfirm(null);
         setOptimisticChoice(null);
+        setPendingScene(null);
+        setPendingCheckResult(null);
     }
-  }, [activeSession, language, t]);
+  }, [activeSession, language, t, generationErrorMessage, reportGeneration, updateStoryMemory, lookahead, writeEpilogue]);
 
-  const handleSelectChoice = useCallback((choice: string, source: 'click' | 'voice' = 'click') => {
-    if (!activeSession || gameState === 'LOADING' || narrationState !== 'IDLE') return;
+  const handleSelectChoice = useCallback((choice: string, source: 'click' | 'voice' = 'click', isCustomAction = false, requestsEnding = false) => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING' || narrationState !== 'IDLE') return;
+    const currentStep = history[currentStepIndex];
+    // Once the story has ended, the player can only go back and branch from an earlier scene.
+    if (getStepEnding(currentStep)) return;
 
-    if (currentStepIndex === activeSession.history.length - 1) {
-        setOptimisticChoice(choice);
+    // A choice already explored from this step switches to its branch instead of playing it again.
+    const exploredBranch = !isCustomAction && findChoiceBranch(activeSession.steps, currentStep.id, choice);
+    if (exploredBranch) {
+        setActiveSession({ ...activeSession, currentLeafId: getBranchLeaf(activeSession.steps, exploredBranch.id) });
+        setCurrentStepIndex(currentStepIndex + 1);
+        return;
     }
 
+    setOptimisticChoice(choice);
     if (source === 'click' && isNarrationEnabled) {
       setClickedChoiceToNarrate({ id: crypto.randomUUID(), choice });
     }
+    // Choosing differently on an earlier step starts a new branch; the other branches are kept.
+    processChoice(choice, history.slice(0, currentStepIndex + 1), isCustomAction, requestsEnding);
+  }, [activeSession, isReadOnly, history, currentStepIndex, processChoice, isNarrationEnabled, gameState, narrationState]);
 
-    const currentStep = activeSession.history[currentStepIndex];
-    const isBranching = currentStep.choiceMade && currentStep.choiceMade !== choice;
-    
-    if (isBranching) {
-        setShowBranchConfirm(choice);
-    } else {
-        const historySlice = activeSession.history.slice(0, currentStepIndex + 1);
-        processChoice(choice, historySlice);
-    }
-  }, [activeSession, currentStepIndex, processChoice, isNarrationEnabled, gameState, narrationState]);
-  
-  const confirmBranching = () => {
-    if (showBranchConfirm && activeSession) {
-      const historySlice = activeSession.history.slice(0, currentStepIndex + 1);
-      processChoice(showBranchConfirm, historySlice);
+  /**
+   * Switches the step at this position of the timeline to the previous or next of its sibling
+   * branches. Waits for the turn being generated, which commits to the branch it started on,
+   * and is not for a tab that only watches the adventure.
+   */
+  const handleSwitchBranch = (stepIndex: number, offset: number) => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING') return;
+    const siblings = getSiblings(activeSession.steps, history[stepIndex].id);
+    const { position, count } = getBranchPosition(activeSession.steps, history[stepIndex].id);
+    const target = siblings[(position + offset + count) % count];
+    setActiveSession({ ...activeSession, currentLeafId: getBranchLeaf(activeSession.steps, target.id) });
+    setCurrentStepIndex(stepIndex);
+  };
+
+  /** Shows a step from the branch map; a step on another branch switches to that branch. */
+  const handleJumpToStep = (stepId: string) => {
+    setIsBranchMapOpen(false);
+    if (!activeSession || gameState === 'LOADING') return;
+    const index = history.findIndex(step => step.id === stepId);
+    if (index >= 0) {
+      setCurrentStepIndex(index);
+      return;
     }
+    if (isReadOnly) return;
+    const leafId = getBranchLeaf(activeSession.steps, stepId);
+    setActiveSession({ ...activeSession, currentLeafId: leafId });
+    setCurrentStepIndex(getPath(activeSession.steps, leafId).findIndex(step => step.id === stepId));
   };
 
-  const handleResumeSession = (sessionId: string) => {
-    const sessionToResume = sessions.find(s => s.id === sessionId);
-    if (sessionToResume) {
-      setLanguage(sessionToResume.language);
-      setActiveSession(sessionToResume);
-      setCurrentStepIndex(sessionToResume.history.length - 1);
+  /**
+   * Plays the current scene again from the choice that led to it. The old scene is kept
+   * as a version; the codex and quest changes it made are replaced by the new scene's.
+   */
+  const handleRerollStep = useCallback(async () => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING' || currentStepIndex === 0) return;
+    const sessionId = activeSession.id;
+    const step = history[currentStepIndex];
+    const path = history.slice(0, currentStepIndex);
+    setGameState('LOADING');
+    setError(null);
+    try {
+      const result = await generateNextStep(activeSession, path, path[path.length - 1].choiceMade!, language, setPendingScene);
+      reportGeneration(result.report);
+      const rerolled = buildNextStep(activeSession, path, step.id, result.scene, result.imageUrl, step.sceneNodeId);
+      const reroll = (session: GameSession): GameSession => ({
+        ...replaceStepContent(session, step.id, getStepContent(rerolled), 'reroll', { codexUpdates: result.scene.codexUpdates, questUpdates: result.scene.questUpdates }),
+        characters: result.characters,
+      });
+      // Applied to the session as it is now, which chapters or an epilogue may have reached meanwhile.
+      setActiveSession(prev => prev && prev.id === sessionId ? reroll(prev) : prev);
+      if (rerolled.ending) writeEpilogue(reroll(activeSession), [...path, rerolled], rerolled.ending);
+      setGameState('PLAYING');
+    } catch (e) {
+      console.error(e);
+      setError(generationErrorMessage(e, 'errorTangled'));
+      setGameState('PLAYING');
+    } finally {
+      setPendingScene(null);
+    }
+  }, [activeSession, isReadOnly, gameState, history, currentStepIndex, language, generationErrorMessage, reportGeneration, writeEpilogue]);
+
+  /** Draws the image of the current scene again, from its prompt as the player left it. */
+  const handleRegenerateImage = async (prompt: string) => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING') return;
+    const sessionId = activeSession.id;
+    const step = history[currentStepIndex];
+    setGameState('LOADING');
+    setError(null);
+    try {
+      const imageUrl = await regenerateSceneImage(activeSession, prompt || step.imagePrompt || step.story);
+      setActiveSession(prev => prev && prev.id === sessionId ? replaceStepContent(prev, step.id, { imageUrl, imagePrompt: prompt || step.imagePrompt }, 'image') : prev);
+    } catch (e) {
+      console.error(e);
+      setError(generationErrorMessage(e, 'errorRegenerateImage'));
+    } finally {
       setGameState('PLAYING');
     }
   };
 
-  const confirmDeleteSession = () => {
+  // A choice the player kept keeps its check; one they added needs no roll.
+  const handleEditStep = (story: string, choices: EditedChoice[]) => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING') return;
+    const step = history[currentStepIndex];
+    setActiveSession(replaceStepContent(activeSession, step.id, {
+      story,
+      choices: choices.map(choice => choice.text),
+      ...(step.choiceChecks && { choiceChecks: choices.map(choice => (choice.from !== undefined && step.choiceChecks![choice.from]) || NO_CHECK) }),
+      editedByPlayer: true,
+    }, 'edit'));
+  };
+
+  const handleRevertVersion = (versionIndex: number) => {
+    if (!activeSession || isReadOnly || gameState === 'LOADING') return;
+    setActiveSession(revertStepVersion(activeSession, history[currentStepIndex].id, versionIndex));
+  };
+
+  /**
+   * Starts a new adventure from the scene being viewed, with the story up to it. The
+   * original is left as it was; autosave stores the fork once it is open.
+   */
+  const handleForkFromStep = async () => {
+    if (!activeSession) return;
+    const forkNumber = sessions.filter(s => s.forkedFrom?.sessionId === activeSession.id).length + 1;
+    const title = (t('forkTitle') as string).replace('{title}', activeSession.title).replace('{number}', forkNumber.toString());
+    const fork = forkSession(activeSession, history[currentStepIndex].id, title);
+    lookahead.cancel();
+    holdSessionLock(await acquireSessionLock(fork.id, lockHandlers(fork.id)));
+    // The step being viewed is the fork's latest scene, at the same position.
+    setActiveSession(fork);
+    setImportSuccessMessage((t('forkCreatedToast') as string).replace('{title}', title));
+  };
+
+  const confirmEnding = () => {
+    setShowEndingConfirm(false);
+    handleSelectChoice(t('requestEndingAction') as string, 'click', true, true);
+  };
+
+  // A saved session that could not be read has been moved to the quarantine by the store.
+  const reportUnreadableSession = async (err: unknown) => {
+    console.error("Failed to load session", err);
+    if (!(err instanceof SessionFormatError)) return;
+    setError((t('errorSessionQuarantined') as string).replace('{errors}', err.errors.slice(0, 3).join('; ')));
+    const [index, quarantined] = await Promise.all([loadSessionIndex(), loadQuarantine()]);
+    setSessions(index);
+    setQuarantine(quarantined);
+  };
+
+  /**
+   * Opens a saved adventure to play it, which needs its edit lock. If another tab holds
+   * the lock the player is asked what to do instead: watch the adventure here, or take
+   * it over, which leaves the other tab watching.
+   */
+  const handleResumeSession = async (sessionId: string, access: 'play' | 'watch' | 'take-over' = 'play') => {
+    setLockConflictSessionId(null);
+    let lock: SessionLock | null = null;
+    if (access !== 'watch') {
+      lock = await acquireSessionLock(sessionId, lockHandlers(sessionId), access === 'take-over');
+      if (!lock) {
+        setLockConflictSessionId(sessionId);
+        return;
+      }
+    }
+
+    let sessionToResume: GameSession | null = null;
+    try {
+      sessionToResume = await loadSession(sessionId);
+    } catch (err) {
+      await reportUnreadableSession(err);
+    }
+    if (!sessionToResume) {
+      lock?.release();
+      return;
+    }
+    holdSessionLock(lock);
+    setLanguage(sessionToResume.language);
+    setActiveSession(sessionToResume);
+    setCurrentStepIndex(getStoryPath(sessionToResume).length - 1);
+    setGameState('PLAYING');
+  };
+
+  const confirmDeleteScenario = () => {
+    if (scenarioToDelete) {
+      setScenarioPacks(prevPacks => prevPacks.filter(pack => pack.id !== scenarioToDelete));
+      if (selectedScenarioId === scenarioToDelete) setSelectedScenarioId(null);
+      deleteScenarioPack(scenarioToDelete).then(setScenarioPacks).catch((err: any) => {
+        console.error("Failed to save after deleting the scenario pack", err);
+      });
+      setScenarioToDelete(null);
+    }
+  };
+
+  const handleSaveScenario = (pack: ScenarioPack) => {
+    setEditingScenario(null);
+    setSelectedScenarioId(pack.id);
+    importScenarioPacks([pack]).then(setScenarioPacks).catch((err: any) => {
+      console.error("Failed to save the scenario pack", err);
+      setError(t('errorSaveScenario') as string);
+    });
+  };
+
+  const confirmDeleteSession = async () => {
     if (sessionToDelete) {
-      setSessions(prevSessions => {
-        const updatedSessions = prevSessions.filter(s => s.id !== sessionToDelete);
-        if (typeof localforage !== 'undefined') {
-          localforage.setItem(SESSIONS_KEY, updatedSessions).catch((err: any) => {
-            console.error("Failed to save after deletion", err);
-          });
-        }
-        return updatedSessions;
+      if (await isSessionOpenElsewhere(sessionToDelete)) {
+        setSessionToDelete(null);
+        setError(t('errorSessionOpenElsewhere') as string);
+        return;
+      }
+      setSessions(prevSessions => prevSessions.filter(s => s.id !== sessionToDelete));
+      deleteSession(sessionToDelete).then(setSessions).catch((err: any) => {
+        console.error("Failed to save after deletion", err);
       });
       setSessionToDelete(null);
     }
@@ -404,12 +940,8 @@ const App: React.FC = () => {
     return name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
   };
 
-  const handleExportSession = (sessionId: string) => {
-    const session = sessions.find(s => s.id === sessionId);
-    if (!session) return;
-
-    const filename = `${sanitizeFilename(session.title)}.json`;
-    const data = JSON.stringify(session, null, 2);
+  const downloadJson = (filename: string, value: unknown) => {
+    const data = JSON.stringify(value, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
@@ -422,21 +954,38 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const handleExportAllSessions = () => {
+  // Exports are self-contained: stored images are inlined back into the session as data URLs.
+  const handleExportSession = async (sessionId: string) => {
+    const storedSession = await loadSession(sessionId).catch(err => reportUnreadableSession(err).then(() => null));
+    if (!storedSession) return;
+    const session = await inlineSessionImages(storedSession);
+    downloadJson(`${sanitizeFilename(session.title)}.json`, toSessionFile(session));
+  };
+
+  const handleExportAllSessions = async () => {
     if (sessions.length === 0) return;
-    
-    const filename = 'sagaforge_adventures_backup.json';
-    const data = JSON.stringify(sessions, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
 
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const storedSessions = await Promise.all(sessions.map(s => loadSession(s.id).catch(err => reportUnreadableSession(err).then(() => null))));
+    const fullSessions = await Promise.all(
+      storedSessions.filter((s): s is GameSession => s !== null).map(inlineSessionImages)
+    );
+    downloadJson('sagaforge_adventures_backup.json', fullSessions.map(toSessionFile));
+  };
+
+  // Quarantined sessions download exactly as they were found, with the problems found in them.
+  const handleDownloadQuarantine = () => {
+    downloadJson('sagaforge_unreadable_adventures.json', quarantine);
+  };
+
+  const handleDiscardQuarantine = () => {
+    discardQuarantinedSessions(quarantine.map(entry => entry.id)).then(setQuarantine).catch((err: any) => {
+      console.error("Failed to discard the quarantined sessions", err);
+    });
+  };
+
+  // Like adventures, packs export with their stored images inlined back as data URLs.
+  const handleExportScenario = async (pack: ScenarioPack) => {
+    downloadJson(`${sanitizeFilename(pack.title)}.scenario.json`, toScenarioPackFile(await inlineScenarioImages(pack)));
   };
 
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -444,7 +993,7 @@ const App: React.FC = () => {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const text = e.target?.result;
         if (typeof text !== 'string') {
@@ -452,28 +1001,32 @@ const App: React.FC = () => {
         }
         const data = JSON.parse(text);
 
-        const sessionsToImport: GameSession[] = Array.isArray(data) ? data : [data];
+        // A file holds sessions, scenario packs, or both.
+        const entries: unknown[] = Array.isArray(data) ? data : [data];
+        const scenariosToImport = entries.filter(isScenarioPackFile).map(parseScenarioPack);
+        const sessionsToImport = entries.filter(entry => !isScenarioPackFile(entry));
 
-        const areSessionsValid = sessionsToImport.every(
-          s => s && typeof s === 'object' && s.id && s.title && Array.isArray(s.history)
-        );
-
-        if (!areSessionsValid) {
-          throw new Error("Invalid session format.");
+        // Sessions that cannot be read are set aside rather than merged; the rest are imported.
+        const messages: string[] = [];
+        if (sessionsToImport.length > 0) {
+          const { index, quarantined } = await importSessions(sessionsToImport);
+          setSessions(index);
+          const importedCount = sessionsToImport.length - quarantined.length;
+          if (importedCount > 0) {
+            messages.push((t('importSuccess') as string).replace('{count}', importedCount.toString()));
+          }
+          if (quarantined.length > 0) {
+            setQuarantine(await loadQuarantine());
+            setError((t('importQuarantined') as string)
+              .replace('{count}', quarantined.length.toString())
+              .replace('{errors}', quarantined.flatMap(entry => entry.errors).slice(0, 3).join('; ')));
+          }
         }
-
-        setSessions(prevSessions => {
-          const sessionsMap = new Map(prevSessions.map(s => [s.id, s]));
-          sessionsToImport.forEach(session => {
-            sessionsMap.set(session.id, session);
-          });
-          const newSessions = Array.from(sessionsMap.values());
-          localforage.setItem(SESSIONS_KEY, newSessions);
-          return newSessions;
-        });
-        
-        const successString = t('importSuccess') as string;
-        setImportSuccessMessage(successString.replace('{count}', sessionsToImport.length.toString()));
+        if (scenariosToImport.length > 0) {
+          setScenarioPacks(await importScenarioPacks(scenariosToImport));
+          messages.push((t('importScenarioSuccess') as string).replace('{count}', scenariosToImport.length.toString()));
+        }
+        if (messages.length > 0) setImportSuccessMessage(messages.join(' '));
 
       } catch (err) {
         console.error("Import failed:", err);
@@ -493,6 +1046,11 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
   
+  const handleCycleLookaheadBudget = () => {
+    const currentIndex = LOOKAHEAD_BUDGETS.indexOf(lookaheadBudget);
+    setLookaheadBudget(LOOKAHEAD_BUDGETS[(currentIndex + 1) % LOOKAHEAD_BUDGETS.length]);
+  };
+
   const handleCycleNarrationSpeed = () => {
     const currentIndex = NARRATION_SPEEDS.indexOf(narrationSpeed);
     const nextIndex = (currentIndex + 1) % NARRATION_SPEEDS.length;
@@ -500,6 +1058,7 @@ const App: React.FC = () => {
   };
 
   const renderSessionSelect = () => {
+    const selectedScenario = scenarioPacks.find(pack => pack.id === selectedScenarioId);
     const styleOptions = [
       ...predefinedStyles,
       { id: 'custom', name: 'Custom', imageUrl: './assets/style-custom.png' }
@@ -543,9 +1102,23 @@ const App: React.FC = () => {
                                     onWheel={handleTooltipWheelScroll}
                                     onClick={() => handleResumeSession(session.id)}
                                   >
-                                    <img src={session.bannerUrl} alt="Adventure banner" className="w-24 h-24 object-cover rounded-l-lg flex-shrink-0" />
+                                    <StoredImage src={session.bannerUrl} alt="Adventure banner" className="w-24 h-24 object-cover rounded-l-lg flex-shrink-0" />
                                     <div className="flex-1 min-w-0 p-3 text-left">
-                                        <p className="font-semibold text-lg text-white truncate">{session.title}</p>
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <p className="font-semibold text-lg text-white truncate">{session.title}</p>
+                                            {session.ending && (
+                                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border flex-shrink-0 ${endingBadgeClasses[session.ending]}`}>{t(endingLabelKeys[session.ending] as keyof typeof translations.en) as string}</span>
+                                            )}
+                                            {session.contentRating && (
+                                                <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border flex-shrink-0 ${contentRatingBadgeClasses[session.contentRating]}`}>{t(contentRatingLabelKeys[session.contentRating]) as string}</span>
+                                            )}
+                                            {session.difficulty && (
+                                                <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border flex-shrink-0 bg-slate-800 border-slate-600 text-slate-300">{t(difficultyLabelKeys[session.difficulty]) as string}</span>
+                                            )}
+                                        </div>
+                                        {session.forkedFrom && (
+                                            <p className="text-xs text-amber-300/80 truncate">{(t('forkedFrom') as string).replace('{title}', session.forkedFrom.title)}</p>
+                                        )}
                                         <p className="text-sm text-slate-400 truncate">{session.prompt}</p>
                                         <div className="flex items-center gap-1.5 mt-1">
                                             <PaintBrushIcon className="w-3 h-3 text-teal-400 flex-shrink-0" />
@@ -567,26 +1140,96 @@ const App: React.FC = () => {
                         <p className="text-slate-400">{t('noSessionsMessage') as string}</p>
                       </div>
                     )}
+                    {quarantine.length > 0 && (
+                      <div className="mt-4 p-4 bg-amber-900/30 border border-amber-600/60 rounded-lg text-left">
+                        <div className="flex flex-wrap justify-between items-center gap-3">
+                          <p className="text-amber-200 text-sm font-semibold">{(t('quarantineNotice') as string).replace('{count}', quarantine.length.toString())}</p>
+                          <div className="flex gap-2">
+                            <button onClick={handleDownloadQuarantine} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm"><ArrowDownTrayIcon className="w-4 h-4" />{t('quarantineDownload') as string}</button>
+                            <button onClick={handleDiscardQuarantine} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-700/80 hover:bg-red-700 text-sm"><TrashIcon className="w-4 h-4" />{t('quarantineDiscard') as string}</button>
+                          </div>
+                        </div>
+                        <details className="mt-2 text-xs text-slate-300">
+                          <summary className="cursor-pointer text-slate-400 hover:text-slate-200">{t('quarantineDetails') as string}</summary>
+                          <ul className="mt-2 space-y-2">
+                            {quarantine.map(entry => (
+                              <li key={entry.id}>
+                                <span className="font-semibold text-amber-100">{entry.name}</span>
+                                <span className="text-slate-500"> · {t(entry.source === 'import' ? 'quarantineFromImport' : 'quarantineFromStorage') as string} · {new Date(entry.quarantinedAt).toLocaleString()}</span>
+                                <ul className="list-disc list-inside text-slate-400">
+                                  {entry.errors.map((problem, i) => <li key={i}>{problem}</li>)}
+                                </ul>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      </div>
+                    )}
                 </div>
                 
                 <div className="flex justify-between items-center mb-4 mt-8">
                     <h2 className="text-2xl font-bold text-teal-300">{t('startNew')}</h2>
-                     <button 
-                        onClick={() => setIsNarrationEnabled(!isNarrationEnabled)} 
-                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all duration-300 ${isNarrationEnabled ? 'bg-teal-600 border-teal-500 text-white shadow-md' : 'bg-slate-700/80 border-slate-600 text-slate-300'} hover:border-amber-400 hover:text-white`} 
-                        title={t('narrate') as string}
-                    >
-                        {isNarrationEnabled ? <SpeakerOnIcon className="w-5 h-5" /> : <SpeakerOffIcon className="w-5 h-5" />}
-                        <span className="hidden sm:inline font-semibold">{t('narrate') as string}</span>
-                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setIsRulesetEnabled(!isRulesetEnabled)}
+                            className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all duration-300 ${isRulesetEnabled ? 'bg-teal-600 border-teal-500 text-white shadow-md' : 'bg-slate-700/80 border-slate-600 text-slate-300'} hover:border-amber-400 hover:text-white`}
+                            title={t('rulesetHint') as string}
+                        >
+                            <DieIcon className="w-5 h-5" />
+                            <span className="hidden sm:inline font-semibold">{t('ruleset') as string}</span>
+                        </button>
+                        <button 
+                            onClick={() => setIsNarrationEnabled(!isNarrationEnabled)} 
+                            className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all duration-300 ${isNarrationEnabled ? 'bg-teal-600 border-teal-500 text-white shadow-md' : 'bg-slate-700/80 border-slate-600 text-slate-300'} hover:border-amber-400 hover:text-white`} 
+                            title={t('narrate') as string}
+                        >
+                            {isNarrationEnabled ? <SpeakerOnIcon className="w-5 h-5" /> : <SpeakerOffIcon className="w-5 h-5" />}
+                            <span className="hidden sm:inline font-semibold">{t('narrate') as string}</span>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="mb-6 text-left">
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="text-lg font-semibold text-teal-300">{t('scenario') as string}</h3>
+                        <button onClick={() => setEditingScenario(createScenarioDraft())} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700/80 border border-slate-600 text-sm text-slate-300 hover:text-white transition-colors">
+                            <PlusIcon className="w-4 h-4"/> {t('newScenario') as string}
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {[null, ...scenarioPacks].map(pack => {
+                            const isSelected = (pack?.id ?? null) === selectedScenarioId;
+                            return (
+                                <div
+                                    key={pack?.id ?? 'freeform'}
+                                    onClick={() => setSelectedScenarioId(pack?.id ?? null)}
+                                    className={`p-3 rounded-lg border-2 cursor-pointer transition-all duration-300 flex items-start gap-3 ${isSelected ? 'border-teal-400 bg-teal-900/30 shadow-lg shadow-teal-400/10' : 'border-slate-700 bg-slate-800/60 hover:border-teal-500/70'}`}
+                                >
+                                    <GlobeAltIcon className={`w-6 h-6 flex-shrink-0 mt-0.5 ${isSelected ? 'text-teal-300' : 'text-slate-400'}`} />
+                                    <div className="flex-1 min-w-0">
+                                        <h4 className={`font-bold truncate ${isSelected ? 'text-teal-300' : 'text-slate-300'}`}>{pack ? pack.title : t('scenarioFreeform') as string}</h4>
+                                        <p className="text-xs text-slate-400 mt-1 line-clamp-2">{pack ? pack.startingLocation : t('scenarioFreeformHint') as string}</p>
+                                    </div>
+                                    {pack && (
+                                        <div className="flex flex-col gap-1 flex-shrink-0" onClick={e => e.stopPropagation()}>
+                                            <button onClick={() => setEditingScenario(pack)} title={t('editScenario') as string} className="p-1 rounded text-slate-400 hover:text-amber-300 hover:bg-slate-700 transition-colors"><PencilIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => handleExportScenario(pack)} title={t('exportScenario') as string} className="p-1 rounded text-slate-400 hover:text-sky-300 hover:bg-slate-700 transition-colors"><ArrowDownTrayIcon className="w-4 h-4"/></button>
+                                            <button onClick={() => setScenarioToDelete(pack.id)} title={t('delete') as string} className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 transition-colors"><TrashIcon className="w-4 h-4"/></button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {scenarioPacks.length === 0 && <p className="text-xs text-slate-500 mt-2">{t('scenarioHint') as string}</p>}
                 </div>
 
-                <p className="text-lg text-slate-300 mb-6 text-left">{t('description')}</p>
+                <p className="text-lg text-slate-300 mb-6 text-left">{t(selectedScenario ? 'scenarioDescription' : 'description')}</p>
                 <div className="relative w-full">
                     <textarea
                         ref={promptTextareaRef}
                         className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 pr-14 text-white focus:ring-2 focus:ring-amber-500 focus:outline-none transition duration-200 h-28 resize-none"
-                        placeholder={t('placeholder') as string}
+                        placeholder={t(selectedScenario ? 'scenarioPlaceholder' : 'placeholder') as string}
                         value={playerInput}
                         onChange={(e) => {
                           setPlayerInput(e.target.value);
@@ -604,65 +1247,127 @@ const App: React.FC = () => {
                     </button>
                 </div>
                 
-                 <div className="mt-6 text-left">
-                    <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('visualStyle')}</h3>
-                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
-                        {styleOptions.map(style => {
-                            const isSelected = visualStyleSelection === style.id;
+                <div className="mt-6 text-left">
+                    <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('pacing')}</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {PACING_MODES.map(mode => {
+                            const isSelected = pacingMode === mode;
                             return (
                                 <button
-                                    key={style.id}
-                                    onClick={() => setVisualStyleSelection(style.id)}
-                                    className={`
-                                        bg-gradient-to-br from-slate-800 to-slate-700 
-                                        border-2 rounded-lg overflow-hidden text-center cursor-pointer
-                                        transform transition-all duration-300 group 
-                                        focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-amber-400
-                                        ${isSelected 
-                                            ? 'scale-105 border-teal-400 shadow-2xl shadow-teal-400/20' 
-                                            : 'border-slate-700 shadow-inner shadow-black/50 hover:scale-105 hover:border-teal-500/70 hover:shadow-xl active:scale-100'
-                                        }
-                                    `}
+                                    key={mode}
+                                    onClick={() => setPacingMode(mode)}
+                                    className={`p-3 rounded-lg border-2 text-left transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-amber-400 ${isSelected ? 'border-teal-400 bg-teal-900/30 shadow-lg shadow-teal-400/10' : 'border-slate-700 bg-slate-800/60 hover:border-teal-500/70'}`}
                                 >
-                                    <img src={style.imageUrl} alt={style.name} className="w-full h-32 object-cover group-hover:scale-110 transition-transform duration-300" />
-                                    <div className={`
-                                        p-3 border-t-2 bg-slate-800/50 backdrop-blur-sm
-                                        transition-colors duration-300
-                                        ${isSelected ? 'border-teal-400' : 'border-slate-700 group-hover:border-teal-500/70'}
-                                    `}>
-                                        <h4 className={`
-                                            font-bold transition-colors duration-300
-                                            ${isSelected ? 'text-teal-300' : 'text-slate-300 group-hover:text-white'}
-                                        `}>{t(style.id as keyof typeof translations.en) as string || style.name}</h4>
-                                    </div>
+                                    <h4 className={`font-bold ${isSelected ? 'text-teal-300' : 'text-slate-300'}`}>{t(pacingLabelKeys[mode]) as string}</h4>
+                                    <p className="text-xs text-slate-400 mt-1">{t(pacingHintKeys[mode]) as string}</p>
                                 </button>
-                            )
+                            );
                         })}
                     </div>
-                    {visualStyleSelection === 'custom' && (
-                      <div className="relative w-full mt-4 animate-fadeIn">
-                          <textarea
-                              ref={customStyleTextareaRef}
-                              className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 pr-14 text-white focus:ring-2 focus:ring-amber-500 focus:outline-none transition duration-200 h-20 resize-none"
-                              placeholder={t('visualStylePlaceholder') as string}
-                              value={customVisualStyle}
-                              onChange={(e) => {
-                                  setCustomVisualStyle(e.target.value);
-                                  setIsCustomStyleAiGenerated(false);
-                              }}
-                              disabled={isGeneratingStyleIdea || gameState === 'LOADING'}
-                          />
-                          <button
-                              onClick={handleGenerateStyleIdea}
-                              disabled={isGeneratingStyleIdea || gameState === 'LOADING'}
-                              title={t('generateStyleIdea') as string}
-                              className="absolute top-3 right-3 p-2 rounded-full bg-teal-600/50 text-teal-300 hover:bg-teal-600 hover:text-white transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center h-9 w-9"
-                          >
-                              {isGeneratingStyleIdea ? <LoadingSpinner size="small" /> : <SparklesIcon className="w-5 h-5" />}
-                          </button>
-                      </div>
-                    )}
                 </div>
+
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-left">
+                    <div>
+                        <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('difficulty')}</h3>
+                        <div className="flex rounded-lg border border-slate-600 overflow-hidden">
+                            {DIFFICULTIES.map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setDifficulty(option)}
+                                    className={`flex-1 px-3 py-2 text-sm font-semibold transition-colors ${difficulty === option ? 'bg-teal-600 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+                                >
+                                    {t(difficultyLabelKeys[option]) as string}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-400 mt-2">{t('difficultyHint') as string}</p>
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('contentRating')}</h3>
+                        <div className="flex rounded-lg border border-slate-600 overflow-hidden">
+                            {CONTENT_RATINGS.map(option => (
+                                <button
+                                    key={option}
+                                    onClick={() => setContentRating(option)}
+                                    className={`flex-1 px-3 py-2 text-sm font-semibold transition-colors ${contentRating === option ? 'bg-teal-600 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+                                >
+                                    {t(contentRatingLabelKeys[option]) as string}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-400 mt-2">{t(contentRatingHintKeys[contentRating]) as string}</p>
+                    </div>
+                </div>
+
+                {selectedScenario?.stylePrompt ? (
+                  <div className="mt-6 text-left">
+                    <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('visualStyle')}</h3>
+                    <div className="flex items-start gap-2 bg-slate-900/50 rounded-lg border border-slate-700 p-3">
+                        <PaintBrushIcon className="w-4 h-4 text-teal-400 flex-shrink-0 mt-0.5" />
+                        <p className="text-sm text-slate-300">{t('scenarioStyle') as string} <span className="text-teal-300">{selectedScenario.stylePrompt}</span></p>
+                    </div>
+                  </div>
+                ) : (
+                   <div className="mt-6 text-left">
+                      <h3 className="text-lg font-semibold text-teal-300 mb-3">{t('visualStyle')}</h3>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                          {styleOptions.map(style => {
+                              const isSelected = visualStyleSelection === style.id;
+                              return (
+                                  <button
+                                      key={style.id}
+                                      onClick={() => setVisualStyleSelection(style.id)}
+                                      className={`
+                                          bg-gradient-to-br from-slate-800 to-slate-700 
+                                          border-2 rounded-lg overflow-hidden text-center cursor-pointer
+                                          transform transition-all duration-300 group 
+                                          focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-amber-400
+                                          ${isSelected 
+                                              ? 'scale-105 border-teal-400 shadow-2xl shadow-teal-400/20' 
+                                              : 'border-slate-700 shadow-inner shadow-black/50 hover:scale-105 hover:border-teal-500/70 hover:shadow-xl active:scale-100'
+                                          }
+                                      `}
+                                  >
+                                      <img src={style.imageUrl} alt={style.name} className="w-full h-32 object-cover group-hover:scale-110 transition-transform duration-300" />
+                                      <div className={`
+                                          p-3 border-t-2 bg-slate-800/50 backdrop-blur-sm
+                                          transition-colors duration-300
+                                          ${isSelected ? 'border-teal-400' : 'border-slate-700 group-hover:border-teal-500/70'}
+                                      `}>
+                                          <h4 className={`
+                                              font-bold transition-colors duration-300
+                                              ${isSelected ? 'text-teal-300' : 'text-slate-300 group-hover:text-white'}
+                                          `}>{t(style.id as keyof typeof translations.en) as string || style.name}</h4>
+                                      </div>
+                                  </button>
+                              )
+                          })}
+                      </div>
+                      {visualStyleSelection === 'custom' && (
+                        <div className="relative w-full mt-4 animate-fadeIn">
+                            <textarea
+                                ref={customStyleTextareaRef}
+                                className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 pr-14 text-white focus:ring-2 focus:ring-amber-500 focus:outline-none transition duration-200 h-20 resize-none"
+                                placeholder={t('visualStylePlaceholder') as string}
+                                value={customVisualStyle}
+                                onChange={(e) => {
+                                    setCustomVisualStyle(e.target.value);
+                                    setIsCustomStyleAiGenerated(false);
+                                }}
+                                disabled={isGeneratingStyleIdea || gameState === 'LOADING'}
+                            />
+                            <button
+                                onClick={handleGenerateStyleIdea}
+                                disabled={isGeneratingStyleIdea || gameState === 'LOADING'}
+                                title={t('generateStyleIdea') as string}
+                                className="absolute top-3 right-3 p-2 rounded-full bg-teal-600/50 text-teal-300 hover:bg-teal-600 hover:text-white transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center h-9 w-9"
+                            >
+                                {isGeneratingStyleIdea ? <LoadingSpinner size="small" /> : <SparklesIcon className="w-5 h-5" />}
+                            </button>
+                        </div>
+                      )}
+                  </div>
+                )}
                 <button
                     onClick={handleStartNewGame}
                     disabled={gameState === 'LOADING' || isGeneratingIdea || isGeneratingStyleIdea}
@@ -678,7 +1383,18 @@ const App: React.FC = () => {
   
   const renderGame = () => {
     if (!activeSession) return null;
-    const currentStep = activeSession.history[currentStepIndex];
+    const currentStep = history[currentStepIndex];
+    const pathToStep = history.slice(0, currentStepIndex + 1);
+    const hasLaterScenes = getChildren(activeSession.steps, currentStep.id).length > 0;
+    // Only the newest scene of a branch can be played again, and never an authored one.
+    const previousStep = history[currentStepIndex - 1];
+    const canReroll = !!previousStep && !hasLaterScenes
+      && getNextSceneNode(activeSession.scenario?.sceneGraph, previousStep, previousStep.choiceMade!, previousStep.isCustomAction)?.kind !== 'fixed';
+    // Inventory and quest from a scene that is still streaming; new items show a spinner until their image exists.
+    const streamingScene = gameState === 'LOADING' ? pendingScene : null;
+    const displayedInventory = streamingScene?.inventory
+      ? mergeInventory(currentStep.inventory, streamingScene.inventory).items
+      : currentStep.inventory;
 
     return (
         <div className="flex flex-col w-full h-full max-w-7xl mx-auto">
@@ -688,7 +1404,7 @@ const App: React.FC = () => {
                     storyStep={currentStep}
                     language={language}
                     narrationSpeed={narrationSpeed}
-                    onChoiceSelected={(choice) => handleSelectChoice(choice, 'voice')}
+                    onChoiceSelected={(choice, isCustomAction) => handleSelectChoice(choice, 'voice', isCustomAction)}
                     onNarrationStateChange={setNarrationState}
                     clickedChoiceToNarrate={clickedChoiceToNarrate}
                     onError={(e) => {
@@ -699,7 +1415,7 @@ const App: React.FC = () => {
                 />
             )}
             <header className="w-full flex justify-between items-center mb-4 flex-shrink-0 animate-fadeIn p-2 bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700">
-                <button onClick={() => { setActiveSession(null); setGameState('SESSION_SELECT'); }} className="flex items-center gap-2 bg-slate-800/50 border border-slate-700 px-3 py-2 rounded-lg hover:bg-slate-700 transition-colors" title={t('home') as string}>
+                <button onClick={handleExitSession} className="flex items-center gap-2 bg-slate-800/50 border border-slate-700 px-3 py-2 rounded-lg hover:bg-slate-700 transition-colors" title={t('home') as string}>
                     <HomeIcon className="w-5 h-5 text-amber-400"/>
                     <span className="hidden md:inline font-semibold">{t('home') as string}</span>
                 </button>
@@ -707,6 +1423,15 @@ const App: React.FC = () => {
                     {activeSession.title}
                 </h1>
                 <div className="flex items-center gap-2 md:gap-4">
+                    <button
+                        onClick={handleCycleLookaheadBudget}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all duration-300 ${lookaheadBudget > 0 ? 'bg-teal-600 border-teal-500 text-white shadow-md' : 'bg-slate-700/80 border-slate-600 text-slate-300'} hover:border-amber-400 hover:text-white`}
+                        title={lookaheadBudget > 0 ? (t('lookaheadHint') as string).replace('{count}', lookaheadBudget.toString()) : t('lookaheadOffHint') as string}
+                    >
+                        <ChevronDoubleRightIcon className="w-5 h-5" />
+                        <span className="hidden lg:inline font-semibold">{t('lookahead') as string}</span>
+                        <span className="font-semibold">{lookaheadBudget > 0 ? lookaheadBudget : t('lookaheadOff') as string}</span>
+                    </button>
                     {isNarrationEnabled && (
                          <button
                             onClick={handleCycleNarrationSpeed}
@@ -735,9 +1460,21 @@ const App: React.FC = () => {
                     <LanguageSelector language={language} setLanguage={setLanguage} />
                 </div>
             </header>
+
+            {isReadOnly && (
+                <div className="w-full mb-4 p-3 bg-sky-900/40 border border-sky-600/60 rounded-lg flex flex-wrap justify-between items-center gap-3 animate-fadeIn">
+                    <p className="text-sky-100 text-sm">{t('watchingNotice') as string}</p>
+                    <button onClick={() => handleResumeSession(activeSession.id, 'take-over')} className="px-3 py-1.5 rounded-lg bg-teal-600 hover:bg-teal-700 text-sm font-semibold">{t('playHereInstead') as string}</button>
+                </div>
+            )}
+            {isOpenInTwoTabs && (
+                <div className="w-full mb-4 p-3 bg-red-900/40 border border-red-600/60 rounded-lg animate-fadeIn">
+                    <p className="text-red-100 text-sm font-semibold">{t('openInTwoTabsWarning') as string}</p>
+                </div>
+            )}
             
             <div className="relative w-full h-24 md:h-32 rounded-lg overflow-hidden mb-6 border-2 border-amber-500/50 shadow-lg animate-fadeIn">
-                <img src={activeSession.bannerUrl} alt="Adventure Banner" className="w-full h-full object-cover" />
+                <StoredImage src={activeSession.bannerUrl} alt="Adventure Banner" className="w-full h-full object-cover" />
                 <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent"></div>
                 <h1 className="absolute bottom-0 left-0 right-0 p-4 md:p-6 text-xl md:text-3xl font-bold text-white text-center truncate" style={{textShadow: '2px 2px 4px #000'}} title={activeSession.title}>
                     {activeSession.title}
@@ -746,29 +1483,101 @@ const App: React.FC = () => {
 
             <div className="flex flex-col md:flex-row gap-6 flex-grow min-h-0">
                 <Sidebar 
-                    inventory={currentStep.inventory} 
-                    currentQuest={currentStep.currentQuest} 
+                    inventory={displayedInventory} 
+                    canUseItems={gameState !== 'LOADING' && narrationState === 'IDLE' && !isReadOnly}
+                    onUseItem={(item) => handleSelectChoice((t('useItemAction') as string).replace('{item}', item.name), 'click', true)}
+                    currentQuest={streamingScene?.currentQuest ?? currentStep.currentQuest} 
+                    quests={getQuestsForPath(activeSession.quests, pathToStep)}
+                    codex={getCodexForPath(activeSession.codex, pathToStep)}
+                    stats={currentStep.stats}
                     translations={{ 
                         inventory: t('inventory') as string, 
-                        currentQuest: t('currentQuest') as string, 
+                        questJournal: t('questJournal') as string, 
                         emptyInventory: t('emptyInventory') as string, 
+                        useItem: t('useItem') as string,
+                        itemCategories: {
+                            weapon: t('itemWeapon') as string,
+                            armor: t('itemArmor') as string,
+                            consumable: t('itemConsumable') as string,
+                            tool: t('itemTool') as string,
+                            key: t('itemKey') as string,
+                            document: t('itemDocument') as string,
+                            treasure: t('itemTreasure') as string,
+                            misc: t('itemMisc') as string,
+                        },
                         noQuest: t('noQuest') as string,
-                        storyTimeline: t('storyTimeline') as string
+                        finishedQuests: t('finishedQuests') as string,
+                        questStarted: t('questStarted') as string,
+                        objectiveDone: t('objectiveDone') as string,
+                        questStatuses: {
+                            active: t('questActive') as string,
+                            completed: t('questCompleted') as string,
+                            failed: t('questFailed') as string,
+                        },
+                        storyTimeline: t('storyTimeline') as string,
+                        previousBranch: t('previousBranch') as string,
+                        nextBranch: t('nextBranch') as string,
+                        branchMap: t('branchMap') as string,
+                        codex: t('codex') as string,
+                        emptyCodex: t('emptyCodex') as string,
+                        firstSeen: t('codexFirstSeen') as string,
+                        related: t('codexRelated') as string,
+                        kinds: {
+                            character: t('codexCharacters') as string,
+                            location: t('codexLocations') as string,
+                            faction: t('codexFactions') as string,
+                            item: t('codexItems') as string,
+                            fact: t('codexFacts') as string,
+                        },
+                        stats: t('stats') as string,
+                        health: t('health') as string,
+                        skills: t('skills') as string,
+                        noSkills: t('noSkills') as string,
+                        attributes: {
+                            strength: t('attrStrength') as string,
+                            agility: t('attrAgility') as string,
+                            intellect: t('attrIntellect') as string,
+                            charisma: t('attrCharisma') as string,
+                        },
                     }}
-                    sessionHistory={activeSession.history}
+                    sessionHistory={history}
+                    branches={history.map(step => getBranchPosition(activeSession.steps, step.id))}
                     currentIndex={currentStepIndex}
                     onStepSelect={setCurrentStepIndex}
+                    onSwitchBranch={handleSwitchBranch}
+                    canOpenBranchMap={gameState !== 'LOADING'}
+                    onOpenBranchMap={() => setIsBranchMapOpen(true)}
                 />
                 <StoryView
                     session={activeSession}
                     currentIndex={currentStepIndex}
                     onSelectChoice={(choice) => handleSelectChoice(choice, 'click')}
+                    onCustomAction={(action) => handleSelectChoice(action, 'click', true)}
                     onPrev={() => setCurrentStepIndex(i => Math.max(0, i-1))}
-                    onNext={() => setCurrentStepIndex(i => Math.min(activeSession.history.length - 1, i+1))}
+                    onNext={() => setCurrentStepIndex(i => Math.min(history.length - 1, i+1))}
                     gameState={gameState}
                     narrationState={narrationState}
+                    isReadOnly={isReadOnly}
                     optimisticChoice={optimisticChoice}
+                    pendingScene={pendingScene}
+                    pendingCheckResult={pendingCheckResult}
+                    onRequestEnding={() => setShowEndingConfirm(true)}
+                    epilogue={getEpilogue(activeSession, currentStep.id)}
+                    isWritingEpilogue={writingEpilogueFor === currentStep.id}
+                    onWriteEpilogue={() => {
+                        const ending = getStepEnding(currentStep);
+                        if (ending) writeEpilogue(activeSession, pathToStep, ending);
+                    }}
+                    onRewind={() => setCurrentStepIndex(i => Math.max(0, i-1))}
+                    onExit={handleExitSession}
                     onSkipNarration={() => narratorRef.current?.skip()}
+                    canReroll={canReroll}
+                    hasLaterScenes={hasLaterScenes}
+                    onReroll={handleRerollStep}
+                    onRegenerateImage={handleRegenerateImage}
+                    onEditStep={handleEditStep}
+                    onRevertVersion={handleRevertVersion}
+                    onFork={handleForkFromStep}
                     t={t}
                 />
             </div>
@@ -787,30 +1596,72 @@ const App: React.FC = () => {
       )}
 
       <div className="w-full h-full flex-grow flex items-center justify-center max-w-7xl mx-auto">
-        {gameState === 'SESSION_SELECT' || !activeSession ? renderSessionSelect() : renderGame()}
+        {gameState === 'SESSION_SELECT' || !activeSession
+          ? editingScenario
+            ? <ScenarioEditor key={editingScenario.id} pack={editingScenario} onSave={handleSaveScenario} onCancel={() => setEditingScenario(null)} onExport={handleExportScenario} t={t} />
+            : renderSessionSelect()
+          : renderGame()}
       </div>
 
-      {(error || importSuccessMessage) && (
-        <div className="fixed bottom-4 right-4 z-[100] animate-fadeIn">
+      {(error || importSuccessMessage || questToast || generationNotice) && (
+        <div className="fixed bottom-4 right-4 z-[100] animate-fadeIn flex flex-col gap-2">
             {error && <div className="bg-red-800/90 border border-red-600 text-white p-4 rounded-lg shadow-lg">{error}</div>}
             {importSuccessMessage && <div className="bg-green-800/90 border border-green-600 text-white p-4 rounded-lg shadow-lg">{importSuccessMessage}</div>}
+            {questToast && <div className="bg-amber-700/90 border border-amber-500 text-white font-semibold p-4 rounded-lg shadow-lg flex items-center gap-2"><CompassIcon className="w-5 h-5" />{questToast}</div>}
+            {generationNotice && <div className="bg-slate-700/90 border border-slate-500 text-white p-4 rounded-lg shadow-lg flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-teal-300" />{generationNotice}</div>}
         </div>
       )}
 
 
-      {showBranchConfirm && (
+      {isBranchMapOpen && activeSession && gameState !== 'SESSION_SELECT' && (
+        <BranchMap
+          steps={activeSession.steps}
+          path={history}
+          currentIndex={currentStepIndex}
+          onJump={handleJumpToStep}
+          onClose={() => setIsBranchMapOpen(false)}
+          t={t}
+        />
+      )}
+
+      {showEndingConfirm && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn">
           <div className="bg-slate-800 border border-amber-500 rounded-lg shadow-xl p-6 max-w-sm text-center">
-            <h3 className="text-xl font-bold text-white mb-2">{t('branchConfirmTitle') as string}</h3>
-            <p className="text-slate-300 mb-6">{t('branchConfirmMessage') as string}</p>
+            <h3 className="text-xl font-bold text-white mb-2">{t('requestEndingConfirmTitle') as string}</h3>
+            <p className="text-slate-300 mb-6">{t('requestEndingConfirmMessage') as string}</p>
             <div className="flex justify-center gap-4">
-              <button onClick={() => setShowBranchConfirm(null)} className="px-6 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('cancel') as string}</button>
-              <button onClick={confirmBranching} className="px-6 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold">{t('confirm') as string}</button>
+              <button onClick={() => setShowEndingConfirm(false)} className="px-6 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('cancel') as string}</button>
+              <button onClick={confirmEnding} className="px-6 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold">{t('confirm') as string}</button>
             </div>
           </div>
         </div>
       )}
 
+      {scenarioToDelete && (
+         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn">
+          <div className="bg-slate-800 border border-red-500 rounded-lg shadow-xl p-6 max-w-sm text-center">
+            <h3 className="text-xl font-bold text-white mb-2">{t('deleteScenarioConfirmTitle') as string}</h3>
+            <p className="text-slate-300 mb-6">{t('deleteScenarioConfirm') as string}</p>
+            <div className="flex justify-center gap-4">
+              <button onClick={() => setScenarioToDelete(null)} className="px-6 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('cancel') as string}</button>
+              <button onClick={confirmDeleteScenario} className="px-6 py-2 rounded-lg bg-red-600 hover:bg-red-700 transition-colors font-semibold">{t('delete') as string}</button>
+            </div>
+          </div>
+        </div>
+      )}
+      {lockConflictSessionId && (
+         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn">
+          <div className="bg-slate-800 border border-amber-500 rounded-lg shadow-xl p-6 max-w-md text-center">
+            <h3 className="text-xl font-bold text-white mb-2">{t('sessionOpenElsewhereTitle') as string}</h3>
+            <p className="text-slate-300 mb-6">{t('sessionOpenElsewhere') as string}</p>
+            <div className="flex flex-wrap justify-center gap-4">
+              <button onClick={() => setLockConflictSessionId(null)} className="px-6 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('cancel') as string}</button>
+              <button onClick={() => handleResumeSession(lockConflictSessionId, 'watch')} className="px-6 py-2 rounded-lg bg-sky-700 hover:bg-sky-800 transition-colors">{t('watchHere') as string}</button>
+              <button onClick={() => handleResumeSession(lockConflictSessionId, 'take-over')} className="px-6 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold">{t('playHereInstead') as string}</button>
+            </div>
+          </div>
+        </div>
+      )}
       {sessionToDelete && (
          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-50 animate-fadeIn">
           <div className="bg-slate-800 border border-red-500 rounded-lg shadow-xl p-6 max-w-sm text-center">
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StoryNode, StoryStep } from '../types';
+import StoredImage from './StoredImage';
+import { endingBadgeClasses, endingLabelKeys } from './EndingCard';
+import { getChildren } from '../lib/storyTree';
+import { getStepEnding } from '../lib/endings';
+
+interface BranchMapProps {
+  steps: StoryNode[];
+  /** The branch being played. */
+  path: StoryStep[];
+  currentIndex: number;
+  onJump: (stepId: string) => void;
+  onClose: () => void;
+  t: (key: string) => string | string[];
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 90;
+const STUB_HEIGHT = 40;
+const COLUMN_WIDTH = 300;
+const ROW_HEIGHT = 120;
+const PADDING = 40;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2;
+
+interface MapNode {
+  step: StoryNode;
+  x: number;
+  y: number;
+}
+
+/** A choice offered on a step that no branch has taken yet. */
+interface MapStub {
+  parentId: string;
+  choice: string;
+  x: number;
+  y: number;
+}
+
+// Scenes are laid out left to right by depth; every branch tip and unexplored choice gets
+// a row of its own, and a scene sits halfway between its first and last child.
+const layoutTree = (steps: StoryNode[]) => {
+  const nodes: MapNode[] = [];
+  const stubs: MapStub[] = [];
+  let rows = 0;
+
+  const place = (step: StoryNode, depth: number): number => {
+    const children = getChildren(steps, step.id);
+    const explored = new Set(children.filter(child => !child.choice?.isCustomAction).map(child => child.choice?.choiceMade));
+    const unexplored = getStepEnding(step) ? [] : step.choices.filter(choice => !explored.has(choice));
+
+    const childRows = children.map(child => place(child, depth + 1));
+    for (const choice of unexplored) {
+      const y = rows++ * ROW_HEIGHT;
+      stubs.push({ parentId: step.id, choice, x: (depth + 1) * COLUMN_WIDTH, y });
+      childRows.push(y);
+    }
+    const y = childRows.length > 0 ? (childRows[0] + childRows[childRows.length - 1]) / 2 : rows++ * ROW_HEIGHT;
+    nodes.push({ step, x: depth * COLUMN_WIDTH, y });
+    return y;
+  };
+  steps.filter(step => !step.parentId).forEach(root => place(root, 0));
+
+  const depth = Math.max(0, ...nodes.map(node => node.x), ...stubs.map(stub => stub.x)) / COLUMN_WIDTH;
+  return { nodes, stubs, width: depth * COLUMN_WIDTH + NODE_WIDTH + PADDING * 2, height: Math.max(1, rows) * ROW_HEIGHT + PADDING * 2 };
+};
+
+const edgePath = (x1: number, y1: number, x2: number, y2: number) => {
+  const mid = (x1 + x2) / 2;
+  return `M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`;
+};
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/** A pan-and-zoom map of every scene of the adventure and the choices between them. */
+const BranchMap: React.FC<BranchMapProps> = ({ steps, path, currentIndex, onJump, onClose, t }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+
+  const { nodes, stubs, width, height } = useMemo(() => layoutTree(steps), [steps]);
+  const byId = useMemo(() => new Map(nodes.map(node => [node.step.id, node])), [nodes]);
+  const pathIds = useMemo(() => new Set(path.map(step => step.id)), [path]);
+  const currentStepId = path[currentIndex]?.id;
+
+  // Open centred on the scene being viewed.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const current = currentStepId && byId.get(currentStepId);
+    if (!viewport || !current) return;
+    setView({
+      x: viewport.clientWidth / 2 - (current.x + PADDING + NODE_WIDTH / 2),
+      y: viewport.clientHeight / 2 - (current.y + PADDING + NODE_HEIGHT / 2),
+      scale: 1,
+    });
+    // Only on opening; jumping closes the map.
+  }, []);
+
+  // The wheel zooms around the cursor. React's wheel listener is passive, so the page
+  // would scroll too; this one is registered by hand to prevent that.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const cursorX = e.clientX - rect.left;
+      const cursorY = e.clientY - rect.top;
+      setView(prev => {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+        return {
+          x: cursorX - (cursorX - prev.x) * scale / prev.scale,
+          y: cursorY - (cursorY - prev.y) * scale / prev.scale,
+          scale,
+        };
+      });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    if (drag.moved) setView(prev => ({ ...prev, x: drag.originX + dx, y: drag.originY + dy }));
+  };
+
+  // A click that ended a drag is not a jump.
+  const handleJump = (stepId: string) => {
+    if (dragRef.current?.moved) return;
+    onJump(stepId);
+  };
+
+  const zoomBy = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const centerX = viewport.clientWidth / 2;
+    const centerY = viewport.clientHeight / 2;
+    setView(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * factor));
+      return { x: centerX - (centerX - prev.x) * scale / prev.scale, y: centerY - (centerY - prev.y) * scale / prev.scale, scale };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn" onClick={onClose}>
+      <div className="bg-slate-900 border-2 border-slate-700 rounded-xl shadow-2xl w-full h-full max-w-7xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center gap-3 p-4 border-b border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-amber-400">{t('branchMap') as string}</h2>
+            <p className="text-xs text-slate-400">{t('branchMapHint') as string}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => zoomBy(1 / 1.25)} title={t('zoomOut') as string} className="w-8 h-8 rounded-lg bg-slate-700 hover:bg-slate-600 font-bold">−</button>
+            <span className="w-12 text-center text-sm text-slate-300">{Math.round(view.scale * 100)}%</span>
+            <button onClick={() => zoomBy(1.25)} title={t('zoomIn') as string} className="w-8 h-8 rounded-lg bg-slate-700 hover:bg-slate-600 font-bold">+</button>
+            <button onClick={onClose} className="ml-2 px-4 py-1.5 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('close') as string}</button>
+          </div>
+        </div>
+
+        <div
+          ref={viewportRef}
+          className="relative flex-grow overflow-hidden cursor-grab active:cursor-grabbing select-none"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={() => setTimeout(() => { dragRef.current = null; })}
+          onMouseLeave={() => { dragRef.current = null; }}
+        >
+          <div className="absolute top-0 left-0 origin-top-left" style={{ width, height, transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}>
+            <svg width={width} height={height} className="absolute inset-0 pointer-events-none">
+              {nodes.filter(node => node.step.parentId).map(node => {
+                const parent = byId.get(node.step.parentId!);
+                if (!parent) return null;
+                const onPath = pathIds.has(node.step.id);
+                const x1 = parent.x + PADDING + NODE_WIDTH;
+                const y1 = parent.y + PADDING + NODE_HEIGHT / 2;
+                const x2 = node.x + PADDING;
+                const y2 = node.y + PADDING + NODE_HEIGHT / 2;
+                const label = node.step.choice?.choiceMade ?? '';
+                return (
+                  <g key={node.step.id}>
+                    <path d={edgePath(x1, y1, x2, y2)} fill="none" stroke={onPath ? '#f59e0b' : '#64748b'} strokeWidth={onPath ? 3 : 1.5} />
+                    <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" fontSize={11} fill={onPath ? '#fcd34d' : '#94a3b8'} fontStyle={node.step.choice?.isCustomAction ? 'italic' : undefined}>
+                      <title>{label}</title>
+                      {truncate(label, 24)}
+                    </text>
+                  </g>
+                );
+              })}
+              {stubs.map(stub => {
+                const parent = byId.get(stub.parentId)!;
+                return (
+                  <path
+                    key={`${stub.parentId}-${stub.choice}`}
+                    d={edgePath(parent.x + PADDING + NODE_WIDTH, parent.y + PADDING + NODE_HEIGHT / 2, stub.x + PADDING, stub.y + PADDING + NODE_HEIGHT / 2)}
+                    fill="none" stroke="#475569" strokeWidth={1.5} strokeDasharray="4 4"
+                  />
+                );
+              })}
+            </svg>
+
+            {nodes.map(({ step, x, y }) => {
+              const isCurrent = step.id === currentStepId;
+              const onPath = pathIds.has(step.id);
+              const ending = getStepEnding(step);
+              return (
+                <div
+                  key={step.id}
+                  onClick={() => handleJump(step.id)}
+                  title={step.story}
+                  className={`absolute rounded-md overflow-hidden cursor-pointer transition-shadow bg-slate-800 ${isCurrent ? 'ring-4 ring-amber-400 shadow-lg shadow-amber-400/30' : onPath ? 'ring-2 ring-amber-600' : 'ring-1 ring-slate-600 opacity-70 hover:opacity-100 hover:ring-slate-400'}`}
+                  style={{ left: x + PADDING, top: y + PADDING, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                >
+                  <StoredImage src={step.imageUrl} alt={truncate(step.story, 40)} className="w-full h-full object-cover pointer-events-none" />
+                  {ending && (
+                    <span className={`absolute top-1 right-1 text-[9px] uppercase font-bold px-1.5 py-0.5 rounded-full border ${endingBadgeClasses[ending]}`}>{t(endingLabelKeys[ending]) as string}</span>
+                  )}
+                </div>
+              );
+            })}
+
+            {stubs.map(stub => (
+              <div
+                key={`${stub.parentId}-${stub.choice}`}
+                onClick={() => handleJump(stub.parentId)}
+                title={`${stub.choice}\n${t('unexploredChoice') as string}`}
+                className="absolute flex items-center px-2 rounded-md border border-dashed border-slate-500 text-[11px] leading-tight text-slate-400 hover:text-teal-300 hover:border-teal-400 cursor-pointer bg-slate-900/80"
+                style={{ left: stub.x + PADDING, top: stub.y + PADDING + (NODE_HEIGHT - STUB_HEIGHT) / 2, width: NODE_WIDTH, height: STUB_HEIGHT }}
+              >
+                <span className="line-clamp-2">{stub.choice}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BranchMap;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { CodexEntryState, CodexKind } from '../types';
+
+interface CodexPanelProps {
+  entries: CodexEntryState[];
+  translations: {
+    emptyCodex: string;
+    firstSeen: string;
+    related: string;
+    kinds: Record<CodexKind, string>;
+  };
+}
+
+const KIND_ORDER: CodexKind[] = ['character', 'location', 'faction', 'item', 'fact'];
+
+const statusClasses = (status: string) => {
+  switch (status.toLowerCase()) {
+    case 'dead':
+    case 'destroyed':
+      return 'bg-red-900/60 text-red-300 border-red-700';
+    case 'hostile':
+    case 'missing':
+      return 'bg-orange-900/60 text-orange-300 border-orange-700';
+    case 'alive':
+    case 'ally':
+    case 'visited':
+    case 'confirmed':
+      return 'bg-emerald-900/60 text-emerald-300 border-emerald-700';
+    default:
+      return 'bg-slate-700/60 text-slate-300 border-slate-600';
+  }
+};
+
+const CodexPanel: React.FC<CodexPanelProps> = ({ entries, translations }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (entries.length === 0) {
+    return <p className="text-slate-500 italic">{translations.emptyCodex}</p>;
+  }
+
+  return (
+    <div className="space-y-4 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+      {KIND_ORDER.map(kind => {
+        const entriesOfKind = entries.filter(entry => entry.kind === kind).sort((a, b) => a.name.localeCompare(b.name));
+        if (entriesOfKind.length === 0) return null;
+        return (
+          <div key={kind}>
+            <h3 className="text-xs font-bold uppercase tracking-wider text-teal-400 mb-2">{translations.kinds[kind]}</h3>
+            <ul className="space-y-1">
+              {entriesOfKind.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <li key={entry.id} className="bg-slate-900/50 rounded-lg border border-slate-700 hover:border-amber-400 transition-colors">
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left"
+                    >
+                      <span className={`text-sm font-semibold truncate ${entry.status.toLowerCase() === 'dead' ? 'text-slate-400 line-through' : 'text-gray-200'}`}>{entry.name}</span>
+                      <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border flex-shrink-0 ${statusClasses(entry.status)}`}>{entry.status}</span>
+                    </button>
+                    {isExpanded && (
+                      <div className="px-3 pb-3 text-sm text-gray-300 animate-fadeIn">
+                        <p className="leading-relaxed">{entry.description}</p>
+                        {entry.relatedItems.length > 0 && (
+                          <p className="mt-2 text-xs text-amber-300">{translations.related}: {entry.relatedItems.join(', ')}</p>
+                        )}
+                        <p className="mt-1 text-xs text-slate-500">{translations.firstSeen.replace('{step}', (entry.firstSeenStepIndex + 1).toString())}</p>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CodexPanel;
@@ -2,11 +2,20 @@
 import React, { useState, useMemo, useRef } from 'react';
 import { StoryStep } from '../types';
 import Tooltip, { TooltipData } from './Tooltip';
+import StoredImage from './StoredImage';
+import { ChevronLeftIcon, ChevronRightIcon } from './Icons';
+import { BranchPosition } from '../lib/storyTree';
 
 interface ComicStripProps {
     steps: StoryStep[];
+    branches: BranchPosition[];
     currentIndex: number;
     onTileClick: (index: number) => void;
+    onSwitchBranch: (index: number, offset: number) => void;
+    translations: {
+        previousBranch: string;
+        nextBranch: string;
+    };
 }
 
 const generateLayout = (totalSteps: number): number[][] => {
@@ -44,7 +53,7 @@ const generateLayout = (totalSteps: number): number[][] => {
 };
 
 
-export const ComicStrip: React.FC<ComicStripProps> = ({ steps, currentIndex, onTileClick }) => {
+export const ComicStrip: React.FC<ComicStripProps> = ({ steps, branches, currentIndex, onTileClick, onSwitchBranch, translations }) => {
     const [tooltipData, setTooltipData] = useState<TooltipData>({ visible: false, content: { text: '' }, x: 0, y: 0 });
     const tooltipContentRef = useRef<HTMLDivElement>(null);
 
@@ -89,6 +98,7 @@ export const ComicStrip: React.FC<ComicStripProps> = ({ steps, currentIndex, onT
                             const step = steps[stepIndex];
                             const isActive = stepIndex === currentIndex;
                             const isFutureStep = stepIndex > currentIndex;
+                            const branch = branches[stepIndex];
 
                             return (
                                 <div
@@ -107,7 +117,7 @@ export const ComicStrip: React.FC<ComicStripProps> = ({ steps, currentIndex, onT
                                     onMouseLeave={handleMouseLeave}
                                     onWheel={handleTooltipWheelScroll}
                                 >
-                                    <img src={step.imageUrl} alt={`Step ${stepIndex + 1}`} className="w-full h-full object-cover" />
+                                    <StoredImage src={step.imageUrl} alt={`Step ${stepIndex + 1}`} className="w-full h-full object-cover" />
                                     <div className={`
                                         absolute inset-0 bg-black transition-opacity duration-300
                                         ${isActive
@@ -118,6 +128,14 @@ export const ComicStrip: React.FC<ComicStripProps> = ({ steps, currentIndex, onT
                                         }
                                     `}></div>
                                     <span className="absolute bottom-1 right-2 text-white font-bold text-base" style={{textShadow: '1px 1px 3px black'}}>{stepIndex + 1}</span>
+                                    {/* Where the story split, the tile switches between the branches taken from the step before. */}
+                                    {branch && branch.count > 1 && (
+                                        <div className="absolute top-1 left-1 flex items-center bg-black/70 rounded-full text-white text-xs font-semibold" onClick={e => e.stopPropagation()}>
+                                            <button onClick={() => onSwitchBranch(stepIndex, -1)} title={translations.previousBranch} className="p-0.5 hover:text-amber-300"><ChevronLeftIcon className="w-3 h-3" /></button>
+                                            <span>{branch.position + 1}/{branch.count}</span>
+                                            <button onClick={() => onSwitchBranch(stepIndex, 1)} title={translations.nextBranch} className="p-0.5 hover:text-amber-300"><ChevronRightIcon className="w-3 h-3" /></button>
+                                        </div>
+                                    )}
                                 </div>
                             );
                         })}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { EndingType, Epilogue } from '../types';
+import StoredImage from './StoredImage';
+
+interface EndingCardProps {
+  title: string;
+  ending: EndingType;
+  epilogue: Epilogue;
+  stats: {
+    scenes: number;
+    questsCompleted: number;
+    charactersMet: number;
+  };
+  onClose: () => void;
+  t: (key: string) => string | string[];
+}
+
+export const endingLabelKeys: Record<EndingType, string> = {
+  victory: 'endingVictory',
+  defeat: 'endingDefeat',
+  bittersweet: 'endingBittersweet',
+};
+
+export const endingBadgeClasses: Record<EndingType, string> = {
+  victory: 'bg-amber-500/90 border-amber-300 text-slate-900',
+  defeat: 'bg-red-800/90 border-red-500 text-red-100',
+  bittersweet: 'bg-violet-800/90 border-violet-500 text-violet-100',
+};
+
+/** The illustrated summary card shown once an adventure has ended and its epilogue is written. */
+const EndingCard: React.FC<EndingCardProps> = ({ title, ending, epilogue, stats, onClose, t }) => (
+  <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn" onClick={onClose}>
+    <div className="bg-slate-800 border-2 border-amber-500/70 rounded-xl shadow-2xl max-w-2xl w-full max-h-full overflow-y-auto custom-scrollbar" onClick={e => e.stopPropagation()}>
+      <div className="relative">
+        {epilogue.imageUrl ? (
+          <StoredImage src={epilogue.imageUrl} alt={title} className="w-full aspect-video object-cover rounded-t-xl" />
+        ) : (
+          <div className="w-full h-24 bg-gradient-to-br from-slate-700 to-slate-900 rounded-t-xl" />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-slate-800 via-transparent to-transparent rounded-t-xl"></div>
+        <div className="absolute bottom-0 left-0 right-0 p-4 flex items-end justify-between gap-3">
+          <h2 className="text-2xl md:text-3xl font-bold text-white truncate" style={{ textShadow: '2px 2px 4px #000' }}>{title}</h2>
+          <span className={`text-xs uppercase font-bold px-3 py-1 rounded-full border flex-shrink-0 ${endingBadgeClasses[ending]}`}>{t(endingLabelKeys[ending]) as string}</span>
+        </div>
+      </div>
+      <div className="p-6">
+        <h3 className="text-sm font-bold uppercase tracking-wider text-teal-400 mb-2">{t('epilogue') as string}</h3>
+        <p className="text-gray-200 whitespace-pre-wrap leading-relaxed">{epilogue.text}</p>
+        <div className="grid grid-cols-3 gap-3 mt-6 text-center">
+          {[
+            [stats.scenes, t('cardScenes')],
+            [stats.questsCompleted, t('cardQuests')],
+            [stats.charactersMet, t('cardCharacters')],
+          ].map(([value, label]) => (
+            <div key={label as string} className="bg-slate-900/60 rounded-lg border border-slate-700 py-3">
+              <p className="text-2xl font-bold text-amber-300">{value as number}</p>
+              <p className="text-xs text-slate-400">{label as string}</p>
+            </div>
+          ))}
+        </div>
+        <div className="mt-6 flex justify-center">
+          <button onClick={onClose} className="px-6 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors font-semibold">{t('close') as string}</button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default EndingCard;
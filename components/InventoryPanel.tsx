@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { InventoryItem, ItemCategory } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import StoredImage from './StoredImage';
+
+interface InventoryPanelProps {
+  items: InventoryItem[];
+  /** Whether using an item is possible right now (not while a scene is being generated). */
+  canUseItems: boolean;
+  onUseItem: (item: InventoryItem) => void;
+  translations: {
+    emptyInventory: string;
+    useItem: string;
+    categories: Record<ItemCategory, string>;
+  };
+}
+
+const InventoryPanel: React.FC<InventoryPanelProps> = ({ items, canUseItems, onUseItem, translations }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = items.find(item => item.id === selectedId);
+
+  if (items.length === 0) {
+    return <p className="text-slate-500 italic">{translations.emptyInventory}</p>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-4">
+        {items.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setSelectedId(selectedId === item.id ? null : item.id)}
+            className="flex flex-col items-center text-center group"
+          >
+            <div className={`relative w-16 h-16 bg-slate-900/50 rounded-lg p-1 border transition-colors ${selectedId === item.id ? 'border-amber-400' : 'border-slate-600 group-hover:border-amber-400'}`}>
+              {item.imageUrl ? (
+                <StoredImage src={item.imageUrl} alt={item.name} className="w-full h-full object-contain rounded-md" />
+              ) : (
+                <div className="w-full h-full flex justify-center items-center"><LoadingSpinner size="small" /></div>
+              )}
+              {item.quantity > 1 && (
+                <span className="absolute -bottom-1 -right-1 bg-amber-500 text-slate-900 text-[10px] font-bold rounded-full px-1.5 border border-slate-900">x{item.quantity}</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-300 mt-2 group-hover:text-white transition-colors">{item.name}</p>
+          </button>
+        ))}
+      </div>
+      {selected && (
+        <div className="mt-4 bg-slate-900/50 rounded-lg border border-slate-700 p-3 text-sm animate-fadeIn">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-gray-200 truncate">{selected.name}{selected.quantity > 1 && ` x${selected.quantity}`}</span>
+            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border border-slate-600 bg-slate-700/60 text-slate-300 flex-shrink-0">{translations.categories[selected.category]}</span>
+          </div>
+          {selected.description && <p className="mt-2 text-gray-300 leading-relaxed">{selected.description}</p>}
+          {selected.usable && (
+            <button
+              onClick={() => onUseItem(selected)}
+              disabled={!canUseItems}
+              className="mt-3 w-full bg-gradient-to-br from-teal-600 to-cyan-700 text-white font-bold py-2 px-3 rounded-lg hover:from-teal-700 hover:to-cyan-800 transition-all disabled:from-slate-600 disabled:to-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+            >
+              {translations.useItem}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryPanel;
@@ -1,9 +1,9 @@
 import React, { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import { StoryStep, NarrationRef } from '../types';
 import { generateSpeech, interpretUserChoice } from '../services/geminiService';
 import { decode, decodeAudioData } from '../lib/audioUtils';
 import { translations } from '../lib/translations';
+import { getStepEnding } from '../lib/endings';
 
 export type NarrationState = 'IDLE' | 'NARRATING' | 'LISTENING' | 'PROCESSING';
 
@@ -75,14 +75,13 @@ interface LiveNarratorProps {
   storyStep: StoryStep;
   language: 'en' | 'es' | 'pt';
   narrationSpeed: number;
-  onChoiceSelected: (choice: string) => void;
+  onChoiceSelected: (choice: string, isCustomAction: boolean) => void;
   onNarrationStateChange: (state: NarrationState) => void;
   onError: (error: Error) => void;
   clickedChoiceToNarrate: { id: string; choice: string } | null;
 }
 
 const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, language, narrationSpeed, onChoiceSelected, onNarrationStateChange, onError, clickedChoiceToNarrate }, ref) => {
-  const aiRef = useRef<GoogleGenAI | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const currentAudioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const speechRecognitionRef = useRef<SpeechRecognition | null>(null);
@@ -125,7 +124,11 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
       operationIdRef.current = opId;
       const runSkippedSequence = async () => {
         try {
-          const promptText = `${t('voiceChoicePrompt')} ${storyStep.choices.join(', ')}`;
+          if (getStepEnding(storyStep)) {
+            updateNarrationState('IDLE');
+            return;
+          }
+          const promptText = `${t('voiceChoicePrompt')} ${storyStep.choices.join(', ')}. ${t('voiceCustomActionHint')}`;
           await narrateText(promptText, opId);
           await startListeningForChoice(opId);
         } catch (error) {
@@ -157,7 +160,7 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
   const narrateText = useCallback(async (text: string, localOpId: string): Promise<void> => {
     return new Promise(async (resolve, reject) => {
       try {
-        if (!aiRef.current || !audioContextRef.current) throw new Error("Audio system not initialized.");
+        if (!audioContextRef.current) throw new Error("Audio system not initialized.");
         if (operationIdRef.current !== localOpId) return reject(new Error("Operation cancelled"));
         
         updateNarrationState('NARRATING');
@@ -202,13 +205,14 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
     updateNarrationState('PROCESSING');
 
     try {
-        const result = await interpretUserChoice(speech, storyStep.choices, storyStep.story, language);
-        if (operationIdRef.current !== localOpId) return;
-
-        if (result !== 'UNCLEAR') {
-            onChoiceSelected(result);
+        if (speech) {
+            // Speech that matches no choice comes back as a custom action, so this always moves the story on.
+            const { choice, isCustomAction } = await interpretUserChoice(speech, storyStep.choices, storyStep.story, language);
+            if (operationIdRef.current !== localOpId) return;
+            onChoiceSelected(choice, isCustomAction);
             // The flow will stop here as a new step will be generated.
         } else {
+            // Nothing was heard.
             if (retryCount < 2) {
                 setRetryCount(prev => prev + 1);
                 await narrateText(t('voiceChoiceUnclear') as string, localOpId);
@@ -251,7 +255,7 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
         const stopListeningAndProcess = () => {
             if (!speechRecognitionRef.current) return;
             
-            const speechToProcess = finalTranscript.trim().toLowerCase();
+            const speechToProcess = finalTranscript.trim();
             cleanupSpeechRecognition();
 
             if (!speechToProcess) {
@@ -260,7 +264,7 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
                 return;
             }
 
-            if (speechToProcess === (t('stopCommand') as string).toLowerCase()) {
+            if (speechToProcess.toLowerCase() === (t('stopCommand') as string).toLowerCase()) {
                 return resolve();
             }
             if (operationIdRef.current === localOpId) {
@@ -327,7 +331,12 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
     const runNarrationSequence = async () => {
         try {
             await narrateText(storyStep.story, opId);
-            const promptText = `${t('voiceChoicePrompt')} ${storyStep.choices.join(', ')}`;
+            // The story has ended: there is no choice left to ask for.
+            if (getStepEnding(storyStep)) {
+                updateNarrationState('IDLE');
+                return;
+            }
+            const promptText = `${t('voiceChoicePrompt')} ${storyStep.choices.join(', ')}. ${t('voiceCustomActionHint')}`;
             await narrateText(promptText, opId);
             await startListeningForChoice(opId);
         } catch (error) {
@@ -372,7 +381,6 @@ const LiveNarrator = forwardRef<NarrationRef, LiveNarratorProps>(({ storyStep, l
   useEffect(() => {
     if (isInitialized) return;
     try {
-        aiRef.current = new GoogleGenAI({ apiKey: process.env.API_KEY });
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
         setIsInitialized(true);
     } catch(e) {
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { QuestState, QuestStatus } from '../types';
+
+interface QuestJournalProps {
+  quests: QuestState[];
+  /** One line summary of the most pressing goal; the only quest text of sessions saved before the journal. */
+  currentQuest: string;
+  translations: {
+    noQuest: string;
+    finishedQuests: string;
+    questStarted: string;
+    objectiveDone: string;
+    statuses: Record<QuestStatus, string>;
+  };
+}
+
+const statusClasses: Record<QuestStatus, string> = {
+  active: 'bg-teal-900/60 text-teal-300 border-teal-700',
+  completed: 'bg-emerald-900/60 text-emerald-300 border-emerald-700',
+  failed: 'bg-red-900/60 text-red-300 border-red-700',
+};
+
+const QuestCard: React.FC<{ quest: QuestState, translations: QuestJournalProps['translations'] }> = ({ quest, translations }) => (
+  <li className="bg-slate-900/50 rounded-lg border border-slate-700 px-3 py-2">
+    <div className="flex items-center justify-between gap-2">
+      <span className={`text-sm font-semibold truncate ${quest.status === 'active' ? 'text-gray-200' : 'text-slate-400'}`}>{quest.title}</span>
+      <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border flex-shrink-0 ${statusClasses[quest.status]}`}>{translations.statuses[quest.status]}</span>
+    </div>
+    {quest.status === 'active' && quest.description && <p className="mt-1 text-sm text-gray-300 leading-relaxed">{quest.description}</p>}
+    {quest.objectives.length > 0 && (
+      <ul className="mt-2 space-y-1">
+        {quest.objectives.map(objective => (
+          <li key={objective.text} className="flex items-start gap-2 text-sm">
+            <span className={`mt-0.5 w-3.5 h-3.5 rounded-sm border flex-shrink-0 flex items-center justify-center text-[10px] leading-none ${objective.done ? 'bg-emerald-600 border-emerald-500 text-white' : 'border-slate-500'}`}>
+              {objective.done && '✓'}
+            </span>
+            <span className={objective.done ? 'text-slate-500 line-through' : 'text-gray-300'}>{objective.text}</span>
+            {objective.doneStepIndex !== undefined && (
+              <span className="ml-auto text-[10px] text-slate-500 flex-shrink-0">{translations.objectiveDone.replace('{step}', (objective.doneStepIndex + 1).toString())}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+    <p className="mt-2 text-xs text-slate-500">{translations.questStarted.replace('{step}', (quest.startedStepIndex + 1).toString())}</p>
+  </li>
+);
+
+const QuestJournal: React.FC<QuestJournalProps> = ({ quests, currentQuest, translations }) => {
+  const [showFinished, setShowFinished] = useState(false);
+  const active = quests.filter(quest => quest.status === 'active');
+  const finished = quests.filter(quest => quest.status !== 'active');
+
+  if (quests.length === 0) {
+    return <p className="text-gray-300 leading-relaxed">{currentQuest || translations.noQuest}</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-72 overflow-y-auto pr-2 custom-scrollbar">
+      {currentQuest && <p className="text-amber-200/90 text-sm italic leading-relaxed">{currentQuest}</p>}
+      {active.length > 0 && (
+        <ul className="space-y-2">
+          {active.map(quest => <QuestCard key={quest.id} quest={quest} translations={translations} />)}
+        </ul>
+      )}
+      {finished.length > 0 && (
+        <div>
+          <button onClick={() => setShowFinished(!showFinished)} className="text-xs font-bold uppercase tracking-wider text-teal-400 hover:text-amber-300 transition-colors">
+            {showFinished ? '▾' : '▸'} {translations.finishedQuests} ({finished.length})
+          </button>
+          {showFinished && (
+            <ul className="mt-2 space-y-2 animate-fadeIn">
+              {finished.map(quest => <QuestCard key={quest.id} quest={quest} translations={translations} />)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestJournal;
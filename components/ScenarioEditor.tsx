@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { EndingType, FixedSceneNode, GenerativeSceneNode, SceneGraph, SceneNode, ScenarioPack } from '../types';
+import { parseScenarioPack, ScenarioPackError, toScenarioPackFile } from '../services/scenarioPack';
+import { isImageRef } from '../services/imageStore';
+import { endingLabelKeys } from './EndingCard';
+import StoredImage from './StoredImage';
+import { ArrowDownTrayIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface ScenarioEditorProps {
+  pack: ScenarioPack;
+  onSave: (pack: ScenarioPack) => void;
+  onCancel: () => void;
+  onExport: (pack: ScenarioPack) => void;
+  t: (key: string) => string | string[];
+}
+
+type PackField = 'title' | 'lore' | 'startingLocation' | 'startingQuest' | 'stylePrompt';
+
+const ENDINGS: (EndingType | 'none')[] = ['none', 'victory', 'defeat', 'bittersweet'];
+
+const inputClasses = 'w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+const labelClasses = 'block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1';
+
+/** A blank pack for the editor; it only becomes valid once its required fields are filled in. */
+export const createScenarioDraft = (): ScenarioPack => ({
+  id: crypto.randomUUID(),
+  title: '',
+  lore: '',
+  startingLocation: '',
+  startingInventory: [],
+  startingQuest: '',
+  npcs: [],
+  toneRules: [],
+  stylePrompt: '',
+  sceneGraph: { startNodeId: '', nodes: [] },
+});
+
+const createNode = (kind: SceneNode['kind'], id: string): SceneNode => kind === 'fixed'
+  ? { id, kind, label: '', trigger: '', story: '', choices: [], imageUrl: '', imagePrompt: '', currentQuest: '', mood: 'mysterious', ending: 'none' }
+  : { id, kind, label: '', trigger: '', brief: '', next: '' };
+
+// Uploaded images are data URLs until the pack is saved, and image store references after.
+const isUploaded = (imageUrl: string) => imageUrl.startsWith('data:') || isImageRef(imageUrl);
+
+// Edges into a removed node fall back to the AI rather than dangling.
+const removeNode = (graph: SceneGraph, nodeId: string): SceneGraph => ({
+  startNodeId: graph.startNodeId === nodeId ? '' : graph.startNodeId,
+  nodes: graph.nodes.filter(node => node.id !== nodeId).map(node => node.kind === 'fixed'
+    ? { ...node, choices: node.choices.map(choice => choice.target === nodeId ? { ...choice, target: '' } : choice) }
+    : node.next === nodeId ? { ...node, next: '' } : node),
+});
+
+/** Edits a scenario pack and its scene graph of fixed and generated beats. */
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ pack, onSave, onCancel, onExport, t }) => {
+  const [draft, setDraft] = useState<ScenarioPack>(() => ({ ...pack, sceneGraph: pack.sceneGraph ?? { startNodeId: '', nodes: [] } }));
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(draft.sceneGraph!.nodes[0]?.id ?? null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const graph = draft.sceneGraph!;
+  const selectedNode = graph.nodes.find(node => node.id === selectedNodeId);
+
+  const setField = (field: PackField, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+  const setGraph = (update: (graph: SceneGraph) => SceneGraph) => setDraft(prev => ({ ...prev, sceneGraph: update(prev.sceneGraph!) }));
+  const updateNode = (nodeId: string, changes: Partial<FixedSceneNode> | Partial<GenerativeSceneNode>) =>
+    setGraph(prev => ({ ...prev, nodes: prev.nodes.map(node => node.id === nodeId ? { ...node, ...changes } as SceneNode : node) }));
+
+  const handleAddNode = (kind: SceneNode['kind']) => {
+    const id = `scene-${crypto.randomUUID().slice(0, 8)}`;
+    setGraph(prev => ({ startNodeId: prev.startNodeId || id, nodes: [...prev.nodes, createNode(kind, id)] }));
+    setSelectedNodeId(id);
+  };
+
+  const handleDeleteNode = (nodeId: string) => {
+    setGraph(prev => removeNode(prev, nodeId));
+    setSelectedNodeId(null);
+  };
+
+  // Switching kind keeps what both kinds share and resets the rest.
+  const handleChangeKind = (node: SceneNode, kind: SceneNode['kind']) => {
+    const { label, trigger } = node;
+    setGraph(prev => ({ ...prev, nodes: prev.nodes.map(n => n.id === node.id ? { ...createNode(kind, node.id), label, trigger } : n) }));
+  };
+
+  const handleImageUpload = (node: FixedSceneNode, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => updateNode(node.id, { imageUrl: reader.result as string });
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  // Both saving and exporting go through the same checks as importing a file.
+  const validate = (): ScenarioPack | null => {
+    const { sceneGraph, ...rest } = draft;
+    try {
+      const parsed = parseScenarioPack(toScenarioPackFile(sceneGraph!.nodes.length > 0 ? draft : rest));
+      setErrors([]);
+      return parsed;
+    } catch (e) {
+      if (!(e instanceof ScenarioPackError)) throw e;
+      setErrors(e.errors);
+      return null;
+    }
+  };
+
+  const handleSave = () => {
+    const parsed = validate();
+    if (parsed) onSave(parsed);
+  };
+
+  const handleExport = () => {
+    const parsed = validate();
+    if (parsed) onExport(parsed);
+  };
+
+  const nodeName = (node: SceneNode) => node.label || node.id;
+
+  const renderTargetSelect = (value: string, onChange: (target: string) => void, ownId: string) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClasses} sm:w-48 flex-shrink-0`}>
+      <option value="">{t('editorImprovise') as string}</option>
+      {graph.nodes.filter(node => node.id !== ownId).map(node => (
+        <option key={node.id} value={node.id}>{nodeName(node)}</option>
+      ))}
+    </select>
+  );
+
+  const renderFixedNode = (node: FixedSceneNode) => (
+    <>
+      <div>
+        <label className={labelClasses}>{t('editorStory') as string}</label>
+        <textarea value={node.story} onChange={e => updateNode(node.id, { story: e.target.value })} className={`${inputClasses} h-32 resize-y`} />
+      </div>
+      <div>
+        <label className={labelClasses}>{t('editorChoices') as string}</label>
+        <div className="space-y-2">
+          {node.choices.map((choice, index) => (
+            <div key={index} className="flex flex-col sm:flex-row gap-2">
+              <input
+                value={choice.text}
+                onChange={e => updateNode(node.id, { choices: node.choices.map((c, i) => i === index ? { ...c, text: e.target.value } : c) })}
+                className={inputClasses}
+              />
+              {renderTargetSelect(choice.target, target => updateNode(node.id, { choices: node.choices.map((c, i) => i === index ? { ...c, target } : c) }), node.id)}
+              <button onClick={() => updateNode(node.id, { choices: node.choices.filter((_, i) => i !== index) })} title={t('delete') as string} className="p-2 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 transition-colors self-start"><TrashIcon className="w-4 h-4"/></button>
+            </div>
+          ))}
+          <button onClick={() => updateNode(node.id, { choices: [...node.choices, { text: '', target: '' }] })} className="flex items-center gap-1 text-sm text-teal-300 hover:text-teal-200">
+            <PlusIcon className="w-4 h-4"/> {t('editorAddChoice') as string}
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className={labelClasses}>{t('editorImage') as string}</label>
+          {node.imageUrl && <StoredImage src={node.imageUrl} alt={nodeName(node)} className="w-full aspect-video object-cover rounded-lg mb-2" />}
+          <div className="flex gap-2">
+            <input value={isUploaded(node.imageUrl) ? '' : node.imageUrl} placeholder={isUploaded(node.imageUrl) ? t('editorImageUploaded') as string : 'https://'} onChange={e => updateNode(node.id, { imageUrl: e.target.value })} className={inputClasses} />
+            <label className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm cursor-pointer flex-shrink-0">
+              {t('editorUpload') as string}
+              <input type="file" accept="image/*" className="hidden" onChange={e => handleImageUpload(node, e)} />
+            </label>
+          </div>
+        </div>
+        <div>
+          <label className={labelClasses}>{t('editorImagePrompt') as string}</label>
+          <textarea value={node.imagePrompt} onChange={e => updateNode(node.id, { imagePrompt: e.target.value })} placeholder={t('editorImagePromptHint') as string} className={`${inputClasses} h-20 resize-y`} />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClasses}>{t('editorQuest') as string}</label>
+          <input value={node.currentQuest} onChange={e => updateNode(node.id, { currentQuest: e.target.value })} className={inputClasses} />
+        </div>
+        <div>
+          <label className={labelClasses}>{t('editorMood') as string}</label>
+          <input value={node.mood} onChange={e => updateNode(node.id, { mood: e.target.value })} className={inputClasses} />
+        </div>
+        <div>
+          <label className={labelClasses}>{t('editorEnding') as string}</label>
+          <select value={node.ending} onChange={e => updateNode(node.id, { ending: e.target.value as FixedSceneNode['ending'] })} className={inputClasses}>
+            {ENDINGS.map(ending => (
+              <option key={ending} value={ending}>{t(ending === 'none' ? 'editorNoEnding' : endingLabelKeys[ending]) as string}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </>
+  );
+
+  const renderGenerativeNode = (node: GenerativeSceneNode) => (
+    <>
+      <div>
+        <label className={labelClasses}>{t('editorBrief') as string}</label>
+        <textarea value={node.brief} onChange={e => updateNode(node.id, { brief: e.target.value })} placeholder={t('editorBriefHint') as string} className={`${inputClasses} h-32 resize-y`} />
+      </div>
+      <div>
+        <label className={labelClasses}>{t('editorNext') as string}</label>
+        {renderTargetSelect(node.next, next => updateNode(node.id, { next }), node.id)}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="w-full max-w-5xl mx-auto animate-fadeIn p-4 text-left">
+      <div className="bg-slate-800/50 p-6 md:p-8 rounded-xl shadow-2xl border border-slate-700 backdrop-blur-sm space-y-6">
+        <div className="flex justify-between items-center gap-3">
+          <h1 className="text-3xl font-bold text-white truncate">{draft.title || t('editorTitle') as string}</h1>
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={handleExport} title={t('exportScenario') as string} className="p-2 rounded-lg bg-slate-700/80 border border-slate-600 text-slate-300 hover:text-white transition-colors"><ArrowDownTrayIcon className="w-5 h-5"/></button>
+            <button onClick={onCancel} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">{t('cancel') as string}</button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold">{t('editorSave') as string}</button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="bg-red-900/50 border border-red-700 rounded-lg p-3 text-sm text-red-200">
+            <p className="font-semibold mb-1">{t('editorErrors') as string}</p>
+            <ul className="list-disc list-inside space-y-0.5">{errors.map(error => <li key={error}>{error}</li>)}</ul>
+          </div>
+        )}
+
+        <section className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClasses}>{t('editorPackTitle') as string}</label>
+            <input value={draft.title} onChange={e => setField('title', e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label className={labelClasses}>{t('editorLocation') as string}</label>
+            <input value={draft.startingLocation} onChange={e => setField('startingLocation', e.target.value)} className={inputClasses} />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClasses}>{t('editorLore') as string}</label>
+            <textarea value={draft.lore} onChange={e => setField('lore', e.target.value)} className={`${inputClasses} h-24 resize-y`} />
+          </div>
+          <div>
+            <label className={labelClasses}>{t('editorStartingQuest') as string}</label>
+            <input value={draft.startingQuest} onChange={e => setField('startingQuest', e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label className={labelClasses}>{t('editorStyle') as string}</label>
+            <input value={draft.stylePrompt} onChange={e => setField('stylePrompt', e.target.value)} className={inputClasses} />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClasses}>{t('editorToneRules') as string}</label>
+            {/* One rule per line; blank lines are dropped when the pack is saved. */}
+            <textarea value={draft.toneRules.join('\n')} onChange={e => setDraft(prev => ({ ...prev, toneRules: e.target.value.split('\n') }))} className={`${inputClasses} h-20 resize-y`} />
+          </div>
+        </section>
+
+        <section>
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-xl font-bold text-teal-300">{t('editorScenes') as string}</h2>
+            <div className="flex gap-2">
+              <button onClick={() => handleAddNode('fixed')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700/80 border border-slate-600 text-sm text-slate-300 hover:text-white"><PlusIcon className="w-4 h-4"/> {t('editorFixed') as string}</button>
+              <button onClick={() => handleAddNode('generative')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700/80 border border-slate-600 text-sm text-slate-300 hover:text-white"><PlusIcon className="w-4 h-4"/> {t('editorGenerative') as string}</button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 mb-3">{t('editorScenesHint') as string}</p>
+          <div className="flex flex-col md:flex-row gap-4">
+            <ul className="md:w-56 flex-shrink-0 space-y-1 max-h-[28rem] overflow-y-auto custom-scrollbar">
+              {graph.nodes.map(node => (
+                <li key={node.id}>
+                  <button
+                    onClick={() => setSelectedNodeId(node.id)}
+                    className={`w-full text-left p-2 rounded-lg border transition-colors ${node.id === selectedNodeId ? 'border-teal-400 bg-teal-900/30' : 'border-slate-700 bg-slate-900/60 hover:border-teal-500/70'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${node.kind === 'fixed' ? 'bg-amber-500/20 text-amber-300' : 'bg-sky-500/20 text-sky-300'}`}>{t(node.kind === 'fixed' ? 'editorFixed' : 'editorGenerative') as string}</span>
+                      {node.id === graph.startNodeId && <span className="text-[10px] uppercase font-bold text-teal-300">{t('editorStart') as string}</span>}
+                    </div>
+                    <p className="text-sm text-slate-200 truncate mt-1">{nodeName(node)}</p>
+                  </button>
+                </li>
+              ))}
+              {graph.nodes.length === 0 && <li className="text-sm text-slate-500 p-2">{t('editorNoScenes') as string}</li>}
+            </ul>
+
+            {selectedNode && (
+              <div className="flex-1 min-w-0 space-y-3 bg-slate-900/40 rounded-lg border border-slate-700 p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                  <div>
+                    <label className={labelClasses}>{t('editorLabel') as string}</label>
+                    <input value={selectedNode.label} placeholder={selectedNode.id} onChange={e => updateNode(selectedNode.id, { label: e.target.value })} className={inputClasses} />
+                  </div>
+                  <div>
+                    <label className={labelClasses}>{t('editorKind') as string}</label>
+                    <select value={selectedNode.kind} onChange={e => handleChangeKind(selectedNode, e.target.value as SceneNode['kind'])} className={inputClasses}>
+                      <option value="fixed">{t('editorFixed') as string}</option>
+                      <option value="generative">{t('editorGenerative') as string}</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input type="checkbox" checked={graph.startNodeId === selectedNode.id} onChange={e => setGraph(prev => ({ ...prev, startNodeId: e.target.checked ? selectedNode.id : '' }))} />
+                      {t('editorIsStart') as string}
+                    </label>
+                    <button onClick={() => handleDeleteNode(selectedNode.id)} title={t('delete') as string} className="p-2 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 transition-colors"><TrashIcon className="w-5 h-5"/></button>
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClasses}>{t('editorTrigger') as string}</label>
+                  <input value={selectedNode.trigger} onChange={e => updateNode(selectedNode.id, { trigger: e.target.value })} placeholder={t('editorTriggerHint') as string} className={inputClasses} />
+                </div>
+                {selectedNode.kind === 'fixed' ? renderFixedNode(selectedNode) : renderGenerativeNode(selectedNode)}
+              </div>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
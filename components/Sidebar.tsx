@@ -1,56 +1,111 @@
 
-import React from 'react';
-import { BackpackIcon, CompassIcon, ViewColumnsIcon } from './Icons';
-import { StoryStep, InventoryItem } from '../types';
+import React, { useState } from 'react';
+import { BackpackIcon, BookOpenIcon, BranchIcon, CompassIcon, HeartIcon, ViewColumnsIcon } from './Icons';
+import { StoryStep, InventoryItem, CodexEntryState, CodexKind, ItemCategory, PlayerStats, Attribute, QuestState, QuestStatus } from '../types';
 import { ComicStrip } from './ComicStrip';
+import CodexPanel from './CodexPanel';
+import InventoryPanel from './InventoryPanel';
+import StatsPanel from './StatsPanel';
+import QuestJournal from './QuestJournal';
+import { BranchPosition } from '../lib/storyTree';
 
 interface SidebarProps {
   inventory: InventoryItem[];
+  canUseItems: boolean;
+  onUseItem: (item: InventoryItem) => void;
   currentQuest: string;
+  quests: QuestState[];
+  codex: CodexEntryState[];
+  /** The player's stats, when the adventure uses the ruleset. */
+  stats?: PlayerStats;
   translations: {
     inventory: string;
-    currentQuest: string;
+    questJournal: string;
     emptyInventory: string;
+    useItem: string;
+    itemCategories: Record<ItemCategory, string>;
     noQuest: string;
+    finishedQuests: string;
+    questStarted: string;
+    objectiveDone: string;
+    questStatuses: Record<QuestStatus, string>;
     storyTimeline: string;
+    previousBranch: string;
+    nextBranch: string;
+    branchMap: string;
+    codex: string;
+    emptyCodex: string;
+    firstSeen: string;
+    related: string;
+    kinds: Record<CodexKind, string>;
+    stats: string;
+    health: string;
+    skills: string;
+    noSkills: string;
+    attributes: Record<Attribute, string>;
   }
   sessionHistory: StoryStep[];
+  /** For each step of the history, where it stands among its sibling branches. */
+  branches: BranchPosition[];
   currentIndex: number;
   onStepSelect: (index: number) => void;
+  onSwitchBranch: (index: number, offset: number) => void;
+  /** Whether the branch map can be opened; not while a turn is being generated. */
+  canOpenBranchMap: boolean;
+  onOpenBranchMap: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ inventory, currentQuest, translations, sessionHistory, currentIndex, onStepSelect }) => {
+const Sidebar: React.FC<SidebarProps> = ({ inventory, canUseItems, onUseItem, currentQuest, quests, codex, stats, translations, sessionHistory, branches, currentIndex, onStepSelect, onSwitchBranch, canOpenBranchMap, onOpenBranchMap }) => {
+  const [selectedPanel, setSelectedPanel] = useState<'inventory' | 'codex' | 'stats'>('inventory');
+  const activePanel = selectedPanel === 'stats' && !stats ? 'inventory' : selectedPanel;
+
+  const tabClasses = (panel: 'inventory' | 'codex' | 'stats') =>
+    `flex items-center gap-3 transition-colors ${activePanel === panel ? 'text-amber-400' : 'text-slate-500 hover:text-amber-300'}`;
+
   return (
     <aside className="w-full md:w-1/3 lg:w-1/4 bg-slate-800/30 backdrop-blur-sm p-6 rounded-lg border border-slate-700 flex flex-col gap-8 h-full animate-fadeIn">
       <div className="flex-shrink-0">
         <div>
-          <h2 className="text-2xl font-bold mb-4 text-amber-400 flex items-center gap-3">
-            <BackpackIcon className="w-7 h-7" />
-            {translations.inventory}
+          {/* With the stats tab there is only room for the active tab's label. */}
+          <h2 className="text-2xl font-bold mb-4 flex items-center gap-6">
+            <button onClick={() => setSelectedPanel('inventory')} className={tabClasses('inventory')} title={translations.inventory}>
+              <BackpackIcon className="w-7 h-7" />
+              {(!stats || activePanel === 'inventory') && translations.inventory}
+            </button>
+            <button onClick={() => setSelectedPanel('codex')} className={tabClasses('codex')} title={translations.codex}>
+              <BookOpenIcon className="w-7 h-7" />
+              {(!stats || activePanel === 'codex') && translations.codex}
+            </button>
+            {stats && (
+              <button onClick={() => setSelectedPanel('stats')} className={tabClasses('stats')} title={translations.stats}>
+                <HeartIcon className="w-7 h-7" />
+                <span className="text-lg">{stats.health}/{stats.maxHealth}</span>
+              </button>
+            )}
           </h2>
-          {inventory.length > 0 ? (
-            <div className="grid grid-cols-3 gap-4">
-              {inventory.map((item, index) => (
-                <div key={index} className="flex flex-col items-center text-center group">
-                  <div className="w-16 h-16 bg-slate-900/50 rounded-lg p-1 border border-slate-600 group-hover:border-amber-400 transition-colors">
-                    <img src={item.imageUrl} alt={item.name} className="w-full h-full object-contain rounded-md" />
-                  </div>
-                  <p className="text-xs text-gray-300 mt-2 group-hover:text-white transition-colors">{item.name}</p>
-                </div>
-              ))}
-            </div>
+          {activePanel === 'stats' && stats ? (
+            <StatsPanel stats={stats} translations={translations} />
+          ) : activePanel === 'codex' ? (
+            <CodexPanel entries={codex} translations={translations} />
           ) : (
-            <p className="text-slate-500 italic">{translations.emptyInventory}</p>
+            <InventoryPanel
+              items={inventory}
+              canUseItems={canUseItems}
+              onUseItem={onUseItem}
+              translations={{ emptyInventory: translations.emptyInventory, useItem: translations.useItem, categories: translations.itemCategories }}
+            />
           )}
         </div>
         <div className="mt-8">
           <h2 className="text-2xl font-bold mb-4 text-amber-400 flex items-center gap-3">
             <CompassIcon className="w-7 h-7" />
-            {translations.currentQuest}
+            {translations.questJournal}
           </h2>
-          <p className="text-gray-300 leading-relaxed">
-            {currentQuest || translations.noQuest}
-          </p>
+          <QuestJournal
+            quests={quests}
+            currentQuest={currentQuest}
+            translations={{ ...translations, statuses: translations.questStatuses }}
+          />
         </div>
       </div>
 
@@ -58,12 +113,18 @@ const Sidebar: React.FC<SidebarProps> = ({ inventory, currentQuest, translations
         <h2 className="text-2xl font-bold mb-4 text-amber-400 flex items-center gap-3 flex-shrink-0">
           <ViewColumnsIcon className="w-7 h-7" />
           {translations.storyTimeline}
+          <button onClick={onOpenBranchMap} disabled={!canOpenBranchMap} title={translations.branchMap} className="ml-auto p-1.5 rounded-lg text-slate-400 hover:text-amber-300 hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400">
+            <BranchIcon className="w-6 h-6" />
+          </button>
         </h2>
         <div className="flex-grow min-h-0">
             <ComicStrip 
                 steps={sessionHistory} 
+                branches={branches}
                 currentIndex={currentIndex} 
                 onTileClick={onStepSelect} 
+                onSwitchBranch={onSwitchBranch}
+                translations={translations}
             />
         </div>
       </div>
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Attribute, PlayerStats } from '../types';
+import { ATTRIBUTES } from '../lib/rules';
+import { HeartIcon } from './Icons';
+
+interface StatsPanelProps {
+  stats: PlayerStats;
+  translations: {
+    health: string;
+    skills: string;
+    noSkills: string;
+    attributes: Record<Attribute, string>;
+  };
+}
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ stats, translations }) => {
+  const healthPercent = stats.maxHealth > 0 ? (stats.health / stats.maxHealth) * 100 : 0;
+  const healthColor = healthPercent > 50 ? 'bg-emerald-500' : healthPercent > 25 ? 'bg-amber-500' : 'bg-red-600';
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <div className="flex items-center justify-between mb-1 text-gray-300">
+          <span className="flex items-center gap-2 font-semibold"><HeartIcon className="w-4 h-4 text-red-400" />{translations.health}</span>
+          <span className="font-bold">{stats.health}/{stats.maxHealth}</span>
+        </div>
+        <div className="h-2.5 bg-slate-900/70 rounded-full overflow-hidden border border-slate-700">
+          <div className={`h-full ${healthColor} transition-all duration-500`} style={{ width: `${healthPercent}%` }}></div>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {ATTRIBUTES.map(attribute => (
+          <div key={attribute} className="flex items-center justify-between bg-slate-900/50 rounded-lg border border-slate-700 px-3 py-1.5">
+            <span className="text-gray-300">{translations.attributes[attribute]}</span>
+            <span className="font-bold text-amber-300">{stats.attributes[attribute] >= 0 ? `+${stats.attributes[attribute]}` : stats.attributes[attribute]}</span>
+          </div>
+        ))}
+      </div>
+      <div>
+        <h3 className="text-xs uppercase font-bold tracking-wider text-slate-400 mb-2">{translations.skills}</h3>
+        {stats.skills.length > 0 ? (
+          <div className="flex flex-wrap gap-1.5">
+            {stats.skills.map(skill => (
+              <span key={skill} className="text-xs px-2 py-0.5 rounded-full border border-teal-600 bg-teal-900/40 text-teal-200">{skill}</span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-500 italic">{translations.noSkills}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
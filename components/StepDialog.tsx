@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { StepChange, StoryStep } from '../types';
+import StoredImage from './StoredImage';
+import { PlusIcon, TrashIcon } from './Icons';
+
+export type StepDialogMode = 'edit' | 'image' | 'versions';
+
+/** A choice as edited by the player, with the position it had before if it was kept. */
+export interface EditedChoice {
+  text: string;
+  from?: number;
+}
+
+interface StepDialogProps {
+  mode: StepDialogMode;
+  step: StoryStep;
+  /** Whether later scenes have been played from the step, so reverting only brings back its text and image. */
+  hasLaterScenes: boolean;
+  onEdit: (story: string, choices: EditedChoice[]) => void;
+  onRegenerateImage: (prompt: string) => void;
+  onRevert: (versionIndex: number) => void;
+  onClose: () => void;
+  t: (key: string) => string | string[];
+}
+
+const changeLabelKeys: Record<StepChange, string> = {
+  reroll: 'versionReplacedByReroll',
+  image: 'versionReplacedByImage',
+  edit: 'versionReplacedByEdit',
+  revert: 'versionReplacedByRevert',
+};
+
+const inputClasses = 'w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none';
+const labelClasses = 'block text-xs font-semibold uppercase tracking-wider text-slate-400 mb-1';
+
+/** Rewrites a scene by hand, draws its image again or brings back one of its earlier versions. */
+const StepDialog: React.FC<StepDialogProps> = ({ mode, step, hasLaterScenes, onEdit, onRegenerateImage, onRevert, onClose, t }) => {
+  const [story, setStory] = useState(step.story);
+  const [choices, setChoices] = useState<EditedChoice[]>(() => step.choices.map((text, index) => ({ text, from: index })));
+  const [prompt, setPrompt] = useState(step.imagePrompt ?? '');
+
+  const versions = (step.versions ?? []).map((version, index) => ({ version, index })).reverse();
+  const keptChoices = choices.map(choice => ({ ...choice, text: choice.text.trim() })).filter(choice => choice.text);
+  const canSaveEdit = story.trim() !== '' && (keptChoices.length > 0 || !!step.ending);
+
+  const titleKey = mode === 'edit' ? 'editScene' : mode === 'image' ? 'regenerateImage' : 'sceneVersions';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex justify-center items-center z-50 p-4 animate-fadeIn" onClick={onClose}>
+      <div className="bg-slate-800 border-2 border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-amber-400 p-6 pb-4">{t(titleKey) as string}</h2>
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar px-6 space-y-4">
+          {mode === 'edit' && (
+            <>
+              <div>
+                <label className={labelClasses}>{t('editorStory') as string}</label>
+                <textarea value={story} onChange={e => setStory(e.target.value)} rows={8} className={`${inputClasses} resize-y`} />
+              </div>
+              <div>
+                <label className={labelClasses}>{t('editorChoices') as string}</label>
+                <div className="space-y-2">
+                  {choices.map((choice, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={choice.text}
+                        onChange={e => setChoices(prev => prev.map((c, i) => i === index ? { ...c, text: e.target.value } : c))}
+                        maxLength={200}
+                        className={inputClasses}
+                      />
+                      <button onClick={() => setChoices(prev => prev.filter((_, i) => i !== index))} title={t('delete') as string} className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={() => setChoices(prev => [...prev, { text: '' }])} className="mt-2 flex items-center gap-1 text-sm text-teal-300 hover:text-teal-200">
+                  <PlusIcon className="w-4 h-4" />
+                  {t('editorAddChoice') as string}
+                </button>
+              </div>
+              <p className="text-xs text-slate-400">{t('editSceneHint') as string}</p>
+            </>
+          )}
+
+          {mode === 'image' && (
+            <>
+              <StoredImage src={step.imageUrl} alt="Story scene" className="w-full aspect-video object-cover rounded-lg" />
+              <div>
+                <label className={labelClasses}>{t('imagePromptLabel') as string}</label>
+                <textarea value={prompt} onChange={e => setPrompt(e.target.value)} rows={4} placeholder={step.story} className={`${inputClasses} resize-y`} />
+                <p className="text-xs text-slate-400 mt-1">{t('imagePromptHint') as string}</p>
+              </div>
+            </>
+          )}
+
+          {mode === 'versions' && (
+            <>
+              {hasLaterScenes && <p className="text-xs text-slate-400">{t('revertKeepsLaterScenes') as string}</p>}
+              {versions.length === 0 && <p className="text-slate-400">{t('noVersions') as string}</p>}
+              {versions.map(({ version, index }) => (
+                <div key={index} className="flex gap-4 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+                  <StoredImage src={version.imageUrl} alt="Earlier version" className="w-32 h-20 object-cover rounded-md flex-shrink-0" />
+                  <div className="flex-grow min-w-0">
+                    <p className="text-xs text-slate-400">
+                      {(t(changeLabelKeys[version.replacedBy]) as string).replace('{date}', new Date(version.replacedAt).toLocaleString())}
+                    </p>
+                    <p className="text-sm text-gray-300 line-clamp-3 mt-1">{version.story}</p>
+                  </div>
+                  <button onClick={() => onRevert(index)} className="self-center px-3 py-1.5 rounded-lg bg-teal-600 hover:bg-teal-700 text-sm font-semibold text-white flex-shrink-0">
+                    {t('revertVersion') as string}
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 pt-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors">
+            {t(mode === 'versions' ? 'close' : 'cancel') as string}
+          </button>
+          {mode === 'edit' && (
+            <button onClick={() => onEdit(story.trim(), keptChoices)} disabled={!canSaveEdit} className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('editorSave') as string}
+            </button>
+          )}
+          {mode === 'image' && (
+            <button onClick={() => onRegenerateImage(prompt.trim())} className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold">
+              {t('regenerate') as string}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StepDialog;
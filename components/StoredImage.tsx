@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+import { isImageRef, resolveImageUrl } from '../services/imageStore';
+
+/** An <img> whose src may be an image store reference instead of a URL. */
+const StoredImage: React.FC<React.ImgHTMLAttributes<HTMLImageElement> & { src: string }> = ({ src, ...props }) => {
+  const [url, setUrl] = useState(() => isImageRef(src) ? '' : src);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!isImageRef(src)) {
+      setUrl(src);
+      return;
+    }
+    resolveImageUrl(src)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(err => console.error("Failed to load stored image", err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  // Keep the image's box, without a broken image icon, while the blob is being read.
+  if (!url) return <div className={props.className} />;
+  return <img src={url} {...props} />;
+};
+
+export default StoredImage;
@@ -1,20 +1,54 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { GameState, GameSession } from '../types';
+import { Attribute, CheckResult, ChoiceCheck, Epilogue, GameState, GameSession, PartialScene } from '../types';
 import LoadingSpinner from './LoadingSpinner';
-import { ChevronDoubleRightIcon, ChevronLeftIcon, ChevronRightIcon, MicrophoneIcon, SpeakerOnIcon, SparklesIcon } from './Icons';
+import StoredImage from './StoredImage';
+import { ArrowPathIcon, BookOpenIcon, ChevronDoubleRightIcon, ChevronLeftIcon, ChevronRightIcon, ClockIcon, DieIcon, DocumentDuplicateIcon, HomeIcon, MicrophoneIcon, PaintBrushIcon, PencilIcon, SpeakerOnIcon, SparklesIcon, WandIcon } from './Icons';
 import { NarrationState } from './LiveNarrator';
+import StepDialog, { EditedChoice, StepDialogMode } from './StepDialog';
+import EndingCard, { endingBadgeClasses, endingLabelKeys } from './EndingCard';
+import { getStepEnding } from '../lib/endings';
+import { getQuestsForPath } from '../lib/quests';
+import { getCodexForPath } from '../lib/codex';
+import { ARC_STAGES, ArcProgress, ArcStage, getArcProgress } from '../lib/pacing';
+import { getStoryPath } from '../lib/storyTree';
 
 
 interface StoryViewProps {
   session: GameSession;
   currentIndex: number;
   onSelectChoice: (choice: string) => void;
+  /** A free-form action typed by the player instead of one of the choices. */
+  onCustomAction: (action: string) => void;
   onPrev: () => void;
   onNext: () => void;
   gameState: GameState;
   narrationState: NarrationState;
+  /** Another tab is playing the adventure; this one can only look through it. */
+  isReadOnly: boolean;
   optimisticChoice: string | null;
+  pendingScene: PartialScene | null;
+  /** The check rolled for the choice whose scene is being generated, if any. */
+  pendingCheckResult: CheckResult | null;
+  /** Asks the next scene to end the story. */
+  onRequestEnding: () => void;
+  /** The epilogue of the current step, if the story ends there and it has been written. */
+  epilogue: Epilogue | undefined;
+  isWritingEpilogue: boolean;
+  onWriteEpilogue: () => void;
+  /** At an ending: go back to the step before it. */
+  onRewind: () => void;
+  onExit: () => void;
   onSkipNarration: () => void;
+  /** Whether the current scene can be played again from the same choice. */
+  canReroll: boolean;
+  /** Whether later scenes have been played from the current one. */
+  hasLaterScenes: boolean;
+  onReroll: () => void;
+  onRegenerateImage: (prompt: string) => void;
+  onEditStep: (story: string, choices: EditedChoice[]) => void;
+  onRevertVersion: (versionIndex: number) => void;
+  /** Copies the story up to the current scene into a new adventure. */
+  onFork: () => void;
   t: (key: string) => string | string[];
 }
 
@@ -54,14 +88,69 @@ const NarrationStatusIndicator: React.FC<{ state: NarrationState, onSkip: () =>
   );
 };
 
+const arcStageKeys: Record<ArcStage, string> = {
+  setup: 'arcSetup',
+  rising: 'arcRising',
+  climax: 'arcClimax',
+  resolution: 'arcResolution',
+};
+
+// The act the scene belongs to and how far the story is through its turn budget, with a tick where each act ends.
+const ArcProgressIndicator: React.FC<{ progress: ArcProgress, t: (key: string) => string | string[] }> = ({ progress, t }) => (
+  <div className="bg-black/50 rounded-lg px-3 py-2 w-56 animate-fadeIn">
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="font-bold uppercase tracking-wider text-amber-300">{t(arcStageKeys[progress.stage]) as string}</span>
+      <span className="text-slate-300">{(t('arcTurn') as string).replace('{turn}', progress.turn.toString()).replace('{total}', progress.turnBudget.toString())}</span>
+    </div>
+    <div className="relative mt-1.5 h-1.5 bg-slate-700/80 rounded-full overflow-hidden">
+      <div className="h-full bg-gradient-to-r from-teal-500 to-amber-400 transition-all duration-500" style={{ width: `${Math.min(progress.turn / progress.turnBudget, 1) * 100}%` }}></div>
+      {ARC_STAGES.slice(0, -1).map(({ stage, until }) => (
+        <div key={stage} className="absolute top-0 h-full w-0.5 bg-slate-900" style={{ left: `${until * 100}%` }}></div>
+      ))}
+    </div>
+  </div>
+);
+
+const attributeKeys: Record<Attribute, string> = {
+  strength: 'attrStrength',
+  agility: 'attrAgility',
+  intellect: 'attrIntellect',
+  charisma: 'attrCharisma',
+};
+
+const formatCheck = (check: Pick<ChoiceCheck, 'dc'> & { attribute: Attribute }, t: StoryViewProps['t']) =>
+  (t('checkLabel') as string).replace('{attribute}', t(attributeKeys[check.attribute]) as string).replace('{dc}', check.dc.toString());
+
+const CheckResultBanner: React.FC<{ result: CheckResult, t: StoryViewProps['t'] }> = ({ result, t }) => (
+  <div className={`mt-4 flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg border px-4 py-2 text-sm animate-fadeIn ${result.success ? 'bg-emerald-900/50 border-emerald-600 text-emerald-100' : 'bg-red-900/50 border-red-600 text-red-100'}`}>
+    <DieIcon className="w-5 h-5 flex-shrink-0" />
+    <span className="font-bold uppercase tracking-wider">{t(result.success ? 'checkSuccess' : 'checkFailure') as string}</span>
+    <span className="opacity-90">{formatCheck(result, t)}{result.skill && ` (${result.skill})`}</span>
+    <span className="opacity-75">
+      {(t('checkRolled') as string)
+        .replace('{roll}', result.roll.toString())
+        .replace('{modifier}', result.modifier >= 0 ? `+${result.modifier}` : result.modifier.toString())
+        .replace('{total}', result.total.toString())
+        .replace('{dc}', result.dc.toString())}
+    </span>
+  </div>
+);
+
 
-const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectChoice, onPrev, onNext, gameState, narrationState, optimisticChoice, onSkipNarration, t }) => {
-  const currentStep = session.history[currentIndex];
-  const storyHistory = session.history;
+const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectChoice, onCustomAction, onPrev, onNext, gameState, narrationState, isReadOnly, optimisticChoice, pendingScene, pendingCheckResult, onRequestEnding, epilogue, isWritingEpilogue, onWriteEpilogue, onRewind, onExit, onSkipNarration, canReroll, hasLaterScenes, onReroll, onRegenerateImage, onEditStep, onRevertVersion, onFork, t }) => {
+  const storyHistory = getStoryPath(session);
+  const currentStep = storyHistory[currentIndex];
+  // While the next scene streams in, its text replaces the current one and the loading overlay steps aside.
+  const streamingScene = gameState === 'LOADING' && pendingScene?.story ? pendingScene : null;
   const scrollRef = useRef<HTMLDivElement>(null);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [customAction, setCustomAction] = useState('');
+  const [isEpilogueOpen, setIsEpilogueOpen] = useState(false);
+  const [dialogMode, setDialogMode] = useState<StepDialogMode | null>(null);
+  const wasWritingEpilogue = useRef(false);
   
   const isLastStepInHistory = currentIndex === storyHistory.length - 1;
+  const isDisabled = gameState === 'LOADING' || narrationState !== 'IDLE' || isReadOnly;
 
   useEffect(() => {
     if (gameState === 'LOADING') {
@@ -75,20 +164,49 @@ const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectCh
     if (scrollRef.current) {
       scrollRef.current.scrollTop = 0;
     }
+    setCustomAction('');
+    setIsEpilogueOpen(false);
+    setDialogMode(null);
   }, [currentIndex]);
 
+  // Show the summary card as soon as the epilogue the player is waiting for is ready.
+  useEffect(() => {
+    if (wasWritingEpilogue.current && !isWritingEpilogue && epilogue) {
+      setIsEpilogueOpen(true);
+    }
+    wasWritingEpilogue.current = isWritingEpilogue;
+  }, [isWritingEpilogue, epilogue]);
+
   if (!currentStep) return null;
   
   const handleChoiceClick = (choice: string) => {
     onSelectChoice(choice);
   };
 
+  const handleCustomActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const action = customAction.trim();
+    if (!action || isDisabled) return;
+    onCustomAction(action);
+    setCustomAction('');
+  };
+
+  // The free-form action taken on this step, if any, including one whose scene is still being generated.
+  const takenCustomAction = streamingScene?.choices ? null
+    : currentStep.isCustomAction ? currentStep.choiceMade
+    : isLastStepInHistory && optimisticChoice && !currentStep.choices.includes(optimisticChoice) ? optimisticChoice
+    : null;
+  const checkResult = gameState === 'LOADING' && pendingCheckResult ? pendingCheckResult : currentStep.checkResult;
+  const ending = streamingScene ? undefined : getStepEnding(currentStep);
+  const pathToStep = storyHistory.slice(0, currentIndex + 1);
+  const arcProgress = getArcProgress(session.pacing, currentIndex + 1);
+
   return (
     <main className="w-full md:w-2/3 lg:w-3/4 flex flex-col h-full animate-fadeIn">
       <div className="flex-grow rounded-lg border border-slate-700 overflow-hidden shadow-2xl grid">
         {/* All children are placed in the same grid cell (1,1) to create layers */}
         {/* Layer 1: Image */}
-        <img
+        <StoredImage
           key={currentStep.id}
           src={currentStep.imageUrl}
           alt="Story scene"
@@ -100,8 +218,28 @@ const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectCh
 
         {/* Layer 3: UI (Text and Buttons) */}
         <div className="col-start-1 row-start-1 relative flex flex-col justify-between">
-          <div className="flex justify-end p-4">
+          <div className="flex justify-between items-start gap-4 p-4">
+            <div>{arcProgress && <ArcProgressIndicator progress={arcProgress} t={t} />}</div>
             <div className="flex gap-2">
+              <button onClick={onReroll} disabled={!canReroll || isDisabled} title={t('rerollScene') as string} className="bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                <ArrowPathIcon className="w-6 h-6" />
+              </button>
+              <button onClick={() => setDialogMode('image')} disabled={isDisabled} title={t('regenerateImage') as string} className="bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                <PaintBrushIcon className="w-6 h-6" />
+              </button>
+              <button onClick={() => setDialogMode('edit')} disabled={isDisabled} title={t('editScene') as string} className="bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                <PencilIcon className="w-6 h-6" />
+              </button>
+              {currentStep.versions && currentStep.versions.length > 0 && (
+                <button onClick={() => setDialogMode('versions')} disabled={isDisabled} title={t('sceneVersions') as string} className="relative bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                  <ClockIcon className="w-6 h-6" />
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-500 text-slate-900 text-xs font-bold flex items-center justify-center">{currentStep.versions.length}</span>
+                </button>
+              )}
+              <button onClick={onFork} disabled={isDisabled} title={t('forkFromHere') as string} className="bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
+                <DocumentDuplicateIcon className="w-6 h-6" />
+              </button>
+              <span className="w-px bg-slate-600/80 mx-1"></span>
               <button onClick={onPrev} disabled={currentIndex === 0 || gameState === 'LOADING'} className="bg-black/50 p-2 rounded-full text-white hover:bg-black/80 disabled:opacity-50 disabled:cursor-not-allowed transition-all">
                 <ChevronLeftIcon className="w-6 h-6" />
               </button>
@@ -116,15 +254,27 @@ const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectCh
                   ref={scrollRef}
                   className="bg-slate-900/70 backdrop-blur-[6px] rounded-lg p-4 border border-slate-700/50 overflow-y-auto custom-scrollbar shadow-2xl flex-grow"
               >
+                  {currentStep.editedByPlayer && !streamingScene && (
+                      <span className="float-right ml-2 text-[10px] uppercase font-bold tracking-wider px-2 py-0.5 rounded-full border border-slate-500 text-slate-300">{t('editedByPlayer') as string}</span>
+                  )}
                   <p className="text-gray-200 whitespace-pre-wrap leading-relaxed text-base md:text-lg">
-                      {currentStep.story}
+                      {streamingScene ? streamingScene.story : currentStep.story}
+                      {streamingScene && <span className="inline-block w-2 h-5 ml-1 align-middle bg-amber-400 animate-pulse"></span>}
                   </p>
               </div>
           </div>
         </div>
 
         {/* Layer 4: Loading Overlay */}
-        {gameState === 'LOADING' && (
+        {streamingScene && (
+          <div className="col-start-1 row-start-1 flex justify-start items-start p-4 z-30 pointer-events-none">
+            <div className="flex items-center gap-3 bg-slate-900/80 rounded-lg px-3 py-2 border border-slate-700">
+              <LoadingSpinner size="small" />
+              <p className="text-sm text-gray-300">{loadingMessage}</p>
+            </div>
+          </div>
+        )}
+        {gameState === 'LOADING' && !streamingScene && (
           <div className="col-start-1 row-start-1 bg-slate-900/80 backdrop-blur-sm flex flex-col justify-center items-center z-30 rounded-lg">
             <LoadingSpinner />
             <p className="mt-4 text-lg text-gray-300">{loadingMessage}</p>
@@ -133,41 +283,145 @@ const StoryView: React.FC<StoryViewProps> = ({ session, currentIndex, onSelectCh
       </div>
       <div className="flex-shrink-0 pt-6 relative">
         <NarrationStatusIndicator state={narrationState} onSkip={onSkipNarration} t={t} />
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {currentStep.choices.map((choice, index) => {
-            const isOptimistic = optimisticChoice === choice;
-            const hasBeenChosen = currentStep.choiceMade === choice || (isLastStepInHistory && isOptimistic);
-            const isDisabled = gameState === 'LOADING' || narrationState !== 'IDLE';
-
-            const baseClasses = 'text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform focus:outline-none focus:ring-2 focus:ring-amber-400 focus:ring-opacity-75 shadow-lg';
-            const chosenClasses = 'bg-gradient-to-br from-green-600 to-emerald-700 ring-2 ring-yellow-300 scale-100';
-            const interactiveClasses = 'hover:scale-105 hover:from-teal-700 hover:to-cyan-800';
-            const availableClasses = 'bg-gradient-to-br from-teal-600 to-cyan-700';
-            const disabledUnselectedClasses = 'bg-gradient-to-br from-slate-600 to-slate-700 text-slate-400 cursor-not-allowed shadow-none scale-100';
+        {ending ? (
+          <div className="bg-slate-900/70 border border-amber-500/60 rounded-lg p-5 text-center animate-fadeIn">
+            <h3 className="text-2xl font-bold text-amber-200 flex items-center justify-center gap-3">
+              {t('endingTitle') as string}
+              <span className={`text-xs uppercase font-bold px-3 py-1 rounded-full border ${endingBadgeClasses[ending]}`}>{t(endingLabelKeys[ending]) as string}</span>
+            </h3>
+            <p className="text-gray-300 mt-2">{t(ending === 'defeat' && currentStep.stats?.health === 0 ? 'gameOverMessage' : 'endingMessage') as string}</p>
+            <div className="mt-4 flex flex-wrap justify-center gap-4">
+              {epilogue ? (
+                <button onClick={() => setIsEpilogueOpen(true)} className="flex items-center gap-2 px-5 py-2 rounded-lg bg-gradient-to-br from-amber-500 to-yellow-600 text-slate-900 hover:from-amber-600 hover:to-yellow-700 transition-colors font-bold">
+                  <BookOpenIcon className="w-5 h-5" />
+                  {t('viewEpilogue') as string}
+                </button>
+              ) : (
+                <button onClick={onWriteEpilogue} disabled={isWritingEpilogue || isReadOnly} className="flex items-center gap-2 px-5 py-2 rounded-lg bg-gradient-to-br from-amber-500 to-yellow-600 text-slate-900 hover:from-amber-600 hover:to-yellow-700 transition-colors font-bold disabled:from-slate-600 disabled:to-slate-700 disabled:text-slate-300 disabled:cursor-wait">
+                  {isWritingEpilogue ? <LoadingSpinner size="small" /> : <BookOpenIcon className="w-5 h-5" />}
+                  {t(isWritingEpilogue ? 'writingEpilogue' : 'writeEpilogue') as string}
+                </button>
+              )}
+              {currentIndex > 0 && (
+                <button onClick={onRewind} className="flex items-center gap-2 px-5 py-2 rounded-lg bg-teal-600 hover:bg-teal-700 transition-colors font-semibold text-white">
+                  <ChevronLeftIcon className="w-5 h-5" />
+                  {t('endingRewind') as string}
+                </button>
+              )}
+              <button onClick={onExit} className="flex items-center gap-2 px-5 py-2 rounded-lg bg-slate-600 hover:bg-slate-700 transition-colors font-semibold text-white">
+                <HomeIcon className="w-5 h-5" />
+                {t('home') as string}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(streamingScene?.choices ?? currentStep.choices).map((choice, index) => {
+                const isOptimistic = optimisticChoice === choice;
+                const check = streamingScene?.choices ? undefined : currentStep.choiceChecks?.[index];
+                const hasBeenChosen = !streamingScene?.choices && (currentStep.choiceMade === choice || (isLastStepInHistory && isOptimistic));
+
+                const baseClasses = 'text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 transform focus:outline-none focus:ring-2 focus:ring-amber-400 focus:ring-opacity-75 shadow-lg';
+                const chosenClasses = 'bg-gradient-to-br from-green-600 to-emerald-700 ring-2 ring-yellow-300 scale-100';
+                const interactiveClasses = 'hover:scale-105 hover:from-teal-700 hover:to-cyan-800';
+                const availableClasses = 'bg-gradient-to-br from-teal-600 to-cyan-700';
+                const disabledUnselectedClasses = 'bg-gradient-to-br from-slate-600 to-slate-700 text-slate-400 cursor-not-allowed shadow-none scale-100';
             
-            let finalClasses = baseClasses;
-
-            if (hasBeenChosen) {
-                finalClasses += ` ${chosenClasses}`;
-            } else if (isDisabled) {
-                finalClasses += ` ${disabledUnselectedClasses}`;
-            } else { // Available and interactive
-                finalClasses += ` ${availableClasses} ${interactiveClasses}`;
-            }
+                let finalClasses = baseClasses;
+
+                if (hasBeenChosen) {
+                    finalClasses += ` ${chosenClasses}`;
+                } else if (isDisabled) {
+                    finalClasses += ` ${disabledUnselectedClasses}`;
+                } else { // Available and interactive
+                    finalClasses += ` ${availableClasses} ${interactiveClasses}`;
+                }
             
-            return (
-              <button
-                key={index}
-                onClick={() => handleChoiceClick(choice)}
-                disabled={isDisabled}
-                className={finalClasses}
-              >
-                {choice}
-              </button>
-            )
-          })}
-        </div>
+                return (
+                  <button
+                    key={index}
+                    onClick={() => handleChoiceClick(choice)}
+                    disabled={isDisabled}
+                    className={finalClasses}
+                  >
+                    {choice}
+                    {check && check.attribute !== 'none' && (
+                      <span className="block mt-1 text-xs font-semibold text-amber-200/90">
+                        {formatCheck({ attribute: check.attribute, dc: check.dc }, t)}
+                      </span>
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+            {takenCustomAction ? (
+              <div className="mt-4 bg-gradient-to-br from-green-600 to-emerald-700 ring-2 ring-yellow-300 rounded-lg py-3 px-4 text-white shadow-lg">
+                <span className="text-xs uppercase font-bold tracking-wider text-yellow-200 mr-2">{t('customActionTaken') as string}:</span>
+                <span className="font-semibold">{takenCustomAction}</span>
+              </div>
+            ) : (
+              <form onSubmit={handleCustomActionSubmit} className="mt-4 flex gap-2">
+                <input
+                  type="text"
+                  value={customAction}
+                  onChange={e => setCustomAction(e.target.value)}
+                  placeholder={t('customActionPlaceholder') as string}
+                  disabled={isDisabled}
+                  maxLength={300}
+                  className="flex-grow min-w-0 bg-slate-800/80 border border-slate-600 rounded-lg px-4 py-3 text-gray-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+                <button
+                  type="submit"
+                  disabled={isDisabled || !customAction.trim()}
+                  className="flex items-center gap-2 bg-gradient-to-br from-amber-500 to-yellow-600 text-slate-900 font-bold py-3 px-4 rounded-lg hover:from-amber-600 hover:to-yellow-700 transition-all disabled:from-slate-600 disabled:to-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                >
+                  <WandIcon className="w-5 h-5" />
+                  <span className="hidden sm:inline">{t('customActionSubmit') as string}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={onRequestEnding}
+                  disabled={isDisabled}
+                  title={t('requestEnding') as string}
+                  className="flex items-center gap-2 bg-slate-700/80 border border-slate-600 text-slate-300 font-semibold py-3 px-4 rounded-lg hover:border-amber-400 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <BookOpenIcon className="w-5 h-5" />
+                  <span className="hidden lg:inline">{t('requestEnding') as string}</span>
+                </button>
+              </form>
+            )}
+          </>
+        )}
+        {checkResult && <CheckResultBanner result={checkResult} t={t} />}
       </div>
+      {dialogMode && (
+        <StepDialog
+          key={`${currentStep.id}-${dialogMode}`}
+          mode={dialogMode}
+          step={currentStep}
+          hasLaterScenes={hasLaterScenes}
+          onEdit={(story, choices) => { setDialogMode(null); onEditStep(story, choices); }}
+          onRegenerateImage={prompt => { setDialogMode(null); onRegenerateImage(prompt); }}
+          onRevert={index => { setDialogMode(null); onRevertVersion(index); }}
+          onClose={() => setDialogMode(null)}
+          t={t}
+        />
+      )}
+      {ending && epilogue && isEpilogueOpen && (
+        <EndingCard
+          title={session.title}
+          ending={ending}
+          epilogue={epilogue}
+          stats={{
+            scenes: pathToStep.length,
+            questsCompleted: getQuestsForPath(session.quests, pathToStep).filter(quest => quest.status === 'completed').length,
+            charactersMet: getCodexForPath(session.codex, pathToStep).filter(entry => entry.kind === 'character').length,
+          }}
+          onClose={() => setIsEpilogueOpen(false)}
+          t={t}
+        />
+      )}
     </main>
   );
 };
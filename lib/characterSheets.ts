@@ -0,0 +1,53 @@
+import { CharacterSheet, NewCharacter } from "../types";
+
+/** Reference portraits sent with a single image request; more dilutes the likeness. */
+const MAX_REFERENCE_IMAGES = 3;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The characters the model introduced this turn that do not have a sheet yet.
+ * A story only has one protagonist, so later claims to the role are demoted.
+ */
+export const getUnsheetedCharacters = (sheets: CharacterSheet[] = [], newCharacters: NewCharacter[] = []): NewCharacter[] => {
+  const known = new Set(sheets.map(sheet => normalizeName(sheet.name)));
+  let hasProtagonist = sheets.some(sheet => sheet.isProtagonist);
+  const result: NewCharacter[] = [];
+
+  for (const character of newCharacters) {
+    const name = normalizeName(character.name ?? '');
+    if (!name || !character.appearance?.trim() || known.has(name)) continue;
+    known.add(name);
+    const isProtagonist = character.isProtagonist && !hasProtagonist;
+    hasProtagonist = hasProtagonist || isProtagonist;
+    result.push({ name: character.name.trim(), appearance: character.appearance.trim(), isProtagonist });
+  }
+
+  return result;
+};
+
+/**
+ * Sheets for the characters shown in an image: the ones the model listed as
+ * visible, plus any whose name appears in the image prompt itself.
+ */
+export const selectCharacterSheets = (sheets: CharacterSheet[] = [], imagePrompt: string, visibleNames: string[] = []): CharacterSheet[] => {
+  const visible = new Set(visibleNames.map(normalizeName));
+  const prompt = imagePrompt.toLowerCase();
+  return sheets.filter(sheet => visible.has(normalizeName(sheet.name)) || prompt.includes(normalizeName(sheet.name)));
+};
+
+export const getReferenceImages = (sheets: CharacterSheet[]): string[] =>
+  sheets.map(sheet => sheet.portraitUrl).filter(Boolean).slice(0, MAX_REFERENCE_IMAGES);
+
+/** Describes the canonical look of each character, to be added to an image prompt. */
+export const describeCharactersForImage = (sheets: CharacterSheet[], hasReferences: boolean): string => {
+  const looks = sheets.map(sheet => `${sheet.name}${sheet.isProtagonist ? ' (the protagonist)' : ''}: ${sheet.appearance}`).join(' ');
+  const references = hasReferences ? ' and match the provided reference portraits' : '';
+  return `Characters shown must look exactly as described here${references}. ${looks}`;
+};
+
+/** Formats the existing sheets for the next-step prompt, so the model neither repeats nor renames them. */
+export const describeCharacterSheets = (sheets: CharacterSheet[] = []): string => {
+  if (sheets.length === 0) return 'CHARACTER SHEETS: (none yet)';
+  return `CHARACTER SHEETS (these characters already have a fixed appearance):\n${sheets.map(sheet => `- ${sheet.name}${sheet.isProtagonist ? ' (protagonist)' : ''}`).join('\n')}`;
+};
@@ -0,0 +1,100 @@
+import { CodexEntry, CodexEntryState, CodexUpdate, StoryStep } from "../types";
+
+/** Entries sent back to the model each turn, most recently updated first. */
+const CODEX_ENTRIES_IN_CONTEXT = 40;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Records this turn's codex updates against the step that produced them.
+ * Entries are matched by name; each update becomes a new revision so that
+ * earlier steps (and other branches) keep seeing the codex as it was then.
+ */
+export const applyCodexUpdates = (codex: CodexEntry[] = [], updates: CodexUpdate[] = [], stepId: string): CodexEntry[] => {
+  const updated = codex.map(entry => ({ ...entry, revisions: [...entry.revisions] }));
+
+  for (const update of updates) {
+    if (!update.name?.trim()) continue;
+    const revision = {
+      stepId,
+      description: update.description,
+      status: update.status,
+      relatedItems: update.relatedItems ?? [],
+    };
+    const existing = updated.find(entry => normalizeName(entry.name) === normalizeName(update.name) && entry.kind === update.kind);
+    if (existing) {
+      existing.revisions.push(revision);
+    } else {
+      updated.push({
+        id: crypto.randomUUID(),
+        name: update.name.trim(),
+        kind: update.kind,
+        firstSeenStepId: stepId,
+        revisions: [revision],
+      });
+    }
+  }
+
+  return updated;
+};
+
+/** The updates a step's scene made, rebuilt from its revisions. */
+export const getCodexUpdatesAt = (codex: CodexEntry[] = [], stepId: string): CodexUpdate[] =>
+  codex.flatMap(entry => entry.revisions
+    .filter(revision => revision.stepId === stepId)
+    .map(revision => ({ name: entry.name, kind: entry.kind, description: revision.description, status: revision.status, relatedItems: revision.relatedItems })));
+
+/** Keeps only the revisions made on the given steps, dropping entries left without any. */
+export const filterCodexRevisions = (codex: CodexEntry[] = [], keep: (stepId: string) => boolean): CodexEntry[] =>
+  codex
+    .map(entry => {
+      const revisions = entry.revisions.filter(revision => keep(revision.stepId));
+      const firstSeenStepId = keep(entry.firstSeenStepId) ? entry.firstSeenStepId : revisions[0]?.stepId;
+      return { ...entry, firstSeenStepId, revisions };
+    })
+    .filter(entry => entry.revisions.length > 0);
+
+/** Takes back the updates a step's scene made, dropping entries that only it mentioned. */
+export const removeCodexUpdates = (codex: CodexEntry[] = [], stepId: string): CodexEntry[] =>
+  filterCodexRevisions(codex, revisionStepId => revisionStepId !== stepId);
+
+/**
+ * Resolves the codex as known at the end of the given history: entries with a revision
+ * on this path, each with its latest revision on this path. Most recently updated first.
+ */
+export const getCodexForPath = (codex: CodexEntry[] = [], history: StoryStep[]): CodexEntryState[] => {
+  const stepIndex = new Map(history.map((step, index) => [step.id, index]));
+  const resolved: Array<CodexEntryState & { lastUpdatedIndex: number }> = [];
+
+  // Entries are shared by name across branches, so an entry first met on another branch
+  // is first seen on this one at its earliest revision here.
+  for (const entry of codex) {
+    const revisions = entry.revisions.filter(revision => stepIndex.has(revision.stepId));
+    const latest = revisions[revisions.length - 1];
+    if (!latest) continue;
+    resolved.push({
+      id: entry.id,
+      name: entry.name,
+      kind: entry.kind,
+      firstSeenStepIndex: Math.min(...revisions.map(revision => stepIndex.get(revision.stepId)!)),
+      description: latest.description,
+      status: latest.status,
+      relatedItems: latest.relatedItems,
+      lastUpdatedIndex: stepIndex.get(latest.stepId)!,
+    });
+  }
+
+  return resolved
+    .sort((a, b) => b.lastUpdatedIndex - a.lastUpdatedIndex)
+    .map(({ lastUpdatedIndex, ...entry }) => entry);
+};
+
+/** Formats the codex for the next-step prompt. */
+export const describeCodex = (entries: CodexEntryState[]): string => {
+  if (entries.length === 0) return 'WORLD CODEX: (empty)';
+  const lines = entries.slice(0, CODEX_ENTRIES_IN_CONTEXT).map(entry => {
+    const related = entry.relatedItems.length > 0 ? ` Related: ${entry.relatedItems.join(', ')}.` : '';
+    return `- [${entry.kind}] ${entry.name} (${entry.status}): ${entry.description}${related}`;
+  });
+  return `WORLD CODEX (established facts, most recently updated first):\n${lines.join('\n')}`;
+};
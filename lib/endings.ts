@@ -0,0 +1,23 @@
+import { EndingType, Epilogue, GameSession, StoryStep } from "../types";
+import { isDefeated } from "./rules";
+
+/**
+ * How the story ends at this step, if it does. Steps where the player's health reached
+ * zero end in defeat even if they were saved before endings were recorded.
+ */
+export const getStepEnding = (step: StoryStep): EndingType | undefined =>
+  step.ending ?? (isDefeated(step) ? 'defeat' : undefined);
+
+/**
+ * Decides whether a new scene ends the story. The model's verdict wins; a scene that must
+ * end the story (the player asked for it, or the story ran past its turn budget) always
+ * does, and reaching zero health is always a defeat.
+ */
+export const resolveEnding = (reported: EndingType | 'none', mustEnd: boolean, step: StoryStep): EndingType | undefined => {
+  if (reported !== 'none') return reported;
+  if (isDefeated(step)) return 'defeat';
+  return mustEnd ? 'bittersweet' : undefined;
+};
+
+export const getEpilogue = (session: GameSession, stepId: string): Epilogue | undefined =>
+  session.epilogues?.find(epilogue => epilogue.stepId === stepId);
@@ -0,0 +1,31 @@
+import { GameSession } from "../types";
+import { filterCodexRevisions } from "./codex";
+import { filterQuestRevisions } from "./quests";
+import { createRuleset } from "./rules";
+import { getPath, toStoryTree } from "./storyTree";
+
+/**
+ * Copies the path to a step into a new adventure of its own, which continues from that
+ * step. Other branches, and the codex, quests, chapters and epilogues that only they
+ * produced, are left behind. Steps keep their ids, so the provenance points at the same
+ * step in both sessions. The fork rolls its own dice from here on.
+ */
+export const forkSession = (session: GameSession, stepId: string, title: string): GameSession => {
+  const path = getPath(session.steps, stepId);
+  const stepIds = new Set(path.map(step => step.id));
+  const onPath = (id: string) => stepIds.has(id);
+
+  return {
+    ...session,
+    ...toStoryTree(path),
+    id: crypto.randomUUID(),
+    title,
+    createdAt: Date.now(),
+    chapters: session.chapters?.filter(chapter => onPath(chapter.fromStepId) && onPath(chapter.toStepId)),
+    codex: session.codex && filterCodexRevisions(session.codex, onPath),
+    quests: session.quests && filterQuestRevisions(session.quests, onPath),
+    epilogues: session.epilogues?.filter(epilogue => onPath(epilogue.stepId)),
+    ...(session.ruleset && { ruleset: createRuleset() }),
+    forkedFrom: { sessionId: session.id, stepId, title: session.title, forkedAt: Date.now() },
+  };
+};
@@ -0,0 +1,67 @@
+import { InventoryItem, ItemCategory, SceneItem } from "../types";
+
+const ITEM_CATEGORIES: ItemCategory[] = ['weapon', 'armor', 'consumable', 'tool', 'key', 'document', 'treasure', 'misc'];
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const toItemId = (name: string) => normalizeName(name).replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'item';
+
+/**
+ * Fills in the fields of an item saved before items had ids and quantities.
+ * The id is derived from the name, so the same item gets the same id in every step.
+ */
+export const upgradeInventoryItem = (item: Partial<InventoryItem> & { name: string; imageUrl: string }): InventoryItem => ({
+  id: item.id ?? toItemId(item.name),
+  name: item.name,
+  quantity: item.quantity ?? 1,
+  description: item.description ?? '',
+  category: item.category && ITEM_CATEGORIES.includes(item.category) ? item.category : 'misc',
+  usable: item.usable ?? false,
+  imageUrl: item.imageUrl,
+});
+
+/**
+ * Applies the inventory reported by the model to the previous one. Items are matched
+ * by id, then by case-insensitive name, and keep their id and image. Items used up
+ * (quantity zero or less) are dropped. Returns the new inventory, where items that
+ * still need an image have an empty imageUrl, and the scene items to generate images for.
+ */
+export const mergeInventory = (previous: InventoryItem[], reported: SceneItem[]): { items: InventoryItem[], needImages: SceneItem[] } => {
+  const items: InventoryItem[] = [];
+  const needImages: SceneItem[] = [];
+  const usedIds = new Set<string>();
+
+  for (const sceneItem of reported) {
+    const quantity = Number.isFinite(sceneItem.quantity) ? Math.floor(sceneItem.quantity) : 1;
+    if (quantity <= 0) continue;
+
+    const match = previous.find(item => item.id === sceneItem.id && !usedIds.has(item.id))
+      ?? previous.find(item => normalizeName(item.name) === normalizeName(sceneItem.name) && !usedIds.has(item.id));
+
+    const baseId = match?.id ?? (sceneItem.id?.trim() || toItemId(sceneItem.name));
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    items.push({
+      id,
+      name: sceneItem.name,
+      quantity,
+      description: sceneItem.description ?? match?.description ?? '',
+      category: ITEM_CATEGORIES.includes(sceneItem.category) ? sceneItem.category : 'misc',
+      usable: sceneItem.usable ?? false,
+      imageUrl: match?.imageUrl ?? '',
+    });
+    if (!match) needImages.push({ ...sceneItem, id });
+  }
+
+  return { items, needImages };
+};
+
+/** Formats the inventory for the next-step prompt, with the ids the model must reuse. */
+export const describeInventory = (items: InventoryItem[]): string => {
+  if (items.length === 0) return '(empty)';
+  return items.map(item => `- [id: ${item.id}] ${item.name} x${item.quantity} (${item.category}${item.usable ? ', usable' : ''}): ${item.description}`).join('\n');
+};
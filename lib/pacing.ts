@@ -0,0 +1,55 @@
+import { PacingMode } from "../types";
+
+export const PACING_MODES: PacingMode[] = ['short', 'novella', 'endless'];
+
+const TURN_BUDGETS: Record<PacingMode, number | undefined> = {
+  short: 10,
+  novella: 30,
+  endless: undefined,
+};
+
+export type ArcStage = 'setup' | 'rising' | 'climax' | 'resolution';
+
+/** The acts of a story with a turn budget, each ending at this share of the budget. */
+export const ARC_STAGES: Array<{ stage: ArcStage, until: number }> = [
+  { stage: 'setup', until: 0.2 },
+  { stage: 'rising', until: 0.7 },
+  { stage: 'climax', until: 0.9 },
+  { stage: 'resolution', until: 1 },
+];
+
+const STAGE_GUIDANCE: Record<ArcStage, string> = {
+  setup: 'setup: introduce the protagonist, the world and the central conflict, and start the main quest',
+  rising: 'rising action: raise the stakes and complicate the main quest, without resolving it yet',
+  climax: 'climax: drive the main quest to its decisive confrontation',
+  resolution: 'resolution: resolve the main quest and close the open threads',
+};
+
+export interface ArcProgress {
+  /** 1-based: the first scene is turn 1. */
+  turn: number;
+  turnBudget: number;
+  stage: ArcStage;
+  /** Past the turn budget the story must end, whether or not the model wants to. */
+  overdue: boolean;
+}
+
+export const getTurnBudget = (pacing: PacingMode = 'endless'): number | undefined => TURN_BUDGETS[pacing];
+
+/** Where a scene falls in the story's arc, or undefined for endless stories. */
+export const getArcProgress = (pacing: PacingMode | undefined, turn: number): ArcProgress | undefined => {
+  const turnBudget = getTurnBudget(pacing);
+  if (!turnBudget) return undefined;
+  const stage = ARC_STAGES.find(({ until }) => turn <= Math.round(turnBudget * until))?.stage ?? 'resolution';
+  return { turn, turnBudget, stage, overdue: turn > turnBudget };
+};
+
+/** Formats the arc progress of the scene to generate for its prompt. */
+export const describeArcProgress = (progress: ArcProgress): string => {
+  const { turn, turnBudget, stage, overdue } = progress;
+  if (overdue) {
+    return `STORY ARC: this scene is turn ${turn}, past the planned length of ${turnBudget} turns. Make it the final scene: resolve the main quest and set 'ending'.`;
+  }
+  const finalTurn = turn === turnBudget ? ` This is the final turn: make it the last scene of the story and set 'ending'.` : '';
+  return `STORY ARC: this scene is turn ${turn} of about ${turnBudget}, in the ${STAGE_GUIDANCE[stage]}.${finalTurn}`;
+};
@@ -0,0 +1,154 @@
+// Incremental JSON parsing for streamed model responses.
+
+/**
+ * The best-effort result of parsing a JSON prefix.
+ * `complete` is false when the text ended before the value did; strings, arrays
+ * and objects then hold whatever had arrived so far.
+ */
+export interface PartialJsonValue {
+  value: unknown;
+  complete: boolean;
+  /** For objects: the keys whose values have been fully received. */
+  completeKeys?: Set<string>;
+}
+
+interface Cursor {
+  text: string;
+  pos: number;
+}
+
+const isAtEnd = (cursor: Cursor) => cursor.pos >= cursor.text.length;
+
+const skipWhitespace = (cursor: Cursor) => {
+  while (!isAtEnd(cursor) && /\s/.test(cursor.text[cursor.pos])) {
+    cursor.pos++;
+  }
+};
+
+const escapes: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const parseString = (cursor: Cursor): PartialJsonValue => {
+  cursor.pos++; // opening quote
+  let result = '';
+  while (!isAtEnd(cursor)) {
+    const char = cursor.text[cursor.pos];
+    if (char === '"') {
+      cursor.pos++;
+      return { value: result, complete: true };
+    }
+    if (char === '\\') {
+      const next = cursor.text[cursor.pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = cursor.text.substring(cursor.pos + 2, cursor.pos + 6);
+        if (hex.length < 4) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        cursor.pos += 6;
+      } else {
+        result += escapes[next] ?? next;
+        cursor.pos += 2;
+      }
+      continue;
+    }
+    result += char;
+    cursor.pos++;
+  }
+  // Ran out of text mid-string (possibly mid-escape): keep what we have.
+  cursor.pos = cursor.text.length;
+  return { value: result, complete: false };
+};
+
+const parseArray = (cursor: Cursor): PartialJsonValue => {
+  cursor.pos++; // [
+  const items: unknown[] = [];
+  while (true) {
+    skipWhitespace(cursor);
+    if (isAtEnd(cursor)) return { value: items, complete: false };
+    if (cursor.text[cursor.pos] === ']') {
+      cursor.pos++;
+      return { value: items, complete: true };
+    }
+    const item = parseValue(cursor);
+    if (item.value !== undefined) items.push(item.value);
+    if (!item.complete) return { value: items, complete: false };
+    skipWhitespace(cursor);
+    if (cursor.text[cursor.pos] === ',') cursor.pos++;
+  }
+};
+
+const parseObject = (cursor: Cursor): PartialJsonValue => {
+  cursor.pos++; // {
+  const record: Record<string, unknown> = {};
+  const completeKeys = new Set<string>();
+  const partial = () => ({ value: record, complete: false, completeKeys });
+
+  while (true) {
+    skipWhitespace(cursor);
+    if (isAtEnd(cursor)) return partial();
+    if (cursor.text[cursor.pos] === '}') {
+      cursor.pos++;
+      return { value: record, complete: true, completeKeys };
+    }
+    if (cursor.text[cursor.pos] !== '"') {
+      throw new SyntaxError(`Unexpected character "${cursor.text[cursor.pos]}" at position ${cursor.pos}`);
+    }
+    const key = parseString(cursor);
+    if (!key.complete) return partial();
+
+    skipWhitespace(cursor);
+    if (isAtEnd(cursor)) return partial();
+    if (cursor.text[cursor.pos] !== ':') {
+      throw new SyntaxError(`Expected ":" at position ${cursor.pos}`);
+    }
+    cursor.pos++;
+    skipWhitespace(cursor);
+    if (isAtEnd(cursor)) return partial();
+
+    const value = parseValue(cursor);
+    if (value.value !== undefined) record[key.value as string] = value.value;
+    if (!value.complete) return partial();
+    completeKeys.add(key.value as string);
+
+    skipWhitespace(cursor);
+    if (cursor.text[cursor.pos] === ',') cursor.pos++;
+  }
+};
+
+const parseLiteral = (cursor: Cursor): PartialJsonValue => {
+  const match = /^(?:[-+0-9.eE]+|[a-z]+)/.exec(cursor.text.substring(cursor.pos));
+  const token = match?.[0] ?? '';
+  if (!token) {
+    throw new SyntaxError(`Unexpected character "${cursor.text[cursor.pos]}" at position ${cursor.pos}`);
+  }
+  cursor.pos += token.length;
+  // A literal touching the end of the text might still grow (e.g. "12" -> "125").
+  if (isAtEnd(cursor)) return { value: undefined, complete: false };
+  if (token === 'true') return { value: true, complete: true };
+  if (token === 'false') return { value: false, complete: true };
+  if (token === 'null') return { value: null, complete: true };
+  const number = Number(token);
+  if (Number.isNaN(number)) {
+    throw new SyntaxError(`Invalid literal "${token}"`);
+  }
+  return { value: number, complete: true };
+};
+
+const parseValue = (cursor: Cursor): PartialJsonValue => {
+  skipWhitespace(cursor);
+  if (isAtEnd(cursor)) return { value: undefined, complete: false };
+  switch (cursor.text[cursor.pos]) {
+    case '{': return parseObject(cursor);
+    case '[': return parseArray(cursor);
+    case '"': return parseString(cursor);
+    default: return parseLiteral(cursor);
+  }
+};
+
+/**
+ * Parses as much of a (possibly truncated) JSON document as has arrived.
+ * Throws a SyntaxError only if the text can never become valid JSON.
+ */
+export const parsePartialJson = (text: string): PartialJsonValue => {
+  const cursor: Cursor = { text: text.trimStart().replace(/^```(?:json)?\s*/i, ''), pos: 0 };
+  return parseValue(cursor);
+};
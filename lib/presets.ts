@@ -0,0 +1,51 @@
+import { ContentRating, Difficulty } from "../types";
+
+export const DIFFICULTIES: Difficulty[] = ['forgiving', 'standard', 'harsh'];
+export const CONTENT_RATINGS: ContentRating[] = ['all-ages', 'teen', 'mature'];
+
+// What sessions saved before the presets existed play as.
+export const DEFAULT_DIFFICULTY: Difficulty = 'standard';
+export const DEFAULT_CONTENT_RATING: ContentRating = 'teen';
+
+const DIFFICULTY_RULES: Record<Difficulty, string> = {
+  forgiving: `Outcomes are forgiving. Mistakes cost time, items or a detour but rarely cause lasting harm, the protagonist is never killed or defeated for good by a single bad choice, and the story offers hints toward the better choices.`,
+  standard: `Outcomes are fair. Good choices are rewarded and poor ones have real but recoverable consequences; only a string of reckless choices can defeat the protagonist for good.`,
+  harsh: `Outcomes are harsh. Resources are scarce, poor or reckless choices have serious and lasting consequences, allies can be lost for good, and the protagonist can be killed or defeated.`,
+};
+
+const CONTENT_RATING_RULES: Record<ContentRating, string> = {
+  'all-ages': `Everything must be suitable for young children. No blood, gore, on-screen death, torture, sexual content, romance beyond friendship, profanity, drugs, alcohol or disturbing horror. Danger stays mild and adventurous, conflicts are solved by cleverness, courage or kindness, and villains are outwitted, captured or flee rather than killed.`,
+  teen: `Everything must be suitable for teenagers. Action, peril and non-graphic violence are fine, but there is no gore, torture, sexual content, strong profanity or glorified drug use.`,
+  mature: `Mature themes, violence and dark content are allowed where the story calls for them, but never gratuitously, and there is no explicit sexual content.`,
+};
+
+const IMAGE_RATING_CLAUSES: Record<ContentRating, string> = {
+  'all-ages': 'Family-friendly image suitable for young children: no blood, gore, injuries, weapons aimed at anyone, frightening monsters or revealing clothing',
+  teen: 'No gore, graphic injuries or nudity',
+  mature: 'No explicit nudity',
+};
+
+/** The rule that tells the model how forgiving outcomes are. */
+export const describeDifficultyRule = (difficulty: Difficulty = DEFAULT_DIFFICULTY): string => DIFFICULTY_RULES[difficulty];
+
+/** The rule that tells the model what the story and its image prompts may contain. */
+export const describeContentRatingRule = (rating: ContentRating = DEFAULT_CONTENT_RATING): string => CONTENT_RATING_RULES[rating];
+
+/** Appended to every image prompt, so images keep to the rating whatever the scene text says. */
+export const describeImageRating = (rating: ContentRating = DEFAULT_CONTENT_RATING): string => IMAGE_RATING_CLAUSES[rating];
+
+/** Whether generated text is reviewed against the rating before the player sees it. */
+export const needsRatingReview = (rating: ContentRating = DEFAULT_CONTENT_RATING): boolean => rating !== 'mature';
+
+/** The prompt asking the model whether a generated text fits the rating. */
+export const buildRatingReviewPrompt = (text: string, rating: ContentRating = DEFAULT_CONTENT_RATING): string =>
+  `You review content for an interactive story game. Its content rating is "${rating}": ${CONTENT_RATING_RULES[rating]}\n\nReview the following generated content, including any image descriptions in it:\n${text}\n\nIf it fits the rating, answer with the single word OK. Otherwise, answer with one line per problem, each starting with "- ", and nothing else.`;
+
+/** The problems listed by a rating review; none means the text fits. */
+export const parseRatingReview = (answer: string): string[] => {
+  const trimmed = answer.trim();
+  if (/^OK\b/i.test(trimmed)) return [];
+  const problems = trimmed.split('\n').map(line => line.replace(/^\s*-\s*/, '').trim()).filter(Boolean);
+  // An answer that is neither OK nor a list still means the reviewer objected.
+  return problems.length > 0 ? problems : ['The content does not fit the rating.'];
+};
@@ -0,0 +1,121 @@
+import { Quest, QuestObjective, QuestObjectiveState, QuestState, QuestUpdate, StoryStep } from "../types";
+
+const QUEST_STATUSES = ['active', 'completed', 'failed'];
+
+const normalizeText = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Records this turn's quest updates against the step that produced them. Quests are
+ * matched by id, then by title; each update becomes a new revision so that earlier
+ * steps (and other branches) keep seeing the journal as it was then.
+ */
+export const applyQuestUpdates = (quests: Quest[] = [], updates: QuestUpdate[] = [], stepId: string): Quest[] => {
+  const updated = quests.map(quest => ({ ...quest, revisions: [...quest.revisions] }));
+
+  for (const update of updates) {
+    if (!update.title?.trim()) continue;
+    const revision = {
+      stepId,
+      title: update.title.trim(),
+      status: QUEST_STATUSES.includes(update.status) ? update.status : 'active',
+      description: update.description ?? '',
+      objectives: (update.objectives ?? []).filter(objective => objective.text?.trim()),
+    };
+    const existing = updated.find(quest => quest.id === update.id?.trim())
+      ?? updated.find(quest => normalizeText(quest.revisions[quest.revisions.length - 1].title) === normalizeText(update.title));
+    if (existing) {
+      existing.revisions.push(revision);
+    } else {
+      updated.push({ id: update.id?.trim() || crypto.randomUUID(), revisions: [revision] });
+    }
+  }
+
+  return updated;
+};
+
+/** The updates a step's scene made, rebuilt from its revisions. */
+export const getQuestUpdatesAt = (quests: Quest[] = [], stepId: string): QuestUpdate[] =>
+  quests.flatMap(quest => quest.revisions
+    .filter(revision => revision.stepId === stepId)
+    .map(({ stepId: _, ...revision }) => ({ id: quest.id, ...revision })));
+
+/** Keeps only the revisions made on the given steps, dropping quests left without any. */
+export const filterQuestRevisions = (quests: Quest[] = [], keep: (stepId: string) => boolean): Quest[] =>
+  quests
+    .map(quest => ({ ...quest, revisions: quest.revisions.filter(revision => keep(revision.stepId)) }))
+    .filter(quest => quest.revisions.length > 0);
+
+/** Takes back the updates a step's scene made, dropping quests that only it started. */
+export const removeQuestUpdates = (quests: Quest[] = [], stepId: string): Quest[] =>
+  filterQuestRevisions(quests, revisionStepId => revisionStepId !== stepId);
+
+// An objective counts as done from the first revision on the path where it is done
+// and stays done, matched by its text.
+const resolveObjectives = (objectives: QuestObjective[], revisions: Array<{ objectives: QuestObjective[], stepIndex: number }>): QuestObjectiveState[] =>
+  objectives.map(objective => {
+    if (!objective.done) return { text: objective.text, done: false };
+    let doneStepIndex: number | undefined;
+    for (const revision of revisions) {
+      const match = revision.objectives.find(o => normalizeText(o.text) === normalizeText(objective.text));
+      if (match?.done) {
+        doneStepIndex ??= revision.stepIndex;
+      } else {
+        doneStepIndex = undefined;
+      }
+    }
+    return { text: objective.text, done: true, doneStepIndex };
+  });
+
+/**
+ * Resolves the quest journal as known at the end of the given history: quests started
+ * on this path, each with its latest revision on this path. Active quests come first,
+ * then the most recently changed.
+ */
+export const getQuestsForPath = (quests: Quest[] = [], history: StoryStep[]): QuestState[] => {
+  const stepIndex = new Map(history.map((step, index) => [step.id, index]));
+  const resolved: Array<QuestState & { lastUpdatedIndex: number }> = [];
+
+  // A quest id may be reused on another branch, so where a quest starts depends on the path too.
+  for (const quest of quests) {
+    const revisions = quest.revisions
+      .filter(revision => stepIndex.has(revision.stepId))
+      .map(revision => ({ ...revision, stepIndex: stepIndex.get(revision.stepId)! }));
+    const latest = revisions[revisions.length - 1];
+    if (!latest) continue;
+
+    // The status was set by the earliest revision of the latest run of that status.
+    let statusStepIndex = latest.stepIndex;
+    for (let i = revisions.length - 1; i >= 0 && revisions[i].status === latest.status; i--) {
+      statusStepIndex = revisions[i].stepIndex;
+    }
+
+    resolved.push({
+      id: quest.id,
+      title: latest.title,
+      status: latest.status,
+      description: latest.description,
+      objectives: resolveObjectives(latest.objectives, revisions),
+      startedStepIndex: revisions[0].stepIndex,
+      statusStepIndex,
+      lastUpdatedIndex: latest.stepIndex,
+    });
+  }
+
+  return resolved
+    .sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active') || b.lastUpdatedIndex - a.lastUpdatedIndex)
+    .map(({ lastUpdatedIndex, ...quest }) => quest);
+};
+
+/** Quests completed by the scene at the given step, for the completion notice. */
+export const getQuestsCompletedAt = (quests: QuestState[], stepIndex: number): QuestState[] =>
+  quests.filter(quest => quest.status === 'completed' && quest.statusStepIndex === stepIndex);
+
+/** Formats the quest journal for the next-step prompt, with the ids the model must reuse. */
+export const describeQuests = (quests: QuestState[]): string => {
+  if (quests.length === 0) return 'QUEST JOURNAL: (empty)';
+  const lines = quests.map(quest => {
+    const objectives = quest.objectives.map(objective => `\n    [${objective.done ? 'x' : ' '}] ${objective.text}`).join('');
+    return `- [id: ${quest.id}] ${quest.title} (${quest.status}): ${quest.description}${objectives}`;
+  });
+  return `QUEST JOURNAL (active quests first):\n${lines.join('\n')}`;
+};
@@ -0,0 +1,97 @@
+import { Attribute, CheckResult, ChoiceCheck, PlayerStats, Ruleset, StoryStep } from "../types";
+
+export const ATTRIBUTES: Attribute[] = ['strength', 'agility', 'intellect', 'charisma'];
+
+/** The check of a choice that needs no roll. */
+export const NO_CHECK: ChoiceCheck = { attribute: 'none', skill: '', dc: 0 };
+
+const STARTING_HEALTH = 10;
+/** Added to a check when the player has the skill it names. */
+const SKILL_BONUS = 2;
+
+// Seeded dice: a string hash (FNV-1a) seeds a mulberry32 generator, so a roll only
+// depends on its seed string and never on when or where it is made.
+const hashSeed = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const rollDie = (random: () => number, sides: number) => 1 + Math.floor(random() * sides);
+
+export const createRuleset = (): Ruleset => ({ seed: crypto.randomUUID() });
+
+/** Rolls a starting character: 4d6, dropping the lowest die, turned into a modifier per attribute. */
+export const createStartingStats = (ruleset: Ruleset): PlayerStats => {
+  const random = createRandom(`${ruleset.seed}:stats`);
+  const attributes = Object.fromEntries(ATTRIBUTES.map(attribute => {
+    const dice = [0, 0, 0, 0].map(() => rollDie(random, 6)).sort((a, b) => a - b);
+    const score = dice[1] + dice[2] + dice[3];
+    return [attribute, Math.floor((score - 10) / 2)];
+  })) as Record<Attribute, number>;
+  return { health: STARTING_HEALTH, maxHealth: STARTING_HEALTH, attributes, skills: [] };
+};
+
+const hasSkill = (stats: PlayerStats, skill: string) =>
+  skill.trim() !== '' && stats.skills.some(known => known.toLowerCase() === skill.trim().toLowerCase());
+
+/**
+ * Rolls the check for a choice. The seed includes the step and the choice, so picking
+ * the same choice again (or pre-generating it) always gives the same result.
+ */
+export const rollCheck = (ruleset: Ruleset, stepId: string, choice: string, check: ChoiceCheck, stats: PlayerStats): CheckResult | undefined => {
+  if (check.attribute === 'none') return undefined;
+  const roll = rollDie(createRandom(`${ruleset.seed}:${stepId}:${choice}`), 20);
+  const modifier = (stats.attributes[check.attribute] ?? 0) + (hasSkill(stats, check.skill) ? SKILL_BONUS : 0);
+  const total = roll + modifier;
+  return { attribute: check.attribute, skill: check.skill, dc: check.dc, roll, modifier, total, success: total >= check.dc };
+};
+
+/**
+ * Marks a step with the choice made on it and, under a ruleset, the check it rolled.
+ * Free-form actions are not rolled; the model judges them as game master.
+ */
+export const recordChoice = (step: StoryStep, choice: string, isCustomAction: boolean, ruleset?: Ruleset): StoryStep => {
+  const check = !isCustomAction && step.choiceChecks?.[step.choices.indexOf(choice)];
+  return {
+    ...step,
+    choiceMade: choice,
+    isCustomAction: isCustomAction || undefined,
+    checkResult: ruleset && step.stats && check ? rollCheck(ruleset, step.id, choice, check, step.stats) : undefined,
+  };
+};
+
+/** Applies a scene's health change and new skills, keeping health between zero and its maximum. */
+export const applyStatChanges = (stats: PlayerStats, healthChange: number, skillsGained: string[]): PlayerStats => ({
+  ...stats,
+  health: Math.max(0, Math.min(stats.maxHealth, stats.health + (Number.isFinite(healthChange) ? Math.round(healthChange) : 0))),
+  skills: [...stats.skills, ...skillsGained.map(skill => skill.trim()).filter(skill => skill && !hasSkill(stats, skill))],
+});
+
+export const isDefeated = (step: StoryStep): boolean => step.stats !== undefined && step.stats.health <= 0;
+
+const formatModifier = (value: number) => value >= 0 ? `+${value}` : `${value}`;
+
+/** Formats the player's stats for the prompt. */
+export const describeStats = (stats: PlayerStats): string =>
+  `Health: ${stats.health}/${stats.maxHealth}\n`
+  + `Attributes: ${ATTRIBUTES.map(attribute => `${attribute} ${formatModifier(stats.attributes[attribute])}`).join(', ')}\n`
+  + `Skills: ${stats.skills.length > 0 ? stats.skills.join(', ') : '(none)'}`;
+
+/** Formats a rolled check for the prompt, so the model narrates the outcome the dice decided. */
+export const describeCheckResult = (result: CheckResult): string =>
+  `${result.attribute}${result.skill ? ` (${result.skill})` : ''} check, DC ${result.dc}: rolled ${result.roll} ${formatModifier(result.modifier)} = ${result.total}, ${result.success ? 'SUCCESS' : 'FAILURE'}`;
@@ -0,0 +1,66 @@
+import { GenerativeSceneNode, SceneGraph, SceneNode, StoryStep } from "../types";
+
+export const getSceneNode = (graph: SceneGraph | undefined, nodeId: string | undefined): SceneNode | undefined =>
+  nodeId ? graph?.nodes.find(node => node.id === nodeId) : undefined;
+
+export const getStartNode = (graph: SceneGraph | undefined): SceneNode | undefined =>
+  getSceneNode(graph, graph?.startNodeId);
+
+/**
+ * The authored node a choice on this step leads to, if any. A fixed scene follows the
+ * edge of the chosen choice; a free-form action there is left to the AI. After a
+ * generated node with a follow-up, or a scene the model led into a beat, every choice
+ * leads on to that node.
+ */
+export const getNextSceneNode = (graph: SceneGraph | undefined, step: StoryStep, choice: string, isCustomAction = false): SceneNode | undefined => {
+  if (!graph) return undefined;
+  const node = getSceneNode(graph, step.sceneNodeId);
+  if (node?.kind === 'fixed') {
+    return isCustomAction ? undefined : getSceneNode(graph, node.choices.find(c => c.text === choice)?.target);
+  }
+  if (node?.kind === 'generative' && node.next) return getSceneNode(graph, node.next);
+  return getSceneNode(graph, step.nextBeat);
+};
+
+/** Beats with a trigger that have not been played on this path yet, for the model to lead into. */
+export const getPendingBeats = (graph: SceneGraph | undefined, history: StoryStep[]): SceneNode[] => {
+  if (!graph) return [];
+  const played = new Set(history.map(step => step.sceneNodeId).filter(Boolean));
+  return graph.nodes.filter(node => node.trigger.trim() && !played.has(node.id));
+};
+
+/** The beat the model reported leading into, kept only if it is one that is still pending. */
+export const resolveNextBeat = (graph: SceneGraph | undefined, history: StoryStep[], reported: string): string | undefined =>
+  getPendingBeats(graph, history).find(beat => beat.id === reported.trim())?.id;
+
+/** Formats the beats the model may lead into, with the ids it must report in 'nextBeat'. */
+export const describePendingBeats = (beats: SceneNode[]): string => {
+  if (beats.length === 0) return '';
+  const lines = beats.map(beat => `- [id: ${beat.id}] when ${beat.trigger}`);
+  return `AUTHORED BEATS (scripted moments still ahead):\n${lines.join('\n')}\nIf this scene brings the player to one of these moments, end the scene just before it and set 'nextBeat' to its id; the beat itself is the next scene, whatever the player chooses. Otherwise, set 'nextBeat' to an empty string.`;
+};
+
+/** Formats the constraints of a generated node for the prompt of the scene written from it. */
+export const describeBrief = (node: GenerativeSceneNode): string =>
+  `AUTHORED SCENE: this scene is a scripted beat. Whatever the player chose, it must do the following: ${node.brief}`;
+
+/** Problems with a scene graph: edges to missing nodes, a missing start node or duplicate ids. */
+export const validateSceneGraph = (graph: SceneGraph): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  for (const node of graph.nodes) {
+    if (ids.has(node.id)) errors.push(`node id "${node.id}" is used more than once`);
+    ids.add(node.id);
+  }
+  if (graph.startNodeId && !ids.has(graph.startNodeId)) errors.push(`the start node "${graph.startNodeId}" does not exist`);
+  for (const node of graph.nodes) {
+    const targets = node.kind === 'fixed' ? node.choices.map(choice => choice.target) : [node.next];
+    for (const target of targets.filter(Boolean)) {
+      if (!ids.has(target)) errors.push(`"${node.label || node.id}" leads to "${target}", which does not exist`);
+    }
+    if (node.kind === 'fixed' && node.ending === 'none' && node.choices.length === 0) {
+      errors.push(`"${node.label || node.id}" has no choices and does not end the story`);
+    }
+  }
+  return errors;
+};
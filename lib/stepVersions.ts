@@ -0,0 +1,93 @@
+import { CodexUpdate, GameSession, QuestUpdate, StepChange, StepContentField, StepVersion, StoryStep } from "../types";
+import { applyCodexUpdates, getCodexUpdatesAt, removeCodexUpdates } from "./codex";
+import { applyQuestUpdates, getQuestUpdatesAt, removeQuestUpdates } from "./quests";
+import { getChildren, getPath } from "./storyTree";
+
+// Rerolls, new images, edits and reverts replace the scene of a step in place, so the
+// choice that led to it and the step id that codex, quests and epilogues are keyed by
+// stay the same. The scene it replaced is kept as a version that can be brought back.
+
+export type StepContent = Pick<StoryStep, StepContentField>;
+
+export const getStepContent = (step: StepContent): StepContent => ({
+  story: step.story,
+  choices: step.choices,
+  imageUrl: step.imageUrl,
+  imagePrompt: step.imagePrompt,
+  inventory: step.inventory,
+  currentQuest: step.currentQuest,
+  mood: step.mood,
+  choiceChecks: step.choiceChecks,
+  stats: step.stats,
+  ending: step.ending,
+  nextBeat: step.nextBeat,
+  editedByPlayer: step.editedByPlayer,
+});
+
+// Chapters that summarize a step, or scenes after it, told the story as it was; they are
+// dropped so that story memory summarizes the changed text again.
+const dropChaptersFrom = (session: GameSession, stepId: string): Pick<GameSession, 'chapters'> | undefined => {
+  const isStale = (toStepId: string) => getPath(session.steps, toStepId).some(step => step.id === stepId);
+  return session.chapters?.some(chapter => isStale(chapter.toStepId))
+    ? { chapters: session.chapters.filter(chapter => !isStale(chapter.toStepId)) }
+    : undefined;
+};
+
+/**
+ * Replaces the scene of a step, keeping the current one as a version. A change that
+ * brings its own codex and quest updates (a reroll or a revert) takes back the ones the
+ * old scene made, and the epilogue written for it. Any change but a new image drops the
+ * chapters summarizing the old text.
+ */
+export const replaceStepContent = (
+  session: GameSession,
+  stepId: string,
+  content: Partial<StepContent>,
+  change: StepChange,
+  updates?: { codexUpdates: CodexUpdate[]; questUpdates: QuestUpdate[] },
+): GameSession => {
+  const step = session.steps.find(node => node.id === stepId);
+  if (!step) return session;
+  const version: StepVersion = {
+    ...getStepContent(step),
+    replacedAt: Date.now(),
+    replacedBy: change,
+    codexUpdates: getCodexUpdatesAt(session.codex, stepId),
+    questUpdates: getQuestUpdatesAt(session.quests, stepId),
+  };
+  return {
+    ...session,
+    steps: session.steps.map(node => node.id === stepId ? { ...node, ...content, versions: [...(node.versions ?? []), version] } : node),
+    ...(change !== 'image' && dropChaptersFrom(session, stepId)),
+    ...(updates && {
+      codex: applyCodexUpdates(removeCodexUpdates(session.codex, stepId), updates.codexUpdates, stepId),
+      quests: applyQuestUpdates(removeQuestUpdates(session.quests, stepId), updates.questUpdates, stepId),
+      epilogues: session.epilogues?.filter(epilogue => epilogue.stepId !== stepId),
+    }),
+  };
+};
+
+/**
+ * Brings back an earlier version of a step; the scene it replaces becomes a version in
+ * turn. Once later scenes have been played from the step, only its text, choices and
+ * image come back: the inventory, stats and codex they built on stay as they are.
+ */
+export const revertStepVersion = (session: GameSession, stepId: string, versionIndex: number): GameSession => {
+  const version = session.steps.find(node => node.id === stepId)?.versions?.[versionIndex];
+  if (!version) return session;
+  const { replacedAt, replacedBy, codexUpdates, questUpdates, ...content } = version;
+  const reverted = getChildren(session.steps, stepId).length > 0
+    ? replaceStepContent(session, stepId, {
+        story: content.story,
+        choices: content.choices,
+        choiceChecks: content.choiceChecks,
+        imageUrl: content.imageUrl,
+        imagePrompt: content.imagePrompt,
+        editedByPlayer: content.editedByPlayer,
+      }, 'revert')
+    : replaceStepContent(session, stepId, content, 'revert', { codexUpdates, questUpdates });
+  return {
+    ...reverted,
+    steps: reverted.steps.map(node => node.id === stepId ? { ...node, versions: node.versions!.filter((_, i) => i !== versionIndex) } : node),
+  };
+};
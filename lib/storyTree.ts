@@ -0,0 +1,88 @@
+import { ChoiceField, GameSession, StoryNode, StoryStep } from "../types";
+
+// A session keeps every branch the player has explored as a tree of steps with parent
+// pointers. Everything that plays or shows the story works on a path through it: the
+// steps from the opening scene to a leaf, as plain StorySteps with each choice back on
+// the step it was made on.
+
+/** What placing a step in the tree reads from it; the rest of the step is carried over as it is. */
+type TreeStep = Pick<StoryStep, 'id' | ChoiceField>;
+/** A step placed in the tree; a StoryNode when the step is a StoryStep. */
+type TreeNode<S extends TreeStep> = Omit<S, ChoiceField> & Pick<StoryNode, 'parentId' | 'choice'>;
+
+const toNode = <S extends TreeStep>(step: S, parent?: TreeStep): TreeNode<S> => {
+  const { choiceMade, isCustomAction, checkResult, endingRequested, ...scene } = step;
+  return {
+    ...scene,
+    ...(parent && { parentId: parent.id }),
+    ...(parent?.choiceMade !== undefined && {
+      choice: { choiceMade: parent.choiceMade, isCustomAction: parent.isCustomAction, checkResult: parent.checkResult, endingRequested: parent.endingRequested } satisfies Pick<StoryStep, ChoiceField>,
+    }),
+  };
+};
+
+/** The steps from the opening scene to the given one. */
+export const getPath = (steps: StoryNode[], leafId: string): StoryStep[] => {
+  const byId = new Map(steps.map(node => [node.id, node]));
+  const nodes: StoryNode[] = [];
+  for (let node = byId.get(leafId); node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    nodes.unshift(node);
+  }
+  return nodes.map((node, i) => {
+    const { parentId, choice, ...scene } = node;
+    return { ...scene, ...nodes[i + 1]?.choice };
+  });
+};
+
+/** The branch being played. */
+export const getStoryPath = (session: GameSession): StoryStep[] => getPath(session.steps, session.currentLeafId);
+
+export const getChildren = (steps: StoryNode[], stepId: string): StoryNode[] =>
+  steps.filter(node => node.parentId === stepId);
+
+/** The steps that branch off the same parent as this one, itself included, oldest first. */
+export const getSiblings = (steps: StoryNode[], stepId: string): StoryNode[] => {
+  const node = steps.find(n => n.id === stepId);
+  return node ? steps.filter(n => n.parentId === node.parentId) : [];
+};
+
+/** Where a step stands among the branches that split off at its parent. */
+export interface BranchPosition {
+  position: number;
+  count: number;
+}
+
+export const getBranchPosition = (steps: StoryNode[], stepId: string): BranchPosition => {
+  const siblings = getSiblings(steps, stepId);
+  return { position: siblings.findIndex(node => node.id === stepId), count: siblings.length };
+};
+
+/** The leaf a branch leads to, following the latest branch wherever it splits again. */
+export const getBranchLeaf = (steps: StoryNode[], stepId: string): string => {
+  let children = getChildren(steps, stepId);
+  while (children.length > 0) {
+    stepId = children[children.length - 1].id;
+    children = getChildren(steps, stepId);
+  }
+  return stepId;
+};
+
+/** The step an offered choice on this step already led to, if that branch was explored. */
+export const findChoiceBranch = (steps: StoryNode[], stepId: string, choice: string): StoryNode | undefined =>
+  getChildren(steps, stepId).find(node => node.choice?.choiceMade === choice && !node.choice.isCustomAction);
+
+/**
+ * Adds a new scene after the last step of a path, which must carry the choice that led
+ * to it, and makes its branch the one being played. Other branches are kept.
+ */
+export const appendStep = (session: GameSession, path: StoryStep[], step: StoryStep): GameSession => ({
+  ...session,
+  steps: [...session.steps, toNode(step, path[path.length - 1])],
+  currentLeafId: step.id,
+});
+
+/** Turns a single line of steps, from an older session or a path being forked, into a tree with one branch. */
+export const toStoryTree = <S extends TreeStep>(history: S[]): { steps: TreeNode<S>[]; currentLeafId: string } => ({
+  steps: history.map((step, i) => toNode(step, history[i - 1])),
+  currentLeafId: history[history.length - 1]?.id ?? '',
+});
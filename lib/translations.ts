@@ -6,8 +6,25 @@ export const translations = {
     beginAdventure: "Begin Your Adventure",
     inventory: "Inventory",
     emptyInventory: "Your backpack is empty.",
-    currentQuest: "Current Quest",
+    useItem: "Use",
+    useItemAction: "I use the {item}.",
+    itemWeapon: "Weapon",
+    itemArmor: "Armor",
+    itemConsumable: "Consumable",
+    itemTool: "Tool",
+    itemKey: "Key",
+    itemDocument: "Document",
+    itemTreasure: "Treasure",
+    itemMisc: "Misc",
+    questJournal: "Quest Journal",
     noQuest: "Your quest has not yet been revealed.",
+    questActive: "Active",
+    questCompleted: "Completed",
+    questFailed: "Failed",
+    finishedQuests: "Finished quests",
+    questStarted: "Started in scene {step}",
+    objectiveDone: "scene {step}",
+    questCompletedToast: "Quest completed: {quest}",
     inGameLoadingPrompts: [
       "The world holds its breath...",
       "Destiny is being written...",
@@ -24,14 +41,15 @@ export const translations = {
     ],
     errorStart: "Failed to start the adventure. The world is unstable. Please try again.",
     errorTangled: "The threads of fate are tangled. Please try making a choice again.",
+    errorInvalidResponse: "The storyteller lost the thread and could not be set straight. Please try making a choice again.",
+    errorRateLimited: "The storyteller needs a moment to catch their breath. Please wait a little and try again.",
+    errorUnavailable: "The storyteller cannot be reached right now. Check your connection and try again.",
     errorNarration: "The storyteller's voice has faded. Narration has been disabled.",
     describePrompt: "Please describe your adventure to begin.",
     sessions: "Saved Adventures",
     resume: "Resume",
     delete: "Delete",
     startNew: "Start a New Adventure",
-    branchConfirmTitle: "Change the course of destiny?",
-    branchConfirmMessage: "Choosing a different path will erase your future from this point. This action cannot be undone.",
     cancel: "Cancel",
     confirm: "Confirm",
     newSession: "New Adventure",
@@ -40,6 +58,15 @@ export const translations = {
     generatePromptIdea: "Generate a creative prompt idea",
     generatingIdea: "Generating idea...",
     storyTimeline: "Story Gallery",
+    codex: "Codex",
+    emptyCodex: "No one and nothing of note yet.",
+    codexFirstSeen: "First seen in scene {step}",
+    codexRelated: "Related",
+    codexCharacters: "Characters",
+    codexLocations: "Places",
+    codexFactions: "Factions",
+    codexItems: "Notable Items",
+    codexFacts: "Facts",
     home: "Go to Home",
     narrate: "Narrate",
     narrating: "Narrating...",
@@ -50,6 +77,10 @@ export const translations = {
     voiceChoicePrompt: "What will you do? Your choices are:",
     voiceChoiceUnclear: "I'm sorry, I didn't quite catch that. Could you please repeat your choice?",
     voiceChoiceRetryFail: "I'm having trouble understanding. Please use the buttons to make your choice.",
+    voiceCustomActionHint: "Or tell me anything else you want to try.",
+    customActionPlaceholder: "Or describe what you do...",
+    customActionSubmit: "Act",
+    customActionTaken: "Your action",
     visualStyle: "Visual Style",
     visualStylePlaceholder: "e.g., Ghibli-inspired anime, dark fantasy oil painting, 1950s sci-fi comic...",
     generateStyleIdea: "Generate a creative style idea",
@@ -66,6 +97,167 @@ export const translations = {
     custom: "Custom",
     skip: "Skip",
     speed: "Speed",
+    lookahead: "Look-ahead",
+    lookaheadOff: "Off",
+    lookaheadHint: "Prepares the scenes behind up to {count} choices while you read, using extra API calls. Click to change.",
+    lookaheadOffHint: "Look-ahead is off. Click to prepare upcoming scenes in the background, using extra API calls.",
+    ruleset: "Dice & Stats",
+    rulesetHint: "Give your character health, attributes and skills. Risky choices are decided by a dice roll.",
+    stats: "Character",
+    health: "Health",
+    skills: "Skills",
+    noSkills: "No skills learned yet.",
+    attrStrength: "Strength",
+    attrAgility: "Agility",
+    attrIntellect: "Intellect",
+    attrCharisma: "Charisma",
+    checkLabel: "{attribute} DC {dc}",
+    checkSuccess: "Success",
+    checkFailure: "Failure",
+    checkRolled: "Rolled {roll} {modifier} = {total} against DC {dc}",
+    gameOverMessage: "Your wounds were too grave. Go back a scene to choose another path, or start a new adventure.",
+    endingTitle: "The End",
+    endingMessage: "Your story has reached its end. Read the epilogue, go back a scene to take another path, or start a new adventure.",
+    endingRewind: "Go back a scene",
+    endingVictory: "Victory",
+    endingDefeat: "Defeat",
+    endingBittersweet: "Bittersweet",
+    requestEnding: "End the story",
+    requestEndingAction: "I want to bring this story to its close.",
+    requestEndingConfirmTitle: "Bring the story to a close?",
+    requestEndingConfirmMessage: "The next scene will be the last one, followed by an epilogue. You can still go back to an earlier scene afterwards.",
+    epilogue: "Epilogue",
+    viewEpilogue: "Read the epilogue",
+    writingEpilogue: "Writing the epilogue...",
+    writeEpilogue: "Write the epilogue",
+    errorEpilogue: "The epilogue could not be written. Please try again.",
+    cardScenes: "Scenes",
+    cardQuests: "Quests completed",
+    cardCharacters: "Characters met",
+    pacing: "Story Length",
+    pacingShort: "Short Story",
+    pacingShortHint: "About 10 turns, with a clear beginning, climax and ending. Fits in one sitting.",
+    pacingNovella: "Novella",
+    pacingNovellaHint: "About 30 turns, with room for side quests before the story resolves.",
+    pacingEndless: "Endless",
+    pacingEndlessHint: "No planned length. The story goes on until you end it.",
+    arcSetup: "Setup",
+    arcRising: "Rising Action",
+    arcClimax: "Climax",
+    arcResolution: "Resolution",
+    arcTurn: "Turn {turn} of {total}",
+    difficulty: "Difficulty",
+    difficultyForgiving: "Forgiving",
+    difficultyStandard: "Standard",
+    difficultyHarsh: "Harsh",
+    difficultyHint: "How forgiving the story is when a choice goes wrong.",
+    contentRating: "Content Rating",
+    ratingAllAges: "All Ages",
+    ratingTeen: "Teen",
+    ratingMature: "Mature",
+    ratingAllAgesHint: "Family-friendly: no blood, scary horror or mature themes. Every scene is checked before it is shown.",
+    ratingTeenHint: "Action and peril, but nothing graphic. Every scene is checked before it is shown.",
+    ratingMatureHint: "Dark themes and violence where the story calls for them.",
+    errorUnsuitableContent: "The next scene did not fit this adventure's content rating. Please try again or choose differently.",
+    scenario: "Scenario",
+    scenarioFreeform: "Freeform",
+    scenarioFreeformHint: "Start from your own idea.",
+    scenarioHint: "Import a scenario pack file to start adventures in a premade world.",
+    scenarioDescription: "The scenario sets the world, the starting point and the quest. Add your own touch if you like.",
+    scenarioPlaceholder: "Optional: describe your character or how the adventure should begin.",
+    scenarioStyle: "This scenario brings its own visual style:",
+    exportScenario: "Export scenario pack",
+    importScenarioSuccess: "Imported {count} scenario pack(s).",
+    deleteScenarioConfirmTitle: "Delete Scenario Pack?",
+    deleteScenarioConfirm: "The scenario pack will be removed from this device. Adventures started from it are kept.",
+    newScenario: "New scenario",
+    editScenario: "Edit scenario",
+    errorSaveScenario: "Could not save the scenario pack.",
+    editorTitle: "New scenario",
+    editorSave: "Save",
+    editorErrors: "The scenario can't be saved yet:",
+    editorPackTitle: "Title",
+    editorLocation: "Starting location",
+    editorLore: "World lore",
+    editorStartingQuest: "Starting quest",
+    editorStyle: "Visual style (optional)",
+    editorToneRules: "Tone rules (one per line)",
+    editorScenes: "Scripted scenes",
+    editorScenesHint: "Fixed scenes are played exactly as written; generated scenes give the AI a brief to follow. The AI improvises everything in between, and leads into scenes with a trigger when the story reaches that moment.",
+    editorFixed: "Fixed",
+    editorGenerative: "Generated",
+    editorStart: "Start",
+    editorNoScenes: "No scripted scenes: the AI improvises the whole adventure.",
+    editorLabel: "Name",
+    editorKind: "Kind",
+    editorIsStart: "Opening scene",
+    editorTrigger: "Trigger (optional)",
+    editorTriggerHint: "e.g. the player reaches the old lighthouse",
+    editorStory: "Story",
+    editorChoices: "Choices",
+    editorAddChoice: "Add choice",
+    editorImprovise: "AI improvises",
+    editorImage: "Image",
+    editorImageUploaded: "Uploaded image",
+    editorUpload: "Upload",
+    editorImagePrompt: "Image prompt",
+    editorImagePromptHint: "Used to draw the scene when it has no image",
+    editorQuest: "Quest",
+    editorMood: "Mood",
+    editorEnding: "Ending",
+    editorNoEnding: "Story continues",
+    editorBrief: "Brief",
+    editorBriefHint: "What must happen in this scene, e.g. the dragon attacks the bridge and the player must choose whom to save",
+    editorNext: "Then leads to",
+    previousBranch: "Previous branch",
+    nextBranch: "Next branch",
+    branchMap: "Branch map",
+    branchMapHint: "Every scene and the choices between them. Click a scene to go to it, drag to pan and scroll to zoom.",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    unexploredChoice: "Not explored yet: go to this scene to take it.",
+    rerollScene: "Play this scene again",
+    regenerateImage: "Redraw the image",
+    imagePromptLabel: "Image prompt",
+    imagePromptHint: "Describe what the image shows, in English. Leave it empty to draw from the scene's text.",
+    regenerate: "Redraw",
+    editScene: "Edit this scene",
+    editSceneHint: "The story will treat your version as what happened.",
+    editedByPlayer: "Edited",
+    sceneVersions: "Earlier versions",
+    noVersions: "This scene has no earlier versions.",
+    revertVersion: "Restore",
+    revertKeepsLaterScenes: "Later scenes were played from this one, so restoring a version brings back its text, choices and image only.",
+    versionReplacedByReroll: "Replaced by a new take on {date}",
+    versionReplacedByImage: "Image redrawn on {date}",
+    versionReplacedByEdit: "Edited on {date}",
+    versionReplacedByRevert: "Replaced by a restored version on {date}",
+    errorRegenerateImage: "The image could not be redrawn. Please try again.",
+    forkFromHere: "Fork a new adventure from this scene",
+    forkTitle: "{title} (fork {number})",
+    forkCreatedToast: "Now playing \"{title}\". The original adventure is unchanged.",
+    forkedFrom: "Forked from \"{title}\"",
+    errorSessionQuarantined: "This adventure could not be read and was set aside: {errors}",
+    importQuarantined: "{count} adventure(s) in the file could not be read and were set aside: {errors}",
+    quarantineNotice: "{count} adventure(s) could not be read and were set aside.",
+    quarantineDownload: "Download",
+    quarantineDiscard: "Discard",
+    quarantineDetails: "What went wrong",
+    quarantineFromImport: "imported file",
+    quarantineFromStorage: "saved in this browser",
+    watchingNotice: "This adventure is being played in another tab. You are watching it here, and it updates whenever the other tab saves.",
+    playHereInstead: "Play here instead",
+    watchHere: "Watch here",
+    openInTwoTabsWarning: "This adventure is also being played in another tab. Whichever tab saves last overwrites the other's progress, so keep playing in only one of them.",
+    sessionOpenElsewhereTitle: "Already being played",
+    sessionOpenElsewhere: "This adventure is open in another tab. You can watch it here without making changes, or play it here instead, which leaves the other tab watching.",
+    errorSessionOpenElsewhere: "This adventure is being played in another tab. Leave it there before deleting it.",
+    errorSessionDeletedElsewhere: "The adventure you were watching was deleted in another tab.",
+    generationRetriedOnce: "The storyteller was busy; the scene came through after a retry.",
+    generationRetried: "The storyteller was busy; the scene came through after {count} retries.",
+    generationRepaired: "The scene had to be asked for again because the first answer was malformed.",
+    generationRewrittenForRating: "The scene was rewritten to fit the adventure's content rating.",
+    close: "Close",
   },
   es: {
     title: "ForjaSagas",
@@ -74,8 +266,25 @@ export const translations = {
     beginAdventure: "Comienza Tu Aventura",
     inventory: "Inventario",
     emptyInventory: "Tu mochila está vacía.",
-    currentQuest: "Misión Actual",
+    useItem: "Usar",
+    useItemAction: "Uso el objeto: {item}.",
+    itemWeapon: "Arma",
+    itemArmor: "Armadura",
+    itemConsumable: "Consumible",
+    itemTool: "Herramienta",
+    itemKey: "Llave",
+    itemDocument: "Documento",
+    itemTreasure: "Tesoro",
+    itemMisc: "Varios",
+    questJournal: "Diario de Misiones",
     noQuest: "Tu misión aún no ha sido revelada.",
+    questActive: "Activa",
+    questCompleted: "Completada",
+    questFailed: "Fallida",
+    finishedQuests: "Misiones terminadas",
+    questStarted: "Iniciada en la escena {step}",
+    objectiveDone: "escena {step}",
+    questCompletedToast: "Misión completada: {quest}",
     inGameLoadingPrompts: [
       "El mundo contiene la respiración...",
       "El destino se está escribiendo...",
@@ -92,14 +301,15 @@ export const translations = {
     ],
     errorStart: "No se pudo iniciar la aventura. El mundo es inestable. Por favor, inténtalo de nuevo.",
     errorTangled: "Los hilos del destino están enredados. Por favor, intenta tomar una decisión de nuevo.",
+    errorInvalidResponse: "El narrador perdió el hilo y no pudo retomarlo. Por favor, intenta tomar una decisión de nuevo.",
+    errorRateLimited: "El narrador necesita recuperar el aliento. Espera un momento e inténtalo de nuevo.",
+    errorUnavailable: "No se puede contactar con el narrador ahora mismo. Comprueba tu conexión e inténtalo de nuevo.",
     errorNarration: "La voz del narrador se ha desvanecido. La narración ha sido desactivada.",
     describePrompt: "Por favor, describe tu aventura para comenzar.",
     sessions: "Aventuras Guardadas",
     resume: "Continuar",
     delete: "Eliminar",
     startNew: "Comenzar Nueva Aventura",
-    branchConfirmTitle: "¿Cambiar el curso del destino?",
-    branchConfirmMessage: "Elegir un camino diferente borrará tu futuro desde este punto. Esta acción no se puede deshacer.",
     cancel: "Cancelar",
     confirm: "Confirmar",
     newSession: "Nueva Aventura",
@@ -108,6 +318,15 @@ export const translations = {
     generatePromptIdea: "Generar una idea de aventura",
     generatingIdea: "Generando idea...",
     storyTimeline: "El Camino Recorrido",
+    codex: "Códice",
+    emptyCodex: "Aún no hay nadie ni nada destacable.",
+    codexFirstSeen: "Visto por primera vez en la escena {step}",
+    codexRelated: "Relacionado",
+    codexCharacters: "Personajes",
+    codexLocations: "Lugares",
+    codexFactions: "Facciones",
+    codexItems: "Objetos Notables",
+    codexFacts: "Hechos",
     home: "Ir al Inicio",
     narrate: "Narrar",
     narrating: "Narrando...",
@@ -118,6 +337,10 @@ export const translations = {
     voiceChoicePrompt: "¿Qué harás? Tus opciones son:",
     voiceChoiceUnclear: "Lo siento, no te he entendido bien. ¿Podrías repetir tu elección?",
     voiceChoiceRetryFail: "Tengo problemas para entender. Por favor, usa los botones para hacer tu elección.",
+    voiceCustomActionHint: "O dime cualquier otra cosa que quieras intentar.",
+    customActionPlaceholder: "O describe lo que haces...",
+    customActionSubmit: "Actuar",
+    customActionTaken: "Tu acción",
     visualStyle: "Estilo Visual",
     visualStylePlaceholder: "Ej: Anime inspirado en Ghibli, pintura al óleo de fantasía oscura, cómic sci-fi de los 50...",
     generateStyleIdea: "Generar una idea de estilo",
@@ -134,6 +357,167 @@ export const translations = {
     custom: "Personalizado",
     skip: "Saltar",
     speed: "Velocidad",
+    lookahead: "Anticipación",
+    lookaheadOff: "No",
+    lookaheadHint: "Prepara las escenas de hasta {count} opciones mientras lees, con llamadas extra a la API. Haz clic para cambiar.",
+    lookaheadOffHint: "La anticipación está desactivada. Haz clic para preparar las próximas escenas en segundo plano, con llamadas extra a la API.",
+    ruleset: "Dados y Estadísticas",
+    rulesetHint: "Da a tu personaje salud, atributos y habilidades. Las decisiones arriesgadas se resuelven con una tirada de dados.",
+    stats: "Personaje",
+    health: "Salud",
+    skills: "Habilidades",
+    noSkills: "Aún no has aprendido habilidades.",
+    attrStrength: "Fuerza",
+    attrAgility: "Agilidad",
+    attrIntellect: "Intelecto",
+    attrCharisma: "Carisma",
+    checkLabel: "{attribute} CD {dc}",
+    checkSuccess: "Éxito",
+    checkFailure: "Fallo",
+    checkRolled: "Sacaste {roll} {modifier} = {total} contra CD {dc}",
+    gameOverMessage: "Tus heridas fueron demasiado graves. Vuelve una escena atrás para elegir otro camino, o comienza una nueva aventura.",
+    endingTitle: "Fin",
+    endingMessage: "Tu historia ha llegado a su fin. Lee el epílogo, vuelve una escena atrás para tomar otro camino, o comienza una nueva aventura.",
+    endingRewind: "Volver una escena",
+    endingVictory: "Victoria",
+    endingDefeat: "Derrota",
+    endingBittersweet: "Agridulce",
+    requestEnding: "Terminar la historia",
+    requestEndingAction: "Quiero llevar esta historia a su final.",
+    requestEndingConfirmTitle: "¿Llevar la historia a su final?",
+    requestEndingConfirmMessage: "La próxima escena será la última, seguida de un epílogo. Después aún podrás volver a una escena anterior.",
+    epilogue: "Epílogo",
+    viewEpilogue: "Leer el epílogo",
+    writingEpilogue: "Escribiendo el epílogo...",
+    writeEpilogue: "Escribir el epílogo",
+    errorEpilogue: "No se pudo escribir el epílogo. Inténtalo de nuevo.",
+    cardScenes: "Escenas",
+    cardQuests: "Misiones completadas",
+    cardCharacters: "Personajes conocidos",
+    pacing: "Duración de la Historia",
+    pacingShort: "Relato Corto",
+    pacingShortHint: "Unos 10 turnos, con un inicio, un clímax y un final claros. Cabe en una sola sesión.",
+    pacingNovella: "Novela Corta",
+    pacingNovellaHint: "Unos 30 turnos, con espacio para misiones secundarias antes del desenlace.",
+    pacingEndless: "Sin Fin",
+    pacingEndlessHint: "Sin duración prevista. La historia sigue hasta que tú la termines.",
+    arcSetup: "Planteamiento",
+    arcRising: "Nudo",
+    arcClimax: "Clímax",
+    arcResolution: "Desenlace",
+    arcTurn: "Turno {turn} de {total}",
+    difficulty: "Dificultad",
+    difficultyForgiving: "Indulgente",
+    difficultyStandard: "Normal",
+    difficultyHarsh: "Implacable",
+    difficultyHint: "Cuánto perdona la historia cuando una decisión sale mal.",
+    contentRating: "Clasificación",
+    ratingAllAges: "Todos los Públicos",
+    ratingTeen: "Adolescentes",
+    ratingMature: "Adultos",
+    ratingAllAgesHint: "Apta para toda la familia: sin sangre, terror ni temas adultos. Cada escena se revisa antes de mostrarse.",
+    ratingTeenHint: "Acción y peligro, pero nada explícito. Cada escena se revisa antes de mostrarse.",
+    ratingMatureHint: "Temas oscuros y violencia cuando la historia lo pide.",
+    errorUnsuitableContent: "La siguiente escena no se ajustaba a la clasificación de esta aventura. Inténtalo de nuevo o elige otra opción.",
+    scenario: "Escenario",
+    scenarioFreeform: "Libre",
+    scenarioFreeformHint: "Empieza con tu propia idea.",
+    scenarioHint: "Importa un archivo de escenario para empezar aventuras en un mundo prediseñado.",
+    scenarioDescription: "El escenario define el mundo, el punto de partida y la misión. Añade tu toque personal si quieres.",
+    scenarioPlaceholder: "Opcional: describe a tu personaje o cómo debe empezar la aventura.",
+    scenarioStyle: "Este escenario trae su propio estilo visual:",
+    exportScenario: "Exportar escenario",
+    importScenarioSuccess: "Se importaron {count} escenario(s).",
+    deleteScenarioConfirmTitle: "¿Eliminar Escenario?",
+    deleteScenarioConfirm: "El escenario se eliminará de este dispositivo. Las aventuras empezadas con él se conservan.",
+    newScenario: "Nuevo escenario",
+    editScenario: "Editar escenario",
+    errorSaveScenario: "No se pudo guardar el escenario.",
+    editorTitle: "Nuevo escenario",
+    editorSave: "Guardar",
+    editorErrors: "Aún no se puede guardar el escenario:",
+    editorPackTitle: "Título",
+    editorLocation: "Lugar de inicio",
+    editorLore: "Historia del mundo",
+    editorStartingQuest: "Misión inicial",
+    editorStyle: "Estilo visual (opcional)",
+    editorToneRules: "Reglas de tono (una por línea)",
+    editorScenes: "Escenas guionizadas",
+    editorScenesHint: "Las escenas fijas se juegan tal como están escritas; las generadas dan a la IA unas indicaciones que seguir. La IA improvisa todo lo demás y lleva a las escenas con desencadenante cuando la historia llega a ese momento.",
+    editorFixed: "Fija",
+    editorGenerative: "Generada",
+    editorStart: "Inicio",
+    editorNoScenes: "Sin escenas guionizadas: la IA improvisa toda la aventura.",
+    editorLabel: "Nombre",
+    editorKind: "Tipo",
+    editorIsStart: "Escena inicial",
+    editorTrigger: "Desencadenante (opcional)",
+    editorTriggerHint: "p. ej. el jugador llega al viejo faro",
+    editorStory: "Historia",
+    editorChoices: "Opciones",
+    editorAddChoice: "Añadir opción",
+    editorImprovise: "La IA improvisa",
+    editorImage: "Imagen",
+    editorImageUploaded: "Imagen subida",
+    editorUpload: "Subir",
+    editorImagePrompt: "Descripción de la imagen",
+    editorImagePromptHint: "Se usa para dibujar la escena si no tiene imagen",
+    editorQuest: "Misión",
+    editorMood: "Ambiente",
+    editorEnding: "Final",
+    editorNoEnding: "La historia continúa",
+    editorBrief: "Indicaciones",
+    editorBriefHint: "Lo que debe ocurrir en esta escena, p. ej. el dragón ataca el puente y el jugador debe elegir a quién salvar",
+    editorNext: "Después lleva a",
+    previousBranch: "Rama anterior",
+    nextBranch: "Rama siguiente",
+    branchMap: "Mapa de ramas",
+    branchMapHint: "Todas las escenas y las decisiones entre ellas. Haz clic en una escena para ir a ella, arrastra para moverte y usa la rueda para acercar.",
+    zoomIn: "Acercar",
+    zoomOut: "Alejar",
+    unexploredChoice: "Aún sin explorar: ve a esta escena para elegirla.",
+    rerollScene: "Volver a jugar esta escena",
+    regenerateImage: "Redibujar la imagen",
+    imagePromptLabel: "Descripción de la imagen",
+    imagePromptHint: "Describe lo que muestra la imagen, en inglés. Déjalo vacío para dibujarla a partir del texto de la escena.",
+    regenerate: "Redibujar",
+    editScene: "Editar esta escena",
+    editSceneHint: "La historia tratará tu versión como lo que ocurrió.",
+    editedByPlayer: "Editada",
+    sceneVersions: "Versiones anteriores",
+    noVersions: "Esta escena no tiene versiones anteriores.",
+    revertVersion: "Restaurar",
+    revertKeepsLaterScenes: "Ya se jugaron escenas posteriores a esta, así que restaurar una versión solo recupera su texto, opciones e imagen.",
+    versionReplacedByReroll: "Reemplazada por otra versión el {date}",
+    versionReplacedByImage: "Imagen redibujada el {date}",
+    versionReplacedByEdit: "Editada el {date}",
+    versionReplacedByRevert: "Reemplazada por una versión restaurada el {date}",
+    errorRegenerateImage: "No se pudo redibujar la imagen. Por favor, inténtalo de nuevo.",
+    forkFromHere: "Crear una nueva aventura desde esta escena",
+    forkTitle: "{title} (copia {number})",
+    forkCreatedToast: "Ahora juegas \"{title}\". La aventura original no ha cambiado.",
+    forkedFrom: "Copiada de \"{title}\"",
+    errorSessionQuarantined: "No se pudo leer esta aventura y se apartó: {errors}",
+    importQuarantined: "{count} aventura(s) del archivo no se pudieron leer y se apartaron: {errors}",
+    quarantineNotice: "{count} aventura(s) no se pudieron leer y se apartaron.",
+    quarantineDownload: "Descargar",
+    quarantineDiscard: "Descartar",
+    quarantineDetails: "Qué salió mal",
+    quarantineFromImport: "archivo importado",
+    quarantineFromStorage: "guardada en este navegador",
+    watchingNotice: "Esta aventura se está jugando en otra pestaña. Aquí la estás viendo, y se actualiza cada vez que la otra pestaña guarda.",
+    playHereInstead: "Jugar aquí",
+    watchHere: "Ver aquí",
+    openInTwoTabsWarning: "Esta aventura también se está jugando en otra pestaña. La pestaña que guarde la última sobrescribe el progreso de la otra, así que sigue jugando solo en una de ellas.",
+    sessionOpenElsewhereTitle: "Ya se está jugando",
+    sessionOpenElsewhere: "Esta aventura está abierta en otra pestaña. Puedes verla aquí sin hacer cambios, o jugarla aquí, y la otra pestaña pasará a solo verla.",
+    errorSessionOpenElsewhere: "Esta aventura se está jugando en otra pestaña. Sal de ella allí antes de borrarla.",
+    errorSessionDeletedElsewhere: "La aventura que estabas viendo se borró en otra pestaña.",
+    generationRetriedOnce: "El narrador estaba ocupado; la escena llegó tras un reintento.",
+    generationRetried: "El narrador estaba ocupado; la escena llegó tras {count} reintentos.",
+    generationRepaired: "Hubo que pedir la escena de nuevo porque la primera respuesta estaba mal formada.",
+    generationRewrittenForRating: "La escena se reescribió para ajustarse a la clasificación de contenido de la aventura.",
+    close: "Cerrar",
   },
   pt: {
     title: "ForjaSagas",
@@ -142,8 +526,25 @@ export const translations = {
     beginAdventure: "Começa a Tua Aventura",
     inventory: "Inventário",
     emptyInventory: "A tua mochila está vazia.",
-    currentQuest: "Missão Atual",
+    useItem: "Usar",
+    useItemAction: "Uso o objeto: {item}.",
+    itemWeapon: "Arma",
+    itemArmor: "Armadura",
+    itemConsumable: "Consumível",
+    itemTool: "Ferramenta",
+    itemKey: "Chave",
+    itemDocument: "Documento",
+    itemTreasure: "Tesouro",
+    itemMisc: "Diversos",
+    questJournal: "Diário de Missões",
     noQuest: "A tua missão ainda não foi revelada.",
+    questActive: "Ativa",
+    questCompleted: "Concluída",
+    questFailed: "Falhada",
+    finishedQuests: "Missões terminadas",
+    questStarted: "Iniciada na cena {step}",
+    objectiveDone: "cena {step}",
+    questCompletedToast: "Missão concluída: {quest}",
     inGameLoadingPrompts: [
       "O mundo prende a respiração...",
       "O destino está a ser escrito...",
@@ -160,14 +561,15 @@ export const translations = {
     ],
     errorStart: "Falha ao iniciar la aventura. O mundo está instável. Por favor, tenta novamente.",
     errorTangled: "Os fios do destino estão emaranhados. Por favor, tenta fazer uma escolha novamente.",
+    errorInvalidResponse: "O narrador perdeu o fio à meada e não o conseguiu recuperar. Por favor, tenta fazer uma escolha novamente.",
+    errorRateLimited: "O narrador precisa de recuperar o fôlego. Espera um pouco e tenta novamente.",
+    errorUnavailable: "Não é possível contactar o narrador neste momento. Verifica a tua ligação e tenta novamente.",
     errorNarration: "A voz do narrador desvaneceu-se. A narração foi desativada.",
     describePrompt: "Por favor, descreve a tua aventura para começar.",
     sessions: "Aventuras Guardadas",
     resume: "Continuar",
     delete: "Eliminar",
     startNew: "Começar Nova Aventura",
-    branchConfirmTitle: "Mudar o curso do destino?",
-    branchConfirmMessage: "Escolher um caminho diferente irá apagar o teu futuro a partir deste ponto. Esta ação não pode ser desfeita.",
     cancel: "Cancelar",
     confirm: "Confirmar",
     newSession: "Nova Aventura",
@@ -176,6 +578,15 @@ export const translations = {
     generatePromptIdea: "Gerar uma ideia de aventura",
     generatingIdea: "A gerar ideia...",
     storyTimeline: "Galeria da História",
+    codex: "Códice",
+    emptyCodex: "Ainda não há ninguém nem nada digno de nota.",
+    codexFirstSeen: "Visto pela primeira vez na cena {step}",
+    codexRelated: "Relacionado",
+    codexCharacters: "Personagens",
+    codexLocations: "Locais",
+    codexFactions: "Fações",
+    codexItems: "Objetos Notáveis",
+    codexFacts: "Factos",
     home: "Ir para o Início",
     narrate: "Narrar",
     narrating: "A narrar...",
@@ -186,6 +597,10 @@ export const translations = {
     voiceChoicePrompt: "O que vais fazer? As tuas escolhas são:",
     voiceChoiceUnclear: "Desculpa, não percebi bem. Podes repetir a tua escolha?",
     voiceChoiceRetryFail: "Estou com dificuldades em perceber. Por favor, usa os botões para fazer a tua escolha.",
+    voiceCustomActionHint: "Ou diz-me qualquer outra coisa que queiras tentar.",
+    customActionPlaceholder: "Ou descreve o que fazes...",
+    customActionSubmit: "Agir",
+    customActionTaken: "A tua ação",
     visualStyle: "Estilo Visual",
     visualStylePlaceholder: "Ex: Anime inspirado no Ghibli, pintura a óleo de fantasia sombria, banda desenhada de ficção científica dos anos 50...",
     generateStyleIdea: "Gerar uma ideia de estilo",
@@ -202,5 +617,166 @@ export const translations = {
     custom: "Personalizado",
     skip: "Saltar",
     speed: "Velocidade",
+    lookahead: "Antecipação",
+    lookaheadOff: "Não",
+    lookaheadHint: "Prepara as cenas de até {count} escolhas enquanto lês, com chamadas extra à API. Clica para mudar.",
+    lookaheadOffHint: "A antecipação está desligada. Clica para preparar as próximas cenas em segundo plano, com chamadas extra à API.",
+    ruleset: "Dados e Atributos",
+    rulesetHint: "Dá à tua personagem vida, atributos e perícias. As escolhas arriscadas são decididas por um lançamento de dados.",
+    stats: "Personagem",
+    health: "Vida",
+    skills: "Perícias",
+    noSkills: "Ainda não aprendeste perícias.",
+    attrStrength: "Força",
+    attrAgility: "Agilidade",
+    attrIntellect: "Intelecto",
+    attrCharisma: "Carisma",
+    checkLabel: "{attribute} CD {dc}",
+    checkSuccess: "Sucesso",
+    checkFailure: "Falha",
+    checkRolled: "Tiraste {roll} {modifier} = {total} contra CD {dc}",
+    gameOverMessage: "Os teus ferimentos foram demasiado graves. Volta uma cena atrás para escolher outro caminho, ou começa uma nova aventura.",
+    endingTitle: "Fim",
+    endingMessage: "A tua história chegou ao fim. Lê o epílogo, volta uma cena atrás para seguir outro caminho, ou começa uma nova aventura.",
+    endingRewind: "Voltar uma cena",
+    endingVictory: "Vitória",
+    endingDefeat: "Derrota",
+    endingBittersweet: "Agridoce",
+    requestEnding: "Terminar a história",
+    requestEndingAction: "Quero levar esta história ao seu fim.",
+    requestEndingConfirmTitle: "Levar a história ao fim?",
+    requestEndingConfirmMessage: "A próxima cena será a última, seguida de um epílogo. Depois ainda poderás voltar a uma cena anterior.",
+    epilogue: "Epílogo",
+    viewEpilogue: "Ler o epílogo",
+    writingEpilogue: "A escrever o epílogo...",
+    writeEpilogue: "Escrever o epílogo",
+    errorEpilogue: "Não foi possível escrever o epílogo. Tenta novamente.",
+    cardScenes: "Cenas",
+    cardQuests: "Missões concluídas",
+    cardCharacters: "Personagens conhecidas",
+    pacing: "Duração da História",
+    pacingShort: "Conto",
+    pacingShortHint: "Cerca de 10 turnos, com um início, um clímax e um final claros. Cabe numa só sessão.",
+    pacingNovella: "Novela",
+    pacingNovellaHint: "Cerca de 30 turnos, com espaço para missões secundárias antes do desfecho.",
+    pacingEndless: "Sem Fim",
+    pacingEndlessHint: "Sem duração prevista. A história continua até a terminares.",
+    arcSetup: "Apresentação",
+    arcRising: "Desenvolvimento",
+    arcClimax: "Clímax",
+    arcResolution: "Desfecho",
+    arcTurn: "Turno {turn} de {total}",
+    difficulty: "Dificuldade",
+    difficultyForgiving: "Tolerante",
+    difficultyStandard: "Normal",
+    difficultyHarsh: "Implacável",
+    difficultyHint: "Quanto a história perdoa quando uma escolha corre mal.",
+    contentRating: "Classificação",
+    ratingAllAges: "Todas as Idades",
+    ratingTeen: "Adolescentes",
+    ratingMature: "Adultos",
+    ratingAllAgesHint: "Para toda a família: sem sangue, terror ou temas adultos. Cada cena é verificada antes de ser mostrada.",
+    ratingTeenHint: "Ação e perigo, mas nada explícito. Cada cena é verificada antes de ser mostrada.",
+    ratingMatureHint: "Temas sombrios e violência quando a história o pede.",
+    errorUnsuitableContent: "A próxima cena não respeitava a classificação desta aventura. Tenta novamente ou escolhe outra opção.",
+    scenario: "Cenário",
+    scenarioFreeform: "Livre",
+    scenarioFreeformHint: "Começa a partir da tua própria ideia.",
+    scenarioHint: "Importa um ficheiro de cenário para começar aventuras num mundo pré-definido.",
+    scenarioDescription: "O cenário define o mundo, o ponto de partida e a missão. Acrescenta o teu toque pessoal, se quiseres.",
+    scenarioPlaceholder: "Opcional: descreve a tua personagem ou como a aventura deve começar.",
+    scenarioStyle: "Este cenário traz o seu próprio estilo visual:",
+    exportScenario: "Exportar cenário",
+    importScenarioSuccess: "{count} cenário(s) importado(s).",
+    deleteScenarioConfirmTitle: "Eliminar Cenário?",
+    deleteScenarioConfirm: "O cenário será removido deste dispositivo. As aventuras começadas com ele são mantidas.",
+    newScenario: "Novo cenário",
+    editScenario: "Editar cenário",
+    errorSaveScenario: "Não foi possível guardar o cenário.",
+    editorTitle: "Novo cenário",
+    editorSave: "Guardar",
+    editorErrors: "O cenário ainda não pode ser guardado:",
+    editorPackTitle: "Título",
+    editorLocation: "Local de partida",
+    editorLore: "História do mundo",
+    editorStartingQuest: "Missão inicial",
+    editorStyle: "Estilo visual (opcional)",
+    editorToneRules: "Regras de tom (uma por linha)",
+    editorScenes: "Cenas guionizadas",
+    editorScenesHint: "As cenas fixas são jogadas tal como foram escritas; as geradas dão à IA indicações a seguir. A IA improvisa tudo o resto e leva às cenas com gatilho quando a história chega a esse momento.",
+    editorFixed: "Fixa",
+    editorGenerative: "Gerada",
+    editorStart: "Início",
+    editorNoScenes: "Sem cenas guionizadas: a IA improvisa toda a aventura.",
+    editorLabel: "Nome",
+    editorKind: "Tipo",
+    editorIsStart: "Cena inicial",
+    editorTrigger: "Gatilho (opcional)",
+    editorTriggerHint: "p. ex. o jogador chega ao velho farol",
+    editorStory: "História",
+    editorChoices: "Opções",
+    editorAddChoice: "Adicionar opção",
+    editorImprovise: "A IA improvisa",
+    editorImage: "Imagem",
+    editorImageUploaded: "Imagem carregada",
+    editorUpload: "Carregar",
+    editorImagePrompt: "Descrição da imagem",
+    editorImagePromptHint: "Usada para desenhar a cena quando não tem imagem",
+    editorQuest: "Missão",
+    editorMood: "Ambiente",
+    editorEnding: "Final",
+    editorNoEnding: "A história continua",
+    editorBrief: "Indicações",
+    editorBriefHint: "O que tem de acontecer nesta cena, p. ex. o dragão ataca a ponte e o jogador tem de escolher quem salvar",
+    editorNext: "Depois leva a",
+    previousBranch: "Ramo anterior",
+    nextBranch: "Ramo seguinte",
+    branchMap: "Mapa de ramos",
+    branchMapHint: "Todas as cenas e as escolhas entre elas. Clica numa cena para ir até ela, arrasta para mover e usa a roda para aproximar.",
+    zoomIn: "Aproximar",
+    zoomOut: "Afastar",
+    unexploredChoice: "Ainda por explorar: vai a esta cena para a escolher.",
+    rerollScene: "Jogar esta cena de novo",
+    regenerateImage: "Redesenhar a imagem",
+    imagePromptLabel: "Descrição da imagem",
+    imagePromptHint: "Descreva o que a imagem mostra, em inglês. Deixe vazio para desenhá-la a partir do texto da cena.",
+    regenerate: "Redesenhar",
+    editScene: "Editar esta cena",
+    editSceneHint: "A história tratará sua versão como o que aconteceu.",
+    editedByPlayer: "Editada",
+    sceneVersions: "Versões anteriores",
+    noVersions: "Esta cena não tem versões anteriores.",
+    revertVersion: "Restaurar",
+    revertKeepsLaterScenes: "Cenas posteriores já foram jogadas a partir desta, então restaurar uma versão recupera apenas seu texto, opções e imagem.",
+    versionReplacedByReroll: "Substituída por outra versão em {date}",
+    versionReplacedByImage: "Imagem redesenhada em {date}",
+    versionReplacedByEdit: "Editada em {date}",
+    versionReplacedByRevert: "Substituída por uma versão restaurada em {date}",
+    errorRegenerateImage: "Não foi possível redesenhar a imagem. Por favor, tente novamente.",
+    forkFromHere: "Criar uma nova aventura a partir desta cena",
+    forkTitle: "{title} (cópia {number})",
+    forkCreatedToast: "Agora jogando \"{title}\". A aventura original não foi alterada.",
+    forkedFrom: "Copiada de \"{title}\"",
+    errorSessionQuarantined: "Não foi possível ler esta aventura e ela foi separada: {errors}",
+    importQuarantined: "{count} aventura(s) do arquivo não puderam ser lidas e foram separadas: {errors}",
+    quarantineNotice: "{count} aventura(s) não puderam ser lidas e foram separadas.",
+    quarantineDownload: "Baixar",
+    quarantineDiscard: "Descartar",
+    quarantineDetails: "O que deu errado",
+    quarantineFromImport: "arquivo importado",
+    quarantineFromStorage: "salva neste navegador",
+    watchingNotice: "Esta aventura está sendo jogada em outra aba. Aqui você a está assistindo, e ela se atualiza sempre que a outra aba salva.",
+    playHereInstead: "Jogar aqui",
+    watchHere: "Assistir aqui",
+    openInTwoTabsWarning: "Esta aventura também está sendo jogada em outra aba. A aba que salvar por último sobrescreve o progresso da outra, então continue jogando em apenas uma delas.",
+    sessionOpenElsewhereTitle: "Já está sendo jogada",
+    sessionOpenElsewhere: "Esta aventura está aberta em outra aba. Você pode assisti-la aqui sem fazer alterações, ou jogá-la aqui, e a outra aba passa a apenas assistir.",
+    errorSessionOpenElsewhere: "Esta aventura está sendo jogada em outra aba. Saia dela lá antes de excluí-la.",
+    errorSessionDeletedElsewhere: "A aventura que você estava assistindo foi excluída em outra aba.",
+    generationRetriedOnce: "O narrador estava ocupado; a cena chegou após uma nova tentativa.",
+    generationRetried: "O narrador estava ocupado; a cena chegou após {count} novas tentativas.",
+    generationRepaired: "A cena teve de ser pedida de novo porque a primeira resposta veio malformada.",
+    generationRewrittenForRating: "A cena foi reescrita para se ajustar à classificação de conteúdo da aventura.",
+    close: "Fechar",
   }
 };
@@ -0,0 +1,146 @@
+import { GoogleGenAI, Type, Modality, Schema } from "@google/genai";
+import { StoryProvider } from "./storyProvider";
+import { JsonSchema, sceneJsonSchema } from "./sceneSchema";
+
+const textModel = 'gemini-2.5-flash';
+const ideaModel = 'gemini-flash-lite-latest';
+const highQualityImageModel = 'imagen-4.0-generate-001';
+const fastImageModel = 'gemini-2.5-flash-image';
+const speechModel = 'gemini-2.5-flash-preview-tts';
+
+// Gemini's responseSchema uses the OpenAPI flavour of JSON Schema with upper-case type names.
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  }),
+});
+
+const responseSchema = toGeminiSchema(sceneJsonSchema);
+
+// Only base64 data URLs can be sent as inline image parts; anything else is skipped.
+const toInlineImagePart = (dataUrl: string) => {
+  const match = /^data:(image\/[\w.+-]+);base64,(.+)$/.exec(dataUrl);
+  return match ? { inlineData: { mimeType: match[1], data: match[2] } } : null;
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): StoryProvider => {
+  if (!apiKey) {
+    throw new Error("API_KEY environment variable not set");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+
+    generateScene: async ({ prompt, systemInstruction, onProgress, signal }) => {
+      const request = {
+          model: textModel,
+          contents: prompt,
+          config: {
+              systemInstruction,
+              responseMimeType: "application/json",
+              responseSchema: responseSchema,
+              temperature: 0.9,
+              abortSignal: signal,
+          }
+      };
+
+      if (!onProgress) {
+        const response = await ai.models.generateContent(request);
+        return response.text.trim();
+      }
+
+      let text = '';
+      const stream = await ai.models.generateContentStream(request);
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        onProgress(text);
+      }
+      return text.trim();
+    },
+
+    generateText: async ({ prompt, temperature }) => {
+      const response = await ai.models.generateContent({
+        model: ideaModel,
+        contents: prompt,
+        config: {
+            temperature,
+        }
+      });
+
+      return response.text.trim();
+    },
+
+    interpretChoice: async ({ prompt }) => {
+      const response = await ai.models.generateContent({
+          model: textModel,
+          contents: prompt,
+          config: {
+              temperature: 0.1
+          }
+      });
+
+      return response.text.trim();
+    },
+
+    generateImage: async ({ prompt, quality, aspectRatio, referenceImages = [], signal }) => {
+      if (quality === 'fast') {
+          // The fast model takes reference images as extra parts ahead of the prompt;
+          // Imagen has no image input, so high-quality requests rely on the prompt text.
+          const referenceParts = referenceImages.map(toInlineImagePart).filter(part => part !== null);
+          const response = await ai.models.generateContent({
+              model: fastImageModel,
+              contents: { parts: [...referenceParts, { text: prompt }] },
+              config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+          });
+          const base64ImageBytes = response.candidates[0].content.parts.find(part => part.inlineData)?.inlineData.data;
+          if (!base64ImageBytes) {
+              throw new Error("No image data received from the image model.");
+          }
+          return `data:image/jpeg;base64,${base64ImageBytes}`;
+      }
+
+      const response = await ai.models.generateImages({
+        model: highQualityImageModel,
+        prompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio,
+          abortSignal: signal,
+        },
+      });
+
+      const base64ImageBytes = response.generatedImages[0].image.imageBytes;
+      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    },
+
+    generateSpeech: async (text) => {
+      const response = await ai.models.generateContent({
+          model: speechModel,
+          contents: [{ parts: [{ text }] }],
+          config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: {
+                  voiceConfig: {
+                      prebuiltVoiceConfig: { voiceName: 'Kore' }, // A versatile, clear voice.
+                  },
+              },
+          },
+      });
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+          throw new Error("No audio data received from TTS API.");
+      }
+      return base64Audio;
+    },
+  };
+};
@@ -1,197 +1,451 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GeminiResponse, StoryStep, InventoryItem } from "../types";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const textModel = 'gemini-2.5-flash';
-const highQualityImageModel = 'imagen-4.0-generate-001';
-const fastImageModel = 'gemini-2.5-flash-image';
-
-
-const responseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    title: {
-      type: Type.STRING,
-      description: 'A short, catchy title for the adventure. Max 5-7 words.'
-    },
-    story: {
-      type: Type.STRING,
-      description: 'The next part of the story. Should be 1-2 paragraphs long.'
-    },
-    choices: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'An array of 3 distinct and meaningful choices for the player.',
-    },
-    inventory: {
-      type: Type.ARRAY,
-      items: {
-          type: Type.OBJECT,
-          properties: {
-              name: { type: Type.STRING },
-              imagePrompt: { type: Type.STRING, description: 'A detailed, brief EN-US prompt for an image generator for this specific item. E.g., "A glowing blue potion in a corked glass vial."' }
-          },
-          required: ['name', 'imagePrompt']
-      },
-      description: "An array of objects representing the player's current inventory. Must include all previous items unless they were used.",
-    },
-    currentQuest: {
-      type: Type.STRING,
-      description: 'A single string describing the current main quest or objective.',
-    },
-    imagePrompt: {
-      type: Type.STRING,
-      description: 'A detailed prompt for an image generator, focusing only on the content of the scene (characters, action, environment). This prompt must be in English. Do NOT include art style descriptions.',
-    },
-    mood: {
-      type: Type.STRING,
-      description: "A single keyword in English classifying the mood of the scene (e.g., 'calm', 'tense', 'action', 'mysterious', 'uplifting', 'sad')."
-    },
-  },
-  required: ['title', 'story', 'choices', 'inventory', 'currentQuest', 'imagePrompt', 'mood'],
-};
-
-const getSystemInstruction = (language: 'en' | 'es' | 'pt'): string => {
+import { GeminiResponse, StoryStep, InventoryItem, PartialScene, GenerationReport, GameSession, CharacterSheet, NewCharacter, SceneItem, PlayerStats, EndingType, Epilogue, ContentRating, FixedSceneNode, ScenarioPack } from "../types";
+import { AspectRatio, ImageQuality } from "./storyProvider";
+import { getStoryProvider } from "./providers";
+import { parseScene, SceneValidationError } from "./sceneSchema";
+import { StoryGenerationError, isRateLimitError, isTransientError, withBackoff } from "./resilience";
+import { buildStoryContext } from "./storyMemory";
+import { describeScenario, describeScenarioStart, toSceneItems } from "./scenarioPack";
+import { loadImageAsDataUrl, storeImage } from "./imageStore";
+import { describeCodex, getCodexForPath } from "../lib/codex";
+import { describeQuests, getQuestsForPath } from "../lib/quests";
+import { describeCharacterSheets, describeCharactersForImage, getReferenceImages, getUnsheetedCharacters, selectCharacterSheets } from "../lib/characterSheets";
+import { parsePartialJson } from "../lib/partialJson";
+import { describeInventory, mergeInventory } from "../lib/inventory";
+import { describeCheckResult, describeStats, NO_CHECK } from "../lib/rules";
+import { describeArcProgress, getArcProgress, getTurnBudget } from "../lib/pacing";
+import { describeBrief, describePendingBeats, getNextSceneNode, getPendingBeats, getStartNode } from "../lib/sceneGraph";
+import { buildRatingReviewPrompt, describeContentRatingRule, describeDifficultyRule, describeImageRating, needsRatingReview, parseRatingReview } from "../lib/presets";
+
+/** The per-adventure settings that shape every turn. Absent settings take their defaults. */
+export type AdventureSettings = Pick<GameSession, 'pacing' | 'difficulty' | 'contentRating' | 'scenario'>;
+
+// What every image of an adventure is drawn with.
+type ImageStyle = Pick<GameSession, 'visualStyle' | 'contentRating'>;
+
+const getSystemInstruction = (language: 'en' | 'es' | 'pt', settings: AdventureSettings): string => {
+    const turnBudget = getTurnBudget(settings.pacing);
+    const pacingRule = turnBudget
+        ? `**Pacing:** This adventure is planned as a story of about ${turnBudget} turns, told in four acts: setup (the first 20% of turns), rising action (up to 70%), climax (up to 90%) and resolution. Each prompt says which turn the scene is and which act it belongs to; pace the plot to that act, keep the main quest open until the climax, and end the story on the final turn.`
+        : '';
+    const scenarioRule = settings.scenario
+        ? `**Scenario:** This adventure takes place in a premade world. Its lore is canon, its characters keep the role and appearance given (use that appearance when you add them to 'newCharacters'), and its tone rules always apply.\n${describeScenario(settings.scenario)}`
+        : '';
+    // Rules that only some adventures have are numbered after the ones every adventure has.
+    const optionalRules = [pacingRule, scenarioRule].filter(Boolean).map((rule, index) => `\n${17 + index}. ${rule}`).join('');
     const commonRules = `RULES:
 1.  **Title:** Generate a short, catchy title for the adventure (max 5-7 words).
 2.  **Story:** The story should be immersive, descriptive, and well-written.
 3.  **Choices:** Provide 3 distinct and meaningful choices that will genuinely alter the plot.
-4.  **Inventory & Quest:** Accurately update the inventory and current quest. The inventory is an array of objects, each with a 'name' and an 'imagePrompt'.
+4.  **Inventory & Quest:** Accurately update the inventory and current quest. Every item has a stable 'id': reuse the exact id of an item the player already has whenever it is kept or changes, and give new items a new short kebab-case id. Identical items stack in one entry with a 'quantity'; lower it when some are used and drop the item when none are left. Give each item a one sentence 'description', a 'category' and whether it is 'usable' as an action. When the player uses an item, resolve its effect in the story.
 5.  **Image Prompts:** The 'imagePrompt' (for the main scene) and all 'imagePrompt's for inventory items are critical. They must describe the scene/item vividly and MUST be in ENGLISH. For the main 'imagePrompt', focus only on the content of the scene (characters, action, environment). Do NOT include art style descriptions like "digital painting" or "comic book style", as the visual style will be added separately. Inventory prompts should be simple and clear (e.g., "A glowing blue potion in a corked glass vial.").
 6.  **Mood:** Classify the scene's mood with a single English keyword (e.g., 'calm', 'tense', 'action', 'mysterious', 'uplifting', 'sad'). This must be in English.
-7.  **Consistency:** Maintain consistency with characters, plot, inventory, and quests throughout the game. Use the provided story history to inform your next response. Do not repeat story elements. Be creative.`;
+7.  **Consistency:** Maintain consistency with characters, plot, inventory, and quests throughout the game. Use the provided story history to inform your next response. Do not repeat story elements. Be creative.
+8.  **Codex:** The world codex lists every established character, place, faction, item and fact. Treat it as canon: characters marked 'dead' stay dead and destroyed places stay destroyed unless the story explicitly explains otherwise. In 'codexUpdates', report every named entity that is introduced or changes in this scene (new status, new knowledge), reusing the exact existing name. Keep 'kind' and 'status' in English.
+9.  **Characters:** Recurring characters have character sheets that fix their appearance for every image. In the first scene, add the protagonist to 'newCharacters'. Afterwards, add any named character who will recur and appears for the first time; never repeat a character that already has a sheet. Their 'appearance' must be in ENGLISH and purely visual. List in 'charactersInScene' the sheet names of everyone visible in the scene image, and keep their look in 'imagePrompt' consistent with their sheet.
+10. **Free-form actions:** Instead of an offered choice, the player may describe their own action. As the game master, decide its outcome fairly from the situation, the player's inventory and the established facts: plausible actions can succeed, reckless or impossible ones fail or have consequences, and an action never rewrites canon by itself. Always narrate the attempt and its result, then offer new choices as usual.
+11. **Stats & checks:** Some adventures use stats. When the prompt lists the player's stats, give every choice a check in 'choiceChecks' (same order as 'choices'): the attribute it tests, a helpful skill if any, and a DC from 5 (easy) to 20 (nearly impossible); use 'none' for choices that carry no risk. When a check result is given, the dice have already decided: narrate that exact success or failure, never the opposite. Report damage or healing in 'healthChange' and skills the player truly learned in 'skillsGained'. If the player's health reaches 0, narrate their defeat as the end of the story and set 'ending' to 'defeat'. When the prompt lists no stats, set every attribute to 'none' and every dc to 0, 'healthChange' to 0 and 'skillsGained' to an empty array.
+12. **Quest journal:** Besides the main quest, the player can pick up side quests. In the first scene, start the main quest in 'questUpdates'. Afterwards, report a quest whenever it starts, or its status, description or objectives change, reusing its exact id and listing all of its objectives, worded as before. Mark objectives done as they are achieved, and mark a quest 'completed' or 'failed' only when the story resolves it. 'currentQuest' stays a one line summary of the player's most pressing goal.
+13. **Endings:** Keep 'ending' as 'none' while the story goes on. End the story only when its main quest is resolved for good, the protagonist dies or is defeated beyond recovery, or the player asks for an ending. The final scene must close the main threads in a way that follows from the story so far; set 'ending' to 'victory', 'defeat' or 'bittersweet' to match it, and offer choices that only reflect on what happened.
+14. **Difficulty:** ${describeDifficultyRule(settings.difficulty)}
+15. **Content rating:** ${describeContentRatingRule(settings.contentRating)} This applies to every text field and every image prompt.
+16. **Authored beats:** Some scenarios script key moments of the story. Follow what the prompt says about them, and when the prompt lists no authored beats, set 'nextBeat' to an empty string.${optionalRules}`;
 
     switch (language) {
       case 'es':
-        return `Eres un experto narrador y director de juego para un juego infinito de 'elige tu propia aventura' basado en texto. Tu objetivo es crear una narrativa atractiva, dinámica y en constante evolución basada en las elecciones del usuario. Por cada turno, DEBES responder con un objeto JSON que se adhiera al esquema proporcionado. El texto de 'title', 'story', 'choices', 'inventory.name', y 'currentQuest' DEBE estar en español. ${commonRules}`;
+        return `Eres un experto narrador y director de juego para un juego infinito de 'elige tu propia aventura' basado en texto. Tu objetivo es crear una narrativa atractiva, dinámica y en constante evolución basada en las elecciones del usuario. Por cada turno, DEBES responder con un objeto JSON que se adhiera al esquema proporcionado. El texto de 'title', 'story', 'choices', 'inventory.name', 'inventory.description', 'currentQuest', 'codexUpdates.description' y los textos de 'questUpdates' DEBE estar en español. ${commonRules}`;
       case 'pt':
-        return `És um contador de histórias especialista e mestre de jogo para um jogo de aventura de texto infinito do tipo 'escolhe a tua própria aventura'. O teu objetivo é criar uma narrativa envolvente, dinâmica e em constante evolução com base nas escolhas do utilizador. Para cada turno, DEVES responder com um objeto JSON que cumpra o esquema fornecido. O texto de 'title', 'story', 'choices', 'inventory.name', e 'currentQuest' DEVE estar em português. ${commonRules}`;
+        return `És um contador de histórias especialista e mestre de jogo para um jogo de aventura de texto infinito do tipo 'escolhe a tua própria aventura'. O teu objetivo é criar uma narrativa envolvente, dinâmica e em constante evolução com base nas escolhas do utilizador. Para cada turno, DEVES responder com um objeto JSON que cumpra o esquema fornecido. O texto de 'title', 'story', 'choices', 'inventory.name', 'inventory.description', 'currentQuest', 'codexUpdates.description' e os textos de 'questUpdates' DEVE estar em português. ${commonRules}`;
       default: // en
         return `You are an expert storyteller and game master for an infinite, text-based, choose-your-own-adventure game. Your goal is to create an engaging, dynamic, and ever-evolving narrative based on the user's choices. For every turn, you MUST respond with a JSON object that adheres to the provided schema. ${commonRules}`;
     }
 };
 
 
-const generateImage = async (prompt: string, visualStyle: string, model: 'high-quality' | 'fast' = 'high-quality', aspectRatio: '16:9' | '1:1' = '16:9'): Promise<string> => {
-    const combinedPrompt = `${prompt}, in the style of ${visualStyle}`;
-    
-    if (model === 'fast') {
-        const response = await ai.models.generateContent({
-            model: fastImageModel,
-            contents: { parts: [{ text: combinedPrompt }] },
-            config: { responseModalities: [Modality.IMAGE] },
-        });
-        const base64ImageBytes = response.candidates[0].content.parts[0].inlineData.data;
-        return `data:image/jpeg;base64,${base64ImageBytes}`;
+/** Generates an image and returns its image store reference. */
+const generateImage = async (prompt: string, style: ImageStyle, model: ImageQuality = 'high-quality', aspectRatio: AspectRatio = '16:9', characters: CharacterSheet[] = [], signal?: AbortSignal): Promise<string> => {
+    const referenceImages = (await Promise.all(getReferenceImages(characters).map(loadImageAsDataUrl))).filter(Boolean);
+    const stylePrompt = `${prompt}, in the style of ${style.visualStyle}`;
+    const characterPrompt = characters.length > 0 ? `${stylePrompt}. ${describeCharactersForImage(characters, referenceImages.length > 0)}` : stylePrompt;
+    const combinedPrompt = `${characterPrompt}. ${describeImageRating(style.contentRating)}.`;
+    const dataUrl = await withBackoff(() => getStoryProvider().generateImage({ prompt: combinedPrompt, quality: model, aspectRatio, referenceImages, signal }), { signal });
+    return storeImage(dataUrl);
+};
+
+// A failed portrait only costs the reference image; the appearance text still applies.
+const generateCharacterPortrait = async (character: NewCharacter, style: ImageStyle, signal?: AbortSignal): Promise<string> => {
+    const portraitPrompt = `Character reference portrait of ${character.name}: ${character.appearance}. Head and shoulders, facing the viewer, neutral background, even lighting.`;
+    try {
+        return await generateImage(portraitPrompt, style, 'fast', '1:1', [], signal);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn(`Could not generate a portrait for ${character.name}:`, error);
+        return '';
     }
+};
 
-    const response = await ai.models.generateImages({
-      model: highQualityImageModel,
-      prompt: combinedPrompt,
-      config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio,
-      },
-    });
-
-    const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-    return `data:image/jpeg;base64,${base64ImageBytes}`;
+/** Creates sheets, with reference portraits, for the characters introduced by a scene. */
+const addCharacterSheets = async (sheets: CharacterSheet[] = [], newCharacters: NewCharacter[], style: ImageStyle, signal?: AbortSignal): Promise<CharacterSheet[]> => {
+    const unsheeted = getUnsheetedCharacters(sheets, newCharacters);
+    const portraits = await Promise.all(unsheeted.map(character => generateCharacterPortrait(character, style, signal)));
+    return [
+        ...sheets,
+        ...unsheeted.map((character, index) => ({ id: crypto.randomUUID(), ...character, portraitUrl: portraits[index] })),
+    ];
 };
 
-export const generateBannerImage = async (prompt: string, visualStyle: string): Promise<string> => {
+export const generateBannerImage = async (prompt: string, style: ImageStyle): Promise<string> => {
     const bannerPrompt = `Create a cinematic, banner-style image that serves as the title screen for an adventure. The scene should be epic, widescreen, and visually stunning, capturing the core essence of this prompt: "${prompt}". Focus on the atmosphere and key elements.`
-    return generateImage(bannerPrompt, visualStyle, 'high-quality', '16:9');
+    return generateImage(bannerPrompt, style, 'high-quality', '16:9');
 }
 
-const generateStoryContent = async (prompt: string, language: 'en' | 'es' | 'pt'): Promise<GeminiResponse> => {
-    const response = await ai.models.generateContent({
-        model: textModel,
-        contents: prompt,
-        config: {
-            systemInstruction: getSystemInstruction(language),
-            responseMimeType: "application/json",
-            responseSchema: responseSchema,
-            temperature: 0.9,
+// Turns the raw text of a scene that is still streaming into the fields that can be shown already.
+const toPartialScene = (textSoFar: string): PartialScene | null => {
+    let parsed;
+    try {
+        parsed = parsePartialJson(textSoFar);
+    } catch {
+        return null; // Not JSON (yet); the final validation will report it.
+    }
+    if (typeof parsed.value !== 'object' || parsed.value === null || Array.isArray(parsed.value)) return null;
+
+    const fields = parsed.value as Record<string, unknown>;
+    const completeKeys = parsed.completeKeys ?? new Set<string>();
+    const completeField = <T>(key: string, isValid: (value: unknown) => boolean): T | undefined =>
+        completeKeys.has(key) && isValid(fields[key]) ? fields[key] as T : undefined;
+
+    return {
+        story: typeof fields.story === 'string' ? fields.story : '',
+        choices: completeField<string[]>('choices', v => Array.isArray(v) && v.every(c => typeof c === 'string')),
+        inventory: completeField<PartialScene['inventory']>('inventory', v => Array.isArray(v) && v.every(item => typeof item?.name === 'string')),
+        currentQuest: completeField<string>('currentQuest', v => typeof v === 'string'),
+    };
+};
+
+const buildRepairPrompt = (originalPrompt: string, invalidResponse: string, errors: string[]): string =>
+    `${originalPrompt}\n\nYour previous response to this request was rejected because it did not match the required JSON schema.\nProblems found:\n${errors.map(e => `- ${e}`).join('\n')}\n\nPrevious response:\n${invalidResponse}\n\nRespond again with a single, complete JSON object that fixes every problem above.`;
+
+const buildRatingRewritePrompt = (originalPrompt: string, rejectedResponse: string, problems: string[], rating: ContentRating | undefined): string =>
+    `${originalPrompt}\n\nYour previous response to this request was rejected because it does not fit the adventure's content rating. ${describeContentRatingRule(rating)}\nProblems found:\n${problems.map(p => `- ${p}`).join('\n')}\n\nPrevious response:\n${rejectedResponse}\n\nRespond again with the same scene, rewritten to fix every problem above.`;
+
+const toStoryGenerationError = (e: unknown): StoryGenerationError => {
+    if (isRateLimitError(e)) return new StoryGenerationError('rate-limited', (e as Error).message);
+    if (isTransientError(e)) return new StoryGenerationError('unavailable', (e as Error).message);
+    return new StoryGenerationError('failed', (e as Error).message);
+};
+
+// Asks the model whether generated text fits the content rating; returns the problems it found.
+const reviewContentRating = async (text: string, rating: ContentRating | undefined): Promise<string[]> => {
+    try {
+        const answer = await withBackoff(() => getStoryProvider().generateText({ prompt: buildRatingReviewPrompt(text, rating), temperature: 0, purpose: 'rating-review' }));
+        return parseRatingReview(answer);
+    } catch (e) {
+        throw toStoryGenerationError(e);
+    }
+};
+
+/**
+ * Generates content and, unless the rating allows anything, reviews it before it is used.
+ * Content that does not fit is generated once more with the problems found, and rejected
+ * if it still does not fit.
+ */
+const generateWithinRating = async <T>(
+    rating: ContentRating | undefined,
+    generate: (rejected?: { text: string, problems: string[] }) => Promise<{ result: T, text: string }>,
+    onRewrite?: () => void,
+): Promise<T> => {
+    const first = await generate();
+    if (!needsRatingReview(rating)) return first.result;
+    const problems = await reviewContentRating(first.text, rating);
+    if (problems.length === 0) return first.result;
+
+    console.warn("Generated content does not fit the content rating, asking the model to rewrite it:", problems);
+    onRewrite?.();
+    const rewritten = await generate({ text: first.text, problems });
+    const remaining = await reviewContentRating(rewritten.text, rating);
+    if (remaining.length > 0) {
+        throw new StoryGenerationError('unsuitable-content', 'The generated content does not fit the content rating.', remaining);
+    }
+    return rewritten.result;
+};
+
+const generateStoryContent = async (prompt: string, language: 'en' | 'es' | 'pt', settings: AdventureSettings, onPartialScene?: (scene: PartialScene) => void, signal?: AbortSignal): Promise<{ scene: GeminiResponse, report: GenerationReport }> => {
+    const report: GenerationReport = { retries: 0, repaired: false };
+    let lastReported = '';
+    // Text that still has to pass the rating review is not shown while it streams.
+    const onProgress = onPartialScene && !needsRatingReview(settings.contentRating) ? (textSoFar: string) => {
+        const partial = toPartialScene(textSoFar);
+        if (!partial) return;
+        // Only re-render when something visible changed.
+        const signature = JSON.stringify(partial);
+        if (signature !== lastReported) {
+            lastReported = signature;
+            onPartialScene(partial);
         }
-    });
-    
-    const jsonText = response.text.trim();
-    return JSON.parse(jsonText) as GeminiResponse;
+    } : undefined;
+
+    const requestScene = async (scenePrompt: string): Promise<string> => {
+        try {
+            return await withBackoff(
+                () => getStoryProvider().generateScene({ prompt: scenePrompt, systemInstruction: getSystemInstruction(language, settings), language, onProgress, signal }),
+                { onRetry: () => { report.retries++; }, signal },
+            );
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            throw toStoryGenerationError(e);
+        }
+    };
+
+    const requestValidScene = async (scenePrompt: string): Promise<{ result: GeminiResponse, text: string }> => {
+        const rawText = await requestScene(scenePrompt);
+        let validationErrors: string[];
+        try {
+            return { result: parseScene(rawText), text: rawText };
+        } catch (e) {
+            if (!(e instanceof SceneValidationError)) throw e;
+            console.warn("Invalid scene response, asking the model to repair it:", e.errors);
+            validationErrors = e.errors;
+            report.repaired = true;
+        }
+
+        // One repair attempt, telling the model exactly what was wrong.
+        const repairedText = await requestScene(buildRepairPrompt(scenePrompt, rawText, validationErrors));
+        try {
+            return { result: parseScene(repairedText), text: repairedText };
+        } catch (e) {
+            if (!(e instanceof SceneValidationError)) throw e;
+            throw new StoryGenerationError('invalid-response', e.message, e.errors);
+        }
+    };
+
+    const scene = await generateWithinRating(
+        settings.contentRating,
+        rejected => requestValidScene(rejected ? buildRatingRewritePrompt(prompt, rejected.text, rejected.problems, settings.contentRating) : prompt),
+        () => { report.rewrittenForRating = true; },
+    );
+    return { scene, report };
 };
 
+// Only items that are new to the inventory get an image; kept items, even renamed or restacked ones, reuse theirs.
 const processInventoryImages = async (
-    newInventory: Array<{ name: string; imagePrompt: string }>,
+    newInventory: SceneItem[],
     previousInventory: InventoryItem[],
-    visualStyle: string,
+    style: ImageStyle,
+    characters: CharacterSheet[] = [],
+    signal?: AbortSignal,
 ): Promise<InventoryItem[]> => {
-    const prevItemNames = new Set(previousInventory.map(item => item.name));
-    const newItemsToGenerate = newInventory.filter(item => !prevItemNames.has(item.name));
-    
-    const generatedImages = await Promise.all(
-        newItemsToGenerate.map(item => generateImage(item.imagePrompt, visualStyle, 'fast', '1:1'))
-    );
+    const { items, needImages } = mergeInventory(previousInventory, newInventory);
 
-    const newInventoryWithImages: InventoryItem[] = newItemsToGenerate.map((item, index) => ({
-        name: item.name,
-        imageUrl: generatedImages[index],
-    }));
+    const generatedImages = new Map(await Promise.all(
+        needImages.map(async item => [item.id, await generateImage(item.imagePrompt, style, 'fast', '1:1', selectCharacterSheets(characters, item.imagePrompt), signal)] as const)
+    ));
 
-    const oldItems = previousInventory.filter(item => newInventory.some(newItem => newItem.name === item.name));
+    return items.map(item => generatedImages.has(item.id) ? { ...item, imageUrl: generatedImages.get(item.id)! } : item);
+};
 
-    return [...oldItems, ...newInventoryWithImages];
+// A fixed node played as a scene: the authored text, with nothing to report in the fields the model keeps up to date.
+const toAuthoredScene = (node: FixedSceneNode, title: string, currentQuest: string): Omit<GeminiResponse, 'inventory'> => ({
+    title,
+    story: node.story,
+    choices: node.choices.map(choice => choice.text),
+    currentQuest: node.currentQuest || currentQuest,
+    imagePrompt: node.imagePrompt,
+    mood: node.mood,
+    codexUpdates: [],
+    questUpdates: [],
+    newCharacters: [],
+    charactersInScene: [],
+    choiceChecks: node.choices.map(() => NO_CHECK),
+    healthChange: 0,
+    skillsGained: [],
+    ending: node.ending,
+    nextBeat: '',
+});
+
+// Authored scenes keep their own image when they have one; otherwise it is drawn from the authored prompt.
+const generateAuthoredImage = (node: FixedSceneNode, style: ImageStyle, characters: CharacterSheet[] = [], signal?: AbortSignal): Promise<string> =>
+    node.imageUrl
+        ? storeImage(node.imageUrl)
+        : generateImage(node.imagePrompt || node.story, style, 'fast', '16:9', selectCharacterSheets(characters, node.imagePrompt), signal);
+
+// Opens an adventure with the fixed start scene of its scenario; authored text is played as written, without a rating review.
+const startFromAuthoredScene = async (scenario: ScenarioPack, node: FixedSceneNode, style: ImageStyle, bannerPrompt: string) => {
+    const bannerUrlPromise = generateBannerImage(bannerPrompt, style);
+    const scene = {
+        ...toAuthoredScene(node, scenario.title, scenario.startingQuest),
+        questUpdates: [{ id: 'main-quest', title: node.currentQuest || scenario.startingQuest, status: 'active' as const, description: scenario.startingQuest, objectives: [] }],
+    };
+    const [imageUrl, inventory] = await Promise.all([
+        generateAuthoredImage(node, style),
+        processInventoryImages(toSceneItems(scenario), [], style),
+    ]);
+    const bannerUrl = await bannerUrlPromise;
+    return { scene: { ...scene, inventory }, imageUrl, bannerUrl, characters: [], report: { retries: 0, repaired: false } };
 };
 
-export const generateAdventureStart = async (playerInput: string, language: 'en' | 'es' | 'pt', visualStyle: string): Promise<{ scene: Omit<GeminiResponse, 'inventory'> & { inventory: InventoryItem[] }, imageUrl: string, bannerUrl: string }> => {
-    const prompt = {
-      es: `Inicia una nueva aventura. El prompt inicial del usuario es: "${playerInput}". Crea un título corto y atractivo para la aventura y la primera escena. El jugador debe comenzar con un inventario vacío y una misión inicial clara.`,
-      pt: `Inicia uma nova aventura. O prompt inicial do utilizador é: "${playerInput}". Cria um título curto e cativante para a aventura e a primeira cena. O jogador deve começar com um inventário vazio e uma missão inicial clara.`,
-      en: `Start a new adventure. The user's initial prompt is: "${playerInput}". Create a short, catchy title for the adventure and the very first scene. The player should start with an empty inventory and a clear starting quest.`,
-    }[language];
+export const generateAdventureStart = async (playerInput: string, language: 'en' | 'es' | 'pt', visualStyle: string, settings: AdventureSettings, stats?: PlayerStats): Promise<{ scene: Omit<GeminiResponse, 'inventory'> & { inventory: InventoryItem[] }, imageUrl: string, bannerUrl: string, characters: CharacterSheet[], report: GenerationReport }> => {
+    const { scenario } = settings;
+    const style: ImageStyle = { visualStyle, contentRating: settings.contentRating };
+    const bannerPrompt = scenario ? `${scenario.title}: ${scenario.startingLocation}. ${playerInput}` : playerInput;
+    const startNode = getStartNode(scenario?.sceneGraph);
+    if (scenario && startNode?.kind === 'fixed') return startFromAuthoredScene(scenario, startNode, style, bannerPrompt);
+    const beatContext = [
+        startNode?.kind === 'generative' ? describeBrief(startNode) : '',
+        describePendingBeats(getPendingBeats(scenario?.sceneGraph, []).filter(beat => beat.id !== startNode?.id)),
+    ].filter(Boolean).map(context => `\n\n${context}`).join('');
+    const arcProgress = getArcProgress(settings.pacing, 1);
+    const arcContext = arcProgress ? `\n\n${describeArcProgress(arcProgress)}` : '';
+    // A scenario pack fixes where the story starts and what the player carries; the player's own input only adds to it.
+    const prompt = (scenario
+      ? {
+        es: `Inicia una nueva aventura en el escenario "${scenario.title}". Crea un título corto y atractivo para la aventura y la primera escena. La escena comienza en el lugar de inicio, el jugador lleva exactamente el inventario inicial (repórtalo en 'inventory') y la misión principal parte de la misión inicial.${playerInput.trim() ? ` El jugador añade: "${playerInput}".` : ''}`,
+        pt: `Inicia uma nova aventura no cenário "${scenario.title}". Cria um título curto e cativante para a aventura e a primeira cena. A cena começa no local de partida, o jogador leva exatamente o inventário inicial (reporta-o em 'inventory') e a missão principal parte da missão inicial.${playerInput.trim() ? ` O jogador acrescenta: "${playerInput}".` : ''}`,
+        en: `Start a new adventure in the scenario "${scenario.title}". Create a short, catchy title for the adventure and the very first scene. The scene begins at the starting location, the player carries exactly the starting inventory (report it in 'inventory'), and the main quest follows from the starting quest.${playerInput.trim() ? ` The player adds: "${playerInput}".` : ''}`,
+      }[language] + `\n\n${describeScenarioStart(scenario)}`
+      : {
+        es: `Inicia una nueva aventura. El prompt inicial del usuario es: "${playerInput}". Crea un título corto y atractivo para la aventura y la primera escena. El jugador debe comenzar con un inventario vacío y una misión inicial clara.`,
+        pt: `Inicia uma nova aventura. O prompt inicial do utilizador é: "${playerInput}". Cria um título curto e cativante para a aventura e a primeira cena. O jogador deve começar com um inventário vazio e uma missão inicial clara.`,
+        en: `Start a new adventure. The user's initial prompt is: "${playerInput}". Create a short, catchy title for the adventure and the very first scene. The player should start with an empty inventory and a clear starting quest.`,
+      }[language]) + (stats ? `\n\nThe player's stats are:\n${describeStats(stats)}` : '') + arcContext + beatContext;
     
     // Start banner generation immediately, but don't wait for it.
-    const bannerUrlPromise = generateBannerImage(playerInput, visualStyle);
+    const bannerUrlPromise = generateBannerImage(bannerPrompt, style);
 
     // Generate the story content.
-    const scene = await generateStoryContent(prompt, language);
+    const { scene, report } = await generateStoryContent(prompt, language, settings);
     
-    // Once we have the story, we can generate the scene image.
+    // Once we have the story, we can create the protagonist's sheet and then the scene image.
     // We can do this in parallel with the banner generation which is already running.
-    const imageUrl = await generateImage(scene.imagePrompt, visualStyle, 'fast');
+    const characters = await addCharacterSheets([], scene.newCharacters, style);
+    const [imageUrl, inventory] = await Promise.all([
+        generateImage(scene.imagePrompt, style, 'fast', '16:9', selectCharacterSheets(characters, scene.imagePrompt, scene.charactersInScene)),
+        scenario ? processInventoryImages(scene.inventory, [], style, characters) : Promise.resolve([]),
+    ]);
 
     // Now, wait for the banner to complete if it hasn't already.
     const bannerUrl = await bannerUrlPromise;
     
-    return { scene: { ...scene, inventory: [] }, imageUrl, bannerUrl };
+    return { scene: { ...scene, inventory }, imageUrl, bannerUrl, characters, report };
 };
 
-export const generateNextStep = async (history: StoryStep[], choice: string, language: 'en' | 'es' | 'pt', visualStyle: string): Promise<{ scene: Omit<GeminiResponse, 'inventory'> & { inventory: InventoryItem[] }, imageUrl: string }> => {
-    const simplifiedHistory = history.map(h => `Scene: ${h.story.substring(0,100)}... Choice: ${h.choiceMade}`).join('\n');
+export interface NextStepResult {
+    scene: Omit<GeminiResponse, 'inventory'> & { inventory: InventoryItem[] };
+    imageUrl: string;
+    characters: CharacterSheet[];
+    report: GenerationReport;
+}
+
+/** Draws the image of a scene again, from its own prompt or one the player adjusted. */
+export const regenerateSceneImage = (session: GameSession, prompt: string, signal?: AbortSignal): Promise<string> =>
+    generateImage(prompt, session, 'fast', '16:9', selectCharacterSheets(session.characters, prompt), signal);
+
+/** Plays a fixed node of the scene graph as the next scene. The player keeps their inventory. */
+export const playAuthoredScene = async (session: GameSession, history: StoryStep[], node: FixedSceneNode, signal?: AbortSignal): Promise<NextStepResult> => {
+    const lastStep = history[history.length - 1];
+    const imageUrl = await generateAuthoredImage(node, session, session.characters, signal);
+    return {
+        scene: { ...toAuthoredScene(node, session.title, lastStep.currentQuest), inventory: lastStep.inventory },
+        imageUrl,
+        characters: session.characters ?? [],
+        report: { retries: 0, repaired: false },
+    };
+};
+
+export const generateNextStep = async (
+    session: GameSession,
+    history: StoryStep[],
+    choice: string,
+    language: 'en' | 'es' | 'pt',
+    onPartialScene?: (scene: PartialScene) => void,
+    signal?: AbortSignal,
+): Promise<NextStepResult> => {
+    const storyContext = buildStoryContext(history, session.chapters);
+    const worldContext = `${describeCodex(getCodexForPath(session.codex, history))}\n\n${describeQuests(getQuestsForPath(session.quests, history))}\n\n${describeCharacterSheets(session.characters)}`;
     const lastStep = history[history.length - 1];
     const inventory = lastStep.inventory;
+    const inventoryContext = describeInventory(inventory);
     const quest = lastStep.currentQuest;
+    // Under the ruleset, the model sees the stats and the roll it must narrate; without it, the prompt lists no stats.
+    const rulesContext = session.ruleset && lastStep.stats
+        ? `\n\nThe player's stats are:\n${describeStats(lastStep.stats)}${lastStep.checkResult ? `\nCheck result for this choice: ${describeCheckResult(lastStep.checkResult)}` : ''}`
+        : '';
+    const arcProgress = getArcProgress(session.pacing, history.length + 1);
+    const arcContext = arcProgress ? `\n\n${describeArcProgress(arcProgress)}` : '';
+    // A generated node of the scene graph constrains this scene; beats still ahead may be led into.
+    const graph = session.scenario?.sceneGraph;
+    const beat = getNextSceneNode(graph, lastStep, choice, lastStep.isCustomAction);
+    const beatContext = [
+        beat?.kind === 'generative' ? describeBrief(beat) : '',
+        describePendingBeats(getPendingBeats(graph, history).filter(pending => pending.id !== beat?.id)),
+    ].filter(Boolean).map(context => `\n\n${context}`).join('');
+    const decision = lastStep.endingRequested
+        ? {
+            es: `El jugador pide llevar la historia a su final: "${choice}". Escribe la escena final: resuelve la misión principal y los hilos abiertos de forma coherente con la historia, y marca 'ending' con el tipo de final que corresponda.`,
+            pt: `O jogador pede para levar a história ao seu fim: "${choice}". Escreve a cena final: resolve a missão principal e os fios em aberto de forma coerente com a história, e marca 'ending' com o tipo de final que corresponda.`,
+            en: `The player asks to bring the story to a close: "${choice}". Write the final scene: resolve the main quest and the open threads in a way that follows from the story so far, and set 'ending' to the type of ending that fits.`,
+        }[language]
+        : lastStep.isCustomAction
+        ? {
+            es: `En lugar de elegir una de las opciones, el jugador intenta su propia acción: "${choice}". Decide como director de juego si tiene éxito y qué consecuencias tiene.`,
+            pt: `Em vez de escolher uma das opções, o jogador tenta a sua própria ação: "${choice}". Decide como mestre de jogo se resulta e que consequências tem.`,
+            en: `Instead of picking one of the choices, the player attempts their own action: "${choice}". As the game master, decide whether it succeeds and what its consequences are.`,
+        }[language]
+        : {
+            es: `El jugador acaba de tomar la decisión: "${choice}".`,
+            pt: `O jogador acabou de fazer a escolha: "${choice}".`,
+            en: `The player has just made the choice: "${choice}".`,
+        }[language];
 
     const prompt = {
-        es: `Aquí hay un resumen de la historia hasta ahora:\n${simplifiedHistory}\n\nEl inventario actual del jugador es [${inventory.map(i=>i.name).join(', ')}] y su misión es "${quest}".\n\nEl jugador acaba de tomar la decisión: "${choice}".\n\nContinúa la historia con la siguiente escena. No generes un nuevo título, la aventura ya tiene uno.`,
-        pt: `Aqui está um resumo da história até agora:\n${simplifiedHistory}\n\nO inventário atual do jogador é [${inventory.map(i=>i.name).join(', ')}] e a sua missão é "${quest}".\n\nO jogador acabou de fazer a escolha: "${choice}".\n\nContinua a história com a próxima cena. Não geres um novo título, a aventura já tem um.`,
-        en: `Here is a summary of the story so far:\n${simplifiedHistory}\n\nThe player's current inventory is [${inventory.map(i=>i.name).join(', ')}] and their quest is "${quest}".\n\nThe player has just made the choice: "${choice}".\n\nContinue the story with the next scene. Do not generate a new title, the adventure already has one.`,
+        es: `Aquí hay un resumen de la historia hasta ahora:\n${storyContext}\n\nEl inventario actual del jugador es:\n${inventoryContext}\n\nSu misión es "${quest}".\n\n${worldContext}${rulesContext}${arcContext}${beatContext}\n\n${decision}\n\nContinúa la historia con la siguiente escena. No generes un nuevo título, la aventura ya tiene uno.`,
+        pt: `Aqui está um resumo da história até agora:\n${storyContext}\n\nO inventário atual do jogador é:\n${inventoryContext}\n\nA sua missão é "${quest}".\n\n${worldContext}${rulesContext}${arcContext}${beatContext}\n\n${decision}\n\nContinua a história com a próxima cena. Não geres um novo título, a aventura já tem um.`,
+        en: `Here is a summary of the story so far:\n${storyContext}\n\nThe player's current inventory is:\n${inventoryContext}\n\nTheir quest is "${quest}".\n\n${worldContext}${rulesContext}${arcContext}${beatContext}\n\n${decision}\n\nContinue the story with the next scene. Do not generate a new title, the adventure already has one.`,
     }[language];
     
-    const scene = await generateStoryContent(prompt, language);
-    
+    const { scene, report } = await generateStoryContent(prompt, language, session, onPartialScene, signal);
+
+    // New characters need their portraits before they can be referenced by this scene's images.
+    const characters = await addCharacterSheets(session.characters, scene.newCharacters, session, signal);
     const [imageUrl, processedInventory] = await Promise.all([
-        generateImage(scene.imagePrompt, visualStyle, 'fast'),
-        processInventoryImages(scene.inventory, inventory, visualStyle)
+        generateImage(scene.imagePrompt, session, 'fast', '16:9', selectCharacterSheets(characters, scene.imagePrompt, scene.charactersInScene), signal),
+        processInventoryImages(scene.inventory, inventory, session, characters, signal)
+    ]);
+
+    return { scene: { ...scene, inventory: processedInventory }, imageUrl, characters, report };
+};
+
+/**
+ * Writes the epilogue for a story that has ended at the last step of the history,
+ * and the illustration for its summary card. A failed illustration leaves the card without one.
+ */
+export const generateEpilogue = async (session: GameSession, history: StoryStep[], ending: EndingType, language: 'en' | 'es' | 'pt'): Promise<Epilogue> => {
+    const finalStep = history[history.length - 1];
+    const storyContext = buildStoryContext(history, session.chapters);
+    const prompt = {
+        es: `Esta es una aventura interactiva titulada "${session.title}" que acaba de terminar con un final de tipo "${ending}":\n${storyContext}\n\nEscribe el epílogo: dos párrafos breves que cuenten qué fue del protagonista, de los personajes importantes y del mundo después de la escena final. Escribe en español y no incluyas nada más que el epílogo.`,
+        pt: `Esta é uma aventura interativa intitulada "${session.title}" que acabou de terminar com um final do tipo "${ending}":\n${storyContext}\n\nEscreve o epílogo: dois parágrafos breves que contem o que aconteceu ao protagonista, às personagens importantes e ao mundo depois da cena final. Escreve em português e não incluas nada além do epílogo.`,
+        en: `This is an interactive adventure titled "${session.title}" that has just ended with a "${ending}" ending:\n${storyContext}\n\nWrite the epilogue: two short paragraphs telling what became of the protagonist, the important characters and the world after the final scene. Do not include anything other than the epilogue.`,
+    }[language];
+
+    const protagonists = (session.characters ?? []).filter(sheet => sheet.isProtagonist);
+    const cardPrompt = `A commemorative final illustration for the ${ending} ending of an adventure. The premise was: "${session.prompt}". Show the protagonist at the close of their journey, in a composed, memorable tableau that sums up the story.`;
+
+    const writeEpilogue = async (rejected?: { text: string, problems: string[] }) => {
+        const rewrite = rejected
+            ? `\n\nA previous draft was rejected because it does not fit the adventure's content rating:\n${rejected.problems.map(p => `- ${p}`).join('\n')}\nWrite the epilogue again without these problems.`
+            : '';
+        const text = await withBackoff(() => getStoryProvider().generateText({ prompt: `${prompt}\n\n${describeContentRatingRule(session.contentRating)}${rewrite}`, temperature: 0.8, purpose: 'epilogue' }));
+        return { result: text, text };
+    };
+
+    const [text, imageUrl] = await Promise.all([
+        generateWithinRating(session.contentRating, writeEpilogue),
+        generateImage(cardPrompt, session, 'high-quality', '16:9', protagonists).catch(error => {
+            console.warn("Could not generate the summary card illustration:", error);
+            return '';
+        }),
     ]);
 
-    return { scene: { ...scene, inventory: processedInventory }, imageUrl };
+    return { stepId: finalStep.id, text: text.trim(), imageUrl };
 };
 
 export const generateRandomPrompt = async (userInput: string, language: 'en' | 'es' | 'pt'): Promise<string> => {
@@ -207,15 +461,7 @@ export const generateRandomPrompt = async (userInput: string, language: 'en' | '
       : `Generate a completely random, creative, and engaging starter prompt for a choose-your-own-adventure game. The prompt should describe a character, a setting, and an initial goal. The response should be a single paragraph of text, ready to be pasted into a textbox. Do not include anything other than the prompt text itself.`,
   }[language];
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-flash-lite-latest',
-    contents: prompt,
-    config: {
-        temperature: 1.0,
-    }
-  });
-
-  return response.text.trim();
+  return getStoryProvider().generateText({ prompt, temperature: 1.0, purpose: 'adventure-idea' });
 };
 
 export const generateRandomVisualStylePrompt = async (userInput: string, language: 'en' | 'es' | 'pt'): Promise<string> => {
@@ -231,35 +477,11 @@ export const generateRandomVisualStylePrompt = async (userInput: string, languag
           : `Generate a completely random, concise but evocative visual art style description for an AI image generator. Examples: 'Gothic oil painting', 'Retro sci-fi comic book art', 'Lush Studio Ghibli anime style'. The response must be a short phrase or sentence only.`,
       }[language];
     
-      const response = await ai.models.generateContent({
-        model: 'gemini-flash-lite-latest',
-        contents: prompt,
-        config: {
-            temperature: 1.0,
-        }
-      });
-    
-      return response.text.trim();
+      return getStoryProvider().generateText({ prompt, temperature: 1.0, purpose: 'style-idea' });
 };
 
 export const generateSpeech = async (text: string): Promise<string> => {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: 'Kore' }, // A versatile, clear voice.
-                },
-            },
-        },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        throw new Error("No audio data received from TTS API.");
-    }
-    return base64Audio;
+    return getStoryProvider().generateSpeech(text);
 };
 
 export const interpretUserChoice = async (
@@ -267,7 +489,7 @@ export const interpretUserChoice = async (
     choices: string[],
     storyText: string,
     language: 'en' | 'es' | 'pt'
-): Promise<string> => {
+): Promise<{ choice: string, isCustomAction: boolean }> => {
     const prompt = {
         en: `You are an AI assistant in a choose-your-own-adventure game. Your task is to interpret the user's spoken response and match it to one of the available choices. Be flexible with phrasing.
         
@@ -276,7 +498,7 @@ The user said: "${speech}"
 The available choices are: [${choices.map(c => `"${c}"`).join(', ')}]
 
 Which choice did the user most likely pick?
-Your response MUST BE the exact text of one of the choices, or the word "UNCLEAR" if it's ambiguous or none of the choices match. Do not add any explanation or punctuation.`,
+Your response MUST BE the exact text of one of the choices, or the word "UNCLEAR" if it's ambiguous or none of the choices match (the user may be describing an action of their own). Do not add any explanation or punctuation.`,
         es: `Eres un asistente de IA en un juego de 'elige tu propia aventura'. Tu tarea es interpretar la respuesta hablada del usuario y asociarla con una de las opciones disponibles. Sé flexible con la redacción.
         
 Contexto: La escena actual de la historia es: "${storyText}"
@@ -284,7 +506,7 @@ El usuario dijo: "${speech}"
 Las opciones disponibles son: [${choices.map(c => `"${c}"`).join(', ')}]
 
 ¿Qué opción es más probable que el usuario haya elegido?
-Tu respuesta DEBE SER el texto exacto de una de las opciones, o la palabra "UNCLEAR" si es ambiguo o ninguna opción coincide. No agregues ninguna explicación ni puntuación.`,
+Tu respuesta DEBE SER el texto exacto de una de las opciones, o la palabra "UNCLEAR" si es ambiguo o ninguna opción coincide (el usuario puede estar describiendo una acción propia). No agregues ninguna explicación ni puntuación.`,
         pt: `Você é um assistente de IA em um jogo de 'escolha sua própria aventura'. Sua tarefa é interpretar a resposta falada do usuário e associá-la a uma das opções disponíveis. Seja flexível com a formulação.
         
 Contexto: A cena atual da história é: "${storyText}"
@@ -292,29 +514,24 @@ O usuário disse: "${speech}"
 As opções disponíveis são: [${choices.map(c => `"${c}"`).join(', ')}]
 
 Qual opção o usuário provavelmente escolheu?
-Sua resposta DEVE SER o texto exato de uma das opções, ou a palavra "UNCLEAR" se for ambíguo ou nenhuma das opções corresponder. Não adicione nenhuma explicação ou pontuação.`,
+Sua resposta DEVE SER o texto exato de uma das opções, ou a palavra "UNCLEAR" se for ambíguo ou nenhuma das opções corresponder (o usuário pode estar descrevendo uma ação própria). Não adicione nenhuma explicação ou pontuação.`,
     }[language];
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            temperature: 0.1
-        }
-    });
+    const answer = await getStoryProvider().interpretChoice({ prompt, speech, choices });
 
-    const result = response.text.trim().replace(/^"|"$/g, ''); // Trim and remove quotes
+    const result = answer.trim().replace(/^"|"$/g, ''); // Trim and remove quotes
     
-    // Validate if the result is one of the choices or 'UNCLEAR'
-    if (choices.includes(result) || result === 'UNCLEAR') {
-        return result;
+    // Validate if the result is one of the choices
+    if (choices.includes(result)) {
+        return { choice: result, isCustomAction: false };
     }
     
     // Fallback check: find if any choice is a substring of the result, for robustness
     const foundChoice = choices.find(c => result.includes(c));
     if (foundChoice) {
-        return foundChoice;
+        return { choice: foundChoice, isCustomAction: false };
     }
 
-    return 'UNCLEAR'; // Default to unclear if model hallucinates or provides a non-matching response.
+    // Anything that doesn't match a choice is the player's own action, in their own words.
+    return { choice: speech, isCustomAction: true };
 };
@@ -0,0 +1,81 @@
+import { getStorageBackend } from "./storageBackend";
+
+// Generated images are kept out of the sessions themselves. Each image is stored once,
+// as a Blob keyed by the SHA-256 of its bytes, and sessions only hold a short reference
+// ("image:<hash>") in place of the data URL. An item picture shown in fifty steps is
+// therefore stored once, and saving a session no longer rewrites every image in it.
+
+const IMAGE_REF_PREFIX = 'image:';
+
+const images = () => getStorageBackend('images');
+
+const objectUrls = new Map<string, Promise<string>>();
+
+export const isImageRef = (value: string): boolean => value.startsWith(IMAGE_REF_PREFIX);
+
+const hashOf = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Stores an image given as a data URL and returns its reference. Values that are not
+ * data URLs (empty strings, bundled assets, existing references) are returned as is.
+ */
+export const storeImage = async (dataUrl: string): Promise<string> => {
+  const imageStore = images();
+  if (!imageStore || !dataUrl.startsWith('data:')) return dataUrl;
+
+  const blob = await (await fetch(dataUrl)).blob();
+  const hash = toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  // Checked in the store itself, since another tab may have deleted an image stored earlier.
+  if (!(await imageStore.getItem(hash))) {
+    await imageStore.setItem(hash, blob);
+  }
+  return `${IMAGE_REF_PREFIX}${hash}`;
+};
+
+/**
+ * Returns a URL an <img> can display for a stored image reference, or an empty
+ * string if the image is missing. Anything that is not a reference passes through.
+ */
+export const resolveImageUrl = (ref: string): Promise<string> => {
+  const imageStore = images();
+  if (!imageStore || !isImageRef(ref)) return Promise.resolve(ref);
+
+  let url = objectUrls.get(ref);
+  if (!url) {
+    url = imageStore.getItem<Blob>(hashOf(ref)).then(blob => blob ? URL.createObjectURL(blob) : '');
+    objectUrls.set(ref, url);
+  }
+  return url;
+};
+
+/** Loads a stored image back into a data URL, for exports and for models that take image input. */
+export const loadImageAsDataUrl = async (ref: string): Promise<string> => {
+  const imageStore = images();
+  if (!imageStore || !isImageRef(ref)) return ref;
+
+  const blob = await imageStore.getItem<Blob>(hashOf(ref));
+  if (!blob) return '';
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/** Deletes the stored images with the given references. */
+export const deleteImages = async (refs: string[]): Promise<void> => {
+  const imageStore = images();
+  if (!imageStore) return;
+
+  for (const ref of refs.filter(isImageRef)) {
+    await imageStore.removeItem(hashOf(ref));
+    const url = objectUrls.get(ref);
+    if (url) {
+      objectUrls.delete(ref);
+      url.then(value => value && URL.revokeObjectURL(value));
+    }
+  }
+};
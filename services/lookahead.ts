@@ -0,0 +1,96 @@
+import { GameSession, Language, StoryStep } from "../types";
+import { generateNextStep, NextStepResult } from "./geminiService";
+import { recordChoice } from "../lib/rules";
+import { getStepEnding } from "../lib/endings";
+import { getNextSceneNode } from "../lib/sceneGraph";
+
+// Speculative pre-generation. While the player reads a scene, the follow-up scenes
+// (story and images) for its first few choices are generated in the background. If
+// the player picks one of them, processChoice commits the finished result instead of
+// waiting for a new request; the others are aborted.
+
+/** Choices pre-generated per scene, selectable in the UI. Zero turns look-ahead off. */
+export const LOOKAHEAD_BUDGETS = [0, 1, 2, 3];
+
+interface Speculation {
+  choice: string;
+  controller: AbortController;
+  /** Set once the request has started. */
+  result: Promise<NextStepResult> | null;
+}
+
+export interface Lookahead {
+  /**
+   * Starts pre-generating the scenes behind the first `budget` choices of the last
+   * step of the history. Calling it again for the same version of the step, language and budget is a no-op.
+   */
+  start(session: GameSession, history: StoryStep[], language: Language, budget: number): void;
+  /**
+   * Claims the speculation for a choice made on a step, if one has started, and
+   * cancels every other one.
+   */
+  take(stepId: string, choice: string): Promise<NextStepResult> | null;
+  /** Aborts everything that is still running. */
+  cancel(): void;
+}
+
+export const createLookahead = (): Lookahead => {
+  let key: string | null = null;
+  let speculations: Speculation[] = [];
+
+  const cancel = () => {
+    speculations.forEach(speculation => speculation.controller.abort());
+    speculations = [];
+    key = null;
+  };
+
+  const run = async (session: GameSession, history: StoryStep[], language: Language, pending: Speculation[]) => {
+    const lastStep = history[history.length - 1];
+    // One request at a time, so look-ahead never bursts through the key's rate limit.
+    for (const speculation of pending) {
+      if (speculation.controller.signal.aborted) continue;
+      // Rolls are seeded by step and choice, so the speculated check matches the one processChoice will roll.
+      const historyWithChoice = [...history.slice(0, -1), recordChoice(lastStep, speculation.choice, false, session.ruleset)];
+      speculation.result = generateNextStep(session, historyWithChoice, speculation.choice, language, undefined, speculation.controller.signal);
+      try {
+        await speculation.result;
+      } catch (error) {
+        if (!speculation.controller.signal.aborted) {
+          // A failure usually means the key is struggling; don't spend more on this step.
+          console.warn("Look-ahead generation failed:", error);
+          return;
+        }
+      }
+    }
+  };
+
+  return {
+    start: (session, history, language, budget) => {
+      const lastStep = history[history.length - 1];
+      // A reroll or edit keeps the step id but adds a version, which makes earlier speculations stale.
+      const nextKey = lastStep && `${lastStep.id}|${lastStep.versions?.length ?? 0}|${language}|${budget}`;
+      if (nextKey === key) return;
+      cancel();
+      if (!lastStep || budget <= 0 || lastStep.choiceMade || getStepEnding(lastStep)) return;
+
+      key = nextKey;
+      // Authored scenes need no generation, so they don't use up the budget.
+      const graph = session.scenario?.sceneGraph;
+      const generated = lastStep.choices.filter(choice => getNextSceneNode(graph, lastStep, choice)?.kind !== 'fixed');
+      speculations = generated.slice(0, budget).map(choice => ({ choice, controller: new AbortController(), result: null }));
+      run(session, history, language, speculations);
+    },
+
+    take: (stepId, choice) => {
+      const match = key?.startsWith(`${stepId}|`)
+        ? speculations.find(speculation => speculation.choice === choice && speculation.result)
+        : undefined;
+      speculations.filter(speculation => speculation !== match).forEach(speculation => speculation.controller.abort());
+      speculations = [];
+      key = null;
+      return match?.result ?? null;
+    },
+
+    cancel,
+  };
+};
@@ -0,0 +1,201 @@
+import { GeminiResponse } from "../types";
+import { AspectRatio, StoryProvider } from "./storyProvider";
+import { encode } from "../lib/audioUtils";
+
+// An offline backend that answers every request with canned, deterministic content.
+// The same prompt always yields the same scene, image and audio, which makes it
+// suitable for UI work, demos and tests without network access or API quota.
+
+const cannedScenes: GeminiResponse[] = [
+  {
+    title: 'The Lantern at the Crossroads',
+    story: 'Rain drums on the roof of the abandoned waystation as you shake the water from your cloak. A single lantern still burns on the counter, its flame an impossible shade of green.\n\nThree roads leave the crossroads outside: one climbs towards a ruined watchtower, one sinks into a whispering marsh, and one follows the river to a distant mill.',
+    choices: ['Take the green lantern and climb to the watchtower', 'Wade into the whispering marsh', 'Follow the river to the mill'],
+    inventory: [
+      { id: 'green-lantern', name: 'Green Lantern', quantity: 1, description: 'An old brass lantern whose flame burns an impossible shade of green.', category: 'tool', usable: true, imagePrompt: 'An old brass lantern burning with an eerie green flame.' },
+    ],
+    currentQuest: 'Discover who left the green lantern burning.',
+    imagePrompt: 'A lonely waystation at a rainy crossroads at night, a green lantern glowing on a wooden counter.',
+    mood: 'mysterious',
+    codexUpdates: [
+      { name: 'The Waystation', kind: 'location', description: 'An abandoned waystation at a crossroads, where a green lantern was left burning.', status: 'visited', relatedItems: ['Green Lantern'] },
+    ],
+    questUpdates: [
+      { id: 'green-lantern', title: 'The Green Lantern', status: 'active', description: 'Someone left a lantern burning with green fire in an abandoned waystation.', objectives: [{ text: 'Find out who lit the lantern', done: false }] },
+    ],
+    newCharacters: [
+      { name: 'The Wanderer', isProtagonist: true, appearance: 'A lean traveller in their thirties with a weathered face, short dark hair and a grey hooded cloak over a leather jerkin.' },
+    ],
+    charactersInScene: ['The Wanderer'],
+    choiceChecks: [
+      { attribute: 'strength', skill: 'climbing', dc: 10 },
+      { attribute: 'agility', skill: '', dc: 12 },
+      { attribute: 'none', skill: '', dc: 0 },
+    ],
+    healthChange: 0,
+    skillsGained: [],
+    ending: 'none',
+    nextBeat: '',
+  },
+  {
+    title: 'The Lantern at the Crossroads',
+    story: 'The watchtower stairs groan beneath your boots. At the top, a cartographer\'s desk sits beneath a collapsed roof, its maps pinned down by a rusted compass that spins lazily towards the marsh.\n\nSomething scrapes against the stones below. Whatever it is, it is climbing.',
+    choices: ['Pocket the compass and hide behind the desk', 'Hold the lantern over the stairwell', 'Leap from the tower into the hay cart below'],
+    inventory: [
+      { id: 'green-lantern', name: 'Green Lantern', quantity: 1, description: 'An old brass lantern whose flame burns an impossible shade of green.', category: 'tool', usable: true, imagePrompt: 'An old brass lantern burning with an eerie green flame.' },
+      { id: 'rusted-compass', name: 'Rusted Compass', quantity: 1, description: 'A cartographer\'s compass whose needle always turns towards the marsh.', category: 'tool', usable: true, imagePrompt: 'A rusted brass compass with a trembling needle.' },
+    ],
+    currentQuest: 'Follow the compass to the source of the green flame.',
+    imagePrompt: 'The top of a ruined stone watchtower, an old desk covered in maps under a broken roof, rain falling through.',
+    mood: 'tense',
+    codexUpdates: [
+      { name: 'The Watchtower', kind: 'location', description: 'A ruined watchtower above the crossroads, once used by a cartographer.', status: 'visited', relatedItems: ['Rusted Compass'] },
+      { name: 'The Climber', kind: 'character', description: 'Something unseen that climbs the watchtower stairs after you.', status: 'hostile', relatedItems: [] },
+    ],
+    questUpdates: [
+      { id: 'green-lantern', title: 'The Green Lantern', status: 'active', description: 'The compass from the watchtower points towards the source of the green flame.', objectives: [{ text: 'Search the watchtower', done: true }, { text: 'Find out who lit the lantern', done: false }] },
+      { id: 'escape-the-climber', title: 'Escape the Climber', status: 'active', description: 'Something is climbing the watchtower stairs.', objectives: [{ text: 'Get away from the watchtower unseen', done: false }] },
+    ],
+    newCharacters: [],
+    charactersInScene: [],
+    choiceChecks: [
+      { attribute: 'agility', skill: 'stealth', dc: 13 },
+      { attribute: 'charisma', skill: '', dc: 11 },
+      { attribute: 'agility', skill: 'acrobatics', dc: 15 },
+    ],
+    healthChange: -2,
+    skillsGained: [],
+    ending: 'none',
+    nextBeat: '',
+  },
+  {
+    title: 'The Lantern at the Crossroads',
+    story: 'The marsh falls silent the moment you step into it. Lights bob between the reeds, each one the same green as your lantern, and a voice you almost recognise calls your name.\n\nA flat-bottomed boat waits at the edge of the water, its pole already wet.',
+    choices: ['Answer the voice', 'Push off in the boat', 'Snuff out the lantern and wait in the dark'],
+    inventory: [
+      { id: 'green-lantern', name: 'Green Lantern', quantity: 1, description: 'An old brass lantern whose flame burns an impossible shade of green.', category: 'tool', usable: true, imagePrompt: 'An old brass lantern burning with an eerie green flame.' },
+    ],
+    currentQuest: 'Find out who is calling from the marsh.',
+    imagePrompt: 'A foggy marsh at night with floating green will-o-wisp lights among tall reeds and a small wooden boat.',
+    mood: 'mysterious',
+    codexUpdates: [
+      { name: 'The Whispering Marsh', kind: 'location', description: 'A marsh full of green lights where a familiar voice calls your name.', status: 'visited', relatedItems: ['Green Lantern'] },
+    ],
+    questUpdates: [
+      { id: 'escape-the-climber', title: 'Escape the Climber', status: 'completed', description: 'You left the watchtower before whatever was climbing it reached you.', objectives: [{ text: 'Get away from the watchtower unseen', done: true }] },
+    ],
+    newCharacters: [],
+    charactersInScene: ['The Wanderer'],
+    choiceChecks: [
+      { attribute: 'none', skill: '', dc: 0 },
+      { attribute: 'strength', skill: '', dc: 8 },
+      { attribute: 'intellect', skill: 'survival', dc: 14 },
+    ],
+    healthChange: 0,
+    skillsGained: ['navigation'],
+    ending: 'none',
+    nextBeat: '',
+  },
+];
+
+const cannedAdventureIdeas = [
+  'A retired lighthouse keeper discovers that the lamp she tended for forty years was holding back something beneath the waves, and tonight it has gone out.',
+  'A junior courier on a generation ship must deliver a sealed letter to the captain before the ship reaches a planet nobody remembers choosing.',
+];
+
+const cannedStyleIdeas = [
+  'Moody watercolour with ink outlines and muted autumn colours',
+  'Bold retro travel-poster art with flat shapes and warm sunset gradients',
+];
+
+const cannedSummary = 'Guided by a lantern burning with green fire, the adventurer explored the ruined watchtower and the whispering marsh, finding a rusted compass that always points towards the source of the flame.';
+
+const cannedEpilogue = 'Years later, travellers still speak of the green flame at the crossroads. Some say it was a warning, others a welcome; you never told anyone which it had been.\n\nThe lantern sits on your mantelpiece now, unlit. On quiet nights, its glass still feels warm.';
+
+const placeholderColors = ['#0f766e', '#b45309', '#6d28d9', '#be123c', '#1d4ed8', '#4d7c0f'];
+
+// Simple, stable string hash (djb2) so canned answers only depend on their input.
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const pick = <T>(items: T[], seed: string): T => items[hashString(seed) % items.length];
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const createPlaceholderImage = (prompt: string, aspectRatio: AspectRatio): string => {
+  const [width, height] = aspectRatio === '16:9' ? [1280, 720] : [512, 512];
+  const color = pick(placeholderColors, prompt);
+  const label = prompt.length > 60 ? `${prompt.substring(0, 57)}...` : prompt;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="100%" height="100%" fill="${color}"/>`
+    + `<text x="50%" y="50%" fill="#f8fafc" font-family="sans-serif" font-size="${Math.round(width / 40)}" text-anchor="middle" dominant-baseline="middle">${escapeXml(label)}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const createSilentAudio = (text: string): string => {
+  // 16-bit mono PCM at 24kHz, roughly 50ms per word, capped at three seconds.
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(3, Math.max(0.5, words * 0.05));
+  return encode(new Uint8Array(Math.round(24000 * seconds) * 2));
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').trim();
+
+const STREAM_CHUNKS = 20;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = (latencyMs = 300): StoryProvider => {
+  const delay = async <T>(value: T, signal?: AbortSignal): Promise<T> => {
+    await wait(latencyMs);
+    signal?.throwIfAborted();
+    return value;
+  };
+
+  return {
+    id: 'mock',
+
+    generateScene: async ({ prompt, onProgress, signal }) => {
+      const json = JSON.stringify(pick(cannedScenes, prompt));
+      if (onProgress) {
+        // Emulate a streamed response by revealing the serialized scene in chunks,
+        // slowly enough for the streaming UI to be visible.
+        const chunkSize = Math.ceil(json.length / STREAM_CHUNKS);
+        for (let end = chunkSize; end < json.length + chunkSize; end += chunkSize) {
+          await wait(latencyMs / 4);
+          signal?.throwIfAborted();
+          onProgress(json.substring(0, end));
+        }
+      }
+      return delay(json, signal);
+    },
+
+    generateText: ({ prompt, purpose }) => {
+      if (purpose === 'summary') return delay(cannedSummary);
+      if (purpose === 'epilogue') return delay(cannedEpilogue);
+      if (purpose === 'rating-review') return delay('OK');
+      return delay(pick(purpose === 'style-idea' ? cannedStyleIdeas : cannedAdventureIdeas, prompt));
+    },
+
+    interpretChoice: ({ speech, choices }) => {
+      const spoken = normalize(speech);
+      if (!spoken) return delay('UNCLEAR');
+      const match = choices.find(choice => {
+        const normalizedChoice = normalize(choice);
+        return normalizedChoice.includes(spoken) || spoken.includes(normalizedChoice);
+      });
+      return delay(match ?? 'UNCLEAR');
+    },
+
+    generateImage: ({ prompt, aspectRatio, signal }) => delay(createPlaceholderImage(prompt, aspectRatio), signal),
+
+    generateSpeech: (text) => delay(createSilentAudio(text)),
+  };
+};
@@ -0,0 +1,127 @@
+import { ProviderRequestError, StoryProvider } from "./storyProvider";
+import { sceneJsonSchema } from "./sceneSchema";
+
+export interface OpenAICompatibleConfig {
+  /** Base URL of the API, including the version segment, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string;
+  model: string;
+  /** Most local servers ignore this, but some proxies require one. */
+  apiKey?: string;
+  /** Images and speech are not part of the chat API, so they are delegated to another provider. */
+  mediaProvider: StoryProvider;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+// Reads a server-sent event stream of chat completion chunks, reporting the text as it grows.
+const readStream = async (body: ReadableStream<Uint8Array>, onProgress: (textSoFar: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onProgress(text);
+      }
+    }
+  }
+  return text;
+};
+
+/**
+ * A text backend for locally hosted models behind an OpenAI-compatible
+ * /chat/completions endpoint (Ollama, llama.cpp server, LM Studio, ...).
+ * Scene responses are constrained with the scene JSON schema, which these
+ * servers compile into a sampling grammar.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey, mediaProvider }: OpenAICompatibleConfig): StoryProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const complete = async (
+    messages: ChatMessage[],
+    temperature: number,
+    responseFormat?: object,
+    onProgress?: (textSoFar: string) => void,
+    signal?: AbortSignal,
+  ): Promise<string> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        stream: !!onProgress,
+        ...(responseFormat && { response_format: responseFormat }),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderRequestError(response.status, `Local model request failed with status ${response.status}: ${detail}`);
+    }
+
+    const content = onProgress && response.body
+      ? await readStream(response.body, onProgress)
+      : (await response.json() as ChatCompletionResponse).choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("No content received from local model.");
+    }
+    return content.trim();
+  };
+
+  return {
+    id: 'local',
+
+    generateScene: async ({ prompt, systemInstruction, onProgress, signal }) => {
+      // Smaller local models follow the schema far more reliably when they can also read it.
+      const schemaInstruction = `${systemInstruction}\n\nThe JSON object MUST match this JSON schema:\n${JSON.stringify(sceneJsonSchema)}`;
+      return complete(
+        [
+          { role: 'system', content: schemaInstruction },
+          { role: 'user', content: prompt },
+        ],
+        0.9,
+        { type: 'json_schema', json_schema: { name: 'scene', strict: true, schema: sceneJsonSchema } },
+        onProgress,
+        signal,
+      );
+    },
+
+    generateText: ({ prompt, temperature }) => complete([{ role: 'user', content: prompt }], temperature),
+
+    interpretChoice: ({ prompt }) => complete([{ role: 'user', content: prompt }], 0.1),
+
+    generateImage: (request) => mediaProvider.generateImage(request),
+
+    generateSpeech: (text) => mediaProvider.generateSpeech(text),
+  };
+};
@@ -0,0 +1,55 @@
+import { StoryProvider } from "./storyProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+
+// STORY_PROVIDER selects the backend explicitly ('gemini', 'local' or 'mock'). When it is
+// unset we use Gemini if an API key is configured and fall back to the offline mock.
+const PROVIDER_ID = process.env.STORY_PROVIDER;
+const API_KEY = process.env.API_KEY;
+const LOCAL_LLM_URL = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1';
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY;
+
+let activeProvider: StoryProvider | null = null;
+
+const createConfiguredProvider = (): StoryProvider => {
+  switch (PROVIDER_ID) {
+    case 'gemini':
+      return createGeminiProvider(API_KEY);
+    case 'local':
+      return createOpenAICompatibleProvider({
+        baseUrl: LOCAL_LLM_URL,
+        model: LOCAL_LLM_MODEL,
+        apiKey: LOCAL_LLM_API_KEY,
+        // Local servers only do text; images and speech come from Gemini when possible.
+        mediaProvider: API_KEY ? createGeminiProvider(API_KEY) : createMockProvider(),
+      });
+    case 'mock':
+      return createMockProvider();
+    case undefined:
+    case '':
+      if (API_KEY) {
+        return createGeminiProvider(API_KEY);
+      }
+      console.warn("API_KEY not set, using the offline mock story provider.");
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown STORY_PROVIDER "${PROVIDER_ID}".`);
+  }
+};
+
+export const getStoryProvider = (): StoryProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with a mock in tests. Passing null
+ * restores the provider configured through the environment on next use.
+ */
+export const setStoryProvider = (provider: StoryProvider | null): void => {
+  activeProvider = provider;
+};
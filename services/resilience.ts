@@ -0,0 +1,67 @@
+import { GenerationFailureReason } from "../types";
+
+/**
+ * Thrown by the story service when a turn could not be generated, with the
+ * reason the UI should report to the player.
+ */
+export class StoryGenerationError extends Error {
+  constructor(
+    public readonly reason: GenerationFailureReason,
+    message: string,
+    public readonly details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'StoryGenerationError';
+  }
+}
+
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Both the Gemini SDK's ApiError and ProviderRequestError expose the HTTP status.
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const isRateLimitError = (error: unknown): boolean =>
+  statusOf(error) === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test((error as Error)?.message ?? '');
+
+export const isTransientError = (error: unknown): boolean => {
+  const status = statusOf(error);
+  if (status !== undefined) return TRANSIENT_STATUSES.has(status);
+  // fetch rejects with a TypeError when the network itself fails.
+  if (error instanceof TypeError) return true;
+  return isRateLimitError(error) || /UNAVAILABLE|overloaded|timed? ?out/i.test((error as Error)?.message ?? '');
+};
+
+export interface BackoffOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number) => void;
+  /** Stops retrying once aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs an operation, retrying transient and rate-limit failures with exponential
+ * backoff and jitter. Other errors, and the last transient one, are rethrown as is.
+ */
+export const withBackoff = async <T>(
+  operation: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, onRetry, signal }: BackoffOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isTransientError(error)) throw error;
+      onRetry?.(error, attempt + 1);
+      // Rate limits need more breathing room than a dropped connection.
+      const base = baseDelayMs * (isRateLimitError(error) ? 2 : 1);
+      const delay = Math.min(maxDelayMs, base * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      signal?.throwIfAborted();
+    }
+  }
+};
@@ -0,0 +1,192 @@
+import { FixedSceneNode, GenerativeSceneNode, SceneGraph, SceneItem, SceneNode, ScenarioPack } from "../types";
+import { validateSceneGraph } from "../lib/sceneGraph";
+import { JsonSchema, validateAgainstSchema } from "./sceneSchema";
+
+// A scenario pack file is a single JSON object marked with this format name, so that
+// the import dialog can tell it apart from exported sessions.
+export const SCENARIO_PACK_FORMAT = 'sagaforge-scenario';
+export const SCENARIO_PACK_VERSION = 1;
+
+/** A scenario pack as written to a file. */
+export interface ScenarioPackFile extends ScenarioPack {
+  format: typeof SCENARIO_PACK_FORMAT;
+  version: number;
+}
+
+const scenarioPackSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: [SCENARIO_PACK_FORMAT] },
+    version: { type: 'integer' },
+    id: { type: 'string' },
+    title: { type: 'string', minLength: 1 },
+    lore: { type: 'string', minLength: 1 },
+    startingLocation: { type: 'string', minLength: 1 },
+    startingInventory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          quantity: { type: 'integer' },
+          description: { type: 'string' },
+          category: { type: 'string', enum: ['weapon', 'armor', 'consumable', 'tool', 'key', 'document', 'treasure', 'misc'] },
+          usable: { type: 'boolean' },
+        },
+        required: ['name'],
+      },
+    },
+    startingQuest: { type: 'string', minLength: 1 },
+    npcs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          role: { type: 'string' },
+          appearance: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+    toneRules: { type: 'array', items: { type: 'string' } },
+    stylePrompt: { type: 'string' },
+    sceneGraph: {
+      type: 'object',
+      properties: {
+        startNodeId: { type: 'string' },
+        nodes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', minLength: 1 },
+              kind: { type: 'string', enum: ['fixed', 'generative'] },
+              label: { type: 'string' },
+              trigger: { type: 'string' },
+              story: { type: 'string' },
+              choices: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { text: { type: 'string', minLength: 1 }, target: { type: 'string' } },
+                  required: ['text'],
+                },
+              },
+              imageUrl: { type: 'string' },
+              imagePrompt: { type: 'string' },
+              currentQuest: { type: 'string' },
+              mood: { type: 'string' },
+              ending: { type: 'string', enum: ['none', 'victory', 'defeat', 'bittersweet'] },
+              brief: { type: 'string' },
+              next: { type: 'string' },
+            },
+            required: ['id', 'kind'],
+          },
+        },
+      },
+      required: ['nodes'],
+    },
+  },
+  required: ['format', 'title', 'lore', 'startingLocation', 'startingQuest'],
+};
+
+export class ScenarioPackError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid scenario pack: ${errors.join('; ')}`);
+    this.name = 'ScenarioPackError';
+  }
+}
+
+// A node as written in a file, where everything but the id and kind may be left out.
+type SceneNodeFile = Pick<SceneNode, 'id' | 'kind'> & Partial<Omit<FixedSceneNode, 'kind'> & Omit<GenerativeSceneNode, 'kind'>>;
+
+const toSceneNode = (node: SceneNodeFile): SceneNode => {
+  const base = { id: node.id.trim(), label: node.label ?? '', trigger: node.trigger ?? '' };
+  if (node.kind === 'generative') {
+    return { ...base, kind: 'generative', brief: node.brief ?? '', next: node.next ?? '' };
+  }
+  return {
+    ...base,
+    kind: 'fixed',
+    story: node.story ?? '',
+    choices: (node.choices ?? []).map(choice => ({ text: choice.text.trim(), target: choice.target ?? '' })),
+    imageUrl: node.imageUrl ?? '',
+    imagePrompt: node.imagePrompt ?? '',
+    currentQuest: node.currentQuest ?? '',
+    mood: node.mood || 'mysterious',
+    ending: node.ending ?? 'none',
+  };
+};
+
+/** Whether a parsed JSON value claims to be a scenario pack, valid or not. */
+export const isScenarioPackFile = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && (value as { format?: unknown }).format === SCENARIO_PACK_FORMAT;
+
+/**
+ * Checks a scenario pack file and fills in the optional fields. A pack without an id
+ * gets a new one. Throws a ScenarioPackError listing every problem if the shape is wrong.
+ */
+export const parseScenarioPack = (value: unknown): ScenarioPack => {
+  const errors = validateAgainstSchema(value, scenarioPackSchema, 'scenario');
+  if (errors.length > 0) throw new ScenarioPackError(errors);
+  if ((value as ScenarioPackFile).version > SCENARIO_PACK_VERSION) {
+    throw new ScenarioPackError([`scenario.version ${(value as ScenarioPackFile).version} is newer than this app supports`]);
+  }
+
+  const file = value as Partial<ScenarioPackFile>;
+  const sceneGraph: SceneGraph | undefined = file.sceneGraph && {
+    startNodeId: file.sceneGraph.startNodeId ?? '',
+    nodes: file.sceneGraph.nodes.map(toSceneNode),
+  };
+  const graphErrors = sceneGraph ? validateSceneGraph(sceneGraph) : [];
+  if (graphErrors.length > 0) throw new ScenarioPackError(graphErrors.map(error => `scenario.sceneGraph: ${error}`));
+
+  return {
+    id: file.id?.trim() || crypto.randomUUID(),
+    title: file.title!.trim(),
+    lore: file.lore!.trim(),
+    startingLocation: file.startingLocation!.trim(),
+    startingInventory: (file.startingInventory ?? []).map(item => ({
+      name: item.name.trim(),
+      quantity: Math.max(1, item.quantity ?? 1),
+      description: item.description ?? '',
+      category: item.category ?? 'misc',
+      usable: item.usable ?? false,
+    })),
+    startingQuest: file.startingQuest!.trim(),
+    npcs: (file.npcs ?? []).map(npc => ({ name: npc.name.trim(), role: npc.role ?? '', appearance: npc.appearance ?? '' })),
+    toneRules: (file.toneRules ?? []).map(rule => rule.trim()).filter(Boolean),
+    stylePrompt: file.stylePrompt?.trim() ?? '',
+    ...(sceneGraph && { sceneGraph }),
+  };
+};
+
+export const toScenarioPackFile = (pack: ScenarioPack): ScenarioPackFile => ({
+  format: SCENARIO_PACK_FORMAT,
+  version: SCENARIO_PACK_VERSION,
+  ...pack,
+});
+
+/** Formats the world of a scenario pack for the system instruction, which every turn sees. */
+export const describeScenario = (pack: ScenarioPack): string => {
+  const npcs = pack.npcs.map(npc => `\n- ${npc.name}${npc.role ? ` (${npc.role})` : ''}${npc.appearance ? `. Appearance: ${npc.appearance}` : ''}`).join('');
+  const toneRules = pack.toneRules.map(rule => `\n- ${rule}`).join('');
+  return `SCENARIO "${pack.title}"\nWORLD LORE: ${pack.lore}${npcs && `\nCHARACTERS OF THE WORLD:${npcs}`}${toneRules && `\nTONE RULES:${toneRules}`}`;
+};
+
+/** Formats how the first scene of an adventure in this scenario must begin. */
+export const describeScenarioStart = (pack: ScenarioPack): string => {
+  const inventory = pack.startingInventory.length > 0
+    ? pack.startingInventory.map(item => `\n- ${item.name} x${item.quantity} (${item.category}${item.usable ? ', usable' : ''})${item.description ? `: ${item.description}` : ''}`).join('')
+    : ' (empty)';
+  return `STARTING LOCATION: ${pack.startingLocation}\nSTARTING QUEST: ${pack.startingQuest}\nSTARTING INVENTORY:${inventory}`;
+};
+
+/** The starting inventory of a pack as scene items, for adventures whose opening is authored rather than generated. */
+export const toSceneItems = (pack: ScenarioPack): SceneItem[] =>
+  pack.startingInventory.map(item => ({
+    ...item,
+    id: item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || crypto.randomUUID(),
+    imagePrompt: `${item.name}. ${item.description}`,
+  }));
@@ -0,0 +1,45 @@
+import { ScenarioPack } from "../types";
+import { loadImageAsDataUrl, storeImage } from "./imageStore";
+
+// Scenario packs are kept together under one key. Images uploaded for authored scenes
+// are moved into the image store when a pack is saved, since every adventure started
+// from the pack carries a copy of it; exports put them back inline as data URLs so that
+// packs still travel as one file.
+
+// Let TypeScript know about the global localforage object from the CDN script
+declare const localforage: any;
+
+const SCENARIO_PACKS_KEY = 'sagaforge-scenario-packs';
+
+const isAvailable = () => typeof localforage !== 'undefined';
+
+/** Applies a transformation to the image of every authored scene of a pack. */
+export const mapScenarioImages = async (pack: ScenarioPack, transform: (image: string) => Promise<string>): Promise<ScenarioPack> => {
+  if (!pack.sceneGraph) return pack;
+  const nodes = await Promise.all(pack.sceneGraph.nodes.map(async node =>
+    node.kind === 'fixed' ? { ...node, imageUrl: await transform(node.imageUrl) } : node));
+  return { ...pack, sceneGraph: { ...pack.sceneGraph, nodes } };
+};
+
+/** Replaces image references with data URLs, making the pack self-contained for export. */
+export const inlineScenarioImages = (pack: ScenarioPack): Promise<ScenarioPack> => mapScenarioImages(pack, loadImageAsDataUrl);
+
+export const loadScenarioPacks = async (): Promise<ScenarioPack[]> => {
+  if (!isAvailable()) return [];
+  return (await localforage.getItem(SCENARIO_PACKS_KEY)) ?? [];
+};
+
+/** Stores imported packs, replacing any with the same id, and returns every pack. */
+export const importScenarioPacks = async (packs: ScenarioPack[]): Promise<ScenarioPack[]> => {
+  const interned = await Promise.all(packs.map(pack => mapScenarioImages(pack, storeImage)));
+  const ids = new Set(packs.map(pack => pack.id));
+  const updated = [...(await loadScenarioPacks()).filter(pack => !ids.has(pack.id)), ...interned];
+  await localforage.setItem(SCENARIO_PACKS_KEY, updated);
+  return updated;
+};
+
+export const deleteScenarioPack = async (packId: string): Promise<ScenarioPack[]> => {
+  const updated = (await loadScenarioPacks()).filter(pack => pack.id !== packId);
+  await localforage.setItem(SCENARIO_PACKS_KEY, updated);
+  return updated;
+};
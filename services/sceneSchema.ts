@@ -0,0 +1,249 @@
+import { GeminiResponse } from "../types";
+
+/** The subset of JSON Schema used to describe model responses. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  /** Not forwarded to Gemini, whose schema format lacks them; always checked by validateAgainstSchema. */
+  minLength?: number;
+  minItems?: number;
+}
+
+// The shape every scene response must have. Backends enforce it in whatever way they
+// support (Gemini's responseSchema, JSON-schema constrained decoding, ...) and the
+// result is always checked again with parseScene before it becomes a StoryStep.
+export const sceneJsonSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: {
+      type: 'string',
+      description: 'A short, catchy title for the adventure. Max 5-7 words.'
+    },
+    story: {
+      type: 'string',
+      minLength: 1,
+      description: 'The next part of the story. Should be 1-2 paragraphs long.'
+    },
+    choices: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      description: 'An array of 3 distinct and meaningful choices for the player.',
+    },
+    inventory: {
+      type: 'array',
+      items: {
+          type: 'object',
+          properties: {
+              id: { type: 'string', minLength: 1, description: 'The exact id of an item the player already has, or a new short kebab-case id for a new item (e.g., "healing-potion").' },
+              name: { type: 'string', minLength: 1 },
+              quantity: { type: 'integer', description: 'How many of this item the player carries. Identical items stack in one entry.' },
+              description: { type: 'string', description: 'A short, one sentence description of the item and its lore.' },
+              category: { type: 'string', enum: ['weapon', 'armor', 'consumable', 'tool', 'key', 'document', 'treasure', 'misc'] },
+              usable: { type: 'boolean', description: 'Whether the player can use the item as an action (e.g., drink a potion, read a letter, light a lantern).' },
+              imagePrompt: { type: 'string', minLength: 1, description: 'A detailed, brief EN-US prompt for an image generator for this specific item. E.g., "A glowing blue potion in a corked glass vial."' }
+          },
+          required: ['id', 'name', 'quantity', 'description', 'category', 'usable', 'imagePrompt']
+      },
+      description: "An array of objects representing the player's current inventory. Must include all previous items, with their ids, unless they were used up or lost.",
+    },
+    currentQuest: {
+      type: 'string',
+      description: 'A single string describing the current main quest or objective.',
+    },
+    imagePrompt: {
+      type: 'string',
+      minLength: 1,
+      description: 'A detailed prompt for an image generator, focusing only on the content of the scene (characters, action, environment). This prompt must be in English. Do NOT include art style descriptions.',
+    },
+    mood: {
+      type: 'string',
+      description: "A single keyword in English classifying the mood of the scene (e.g., 'calm', 'tense', 'action', 'mysterious', 'uplifting', 'sad')."
+    },
+    codexUpdates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, description: 'The name of the character, place, faction, item or fact, exactly as used before if it already exists in the codex.' },
+          kind: { type: 'string', enum: ['character', 'location', 'faction', 'item', 'fact'] },
+          description: { type: 'string', description: 'The full, current one or two sentence description, including what the player knows so far.' },
+          status: { type: 'string', description: "A single English keyword for the current status (e.g., 'alive', 'dead', 'missing', 'ally', 'hostile', 'visited', 'destroyed', 'confirmed', 'rumor')." },
+          relatedItems: { type: 'array', items: { type: 'string' }, description: 'Names of inventory items, characters or places closely tied to this entry.' },
+        },
+        required: ['name', 'kind', 'description', 'status', 'relatedItems'],
+      },
+      description: 'Codex entries for every named character, place, faction, notable item or established fact that appeared or changed in this scene. Only include new or changed entries.',
+    },
+    questUpdates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', minLength: 1, description: 'The exact id of a quest already in the journal, or a new short kebab-case id for a new quest (e.g., "find-the-lighthouse-keeper").' },
+          title: { type: 'string', minLength: 1, description: 'A short title for the quest.' },
+          status: { type: 'string', enum: ['active', 'completed', 'failed'] },
+          description: { type: 'string', description: 'One or two sentences on what the quest is about and where it stands.' },
+          objectives: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string', minLength: 1, description: 'A concrete step towards the quest, worded the same way every time it is reported.' },
+                done: { type: 'boolean' },
+              },
+              required: ['text', 'done'],
+            },
+            description: 'Every objective of the quest, done or not.',
+          },
+        },
+        required: ['id', 'title', 'status', 'description', 'objectives'],
+      },
+      description: 'Quest journal changes: quests that start in this scene and quests whose status, description or objectives change. Only include new or changed quests.',
+    },
+    newCharacters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, description: 'The name used for the character in the story and the codex.' },
+          isProtagonist: { type: 'boolean', description: 'True only for the player character.' },
+          appearance: { type: 'string', minLength: 1, description: 'A concise EN-US visual description: age, build, face, hair, skin, clothing and distinctive features. No art style.' },
+        },
+        required: ['name', 'isProtagonist', 'appearance'],
+      },
+      description: 'Character sheets to create: the protagonist in the first scene, and any recurring named character who appears for the first time and does not have a sheet yet.',
+    },
+    charactersInScene: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Names of the characters with a character sheet (including new ones) who are visible in the scene image.',
+    },
+    choiceChecks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          attribute: { type: 'string', enum: ['strength', 'agility', 'intellect', 'charisma', 'none'], description: "The attribute tested by the choice, or 'none' if it needs no check or stats are not in use." },
+          skill: { type: 'string', description: 'A short English skill name that helps with the check (e.g., "stealth", "lockpicking"), or an empty string.' },
+          dc: { type: 'integer', description: 'Difficulty class from 5 (easy) to 20 (nearly impossible); 0 when the attribute is none.' },
+        },
+        required: ['attribute', 'skill', 'dc'],
+      },
+      description: "One check per choice, in the same order as 'choices'.",
+    },
+    healthChange: {
+      type: 'integer',
+      description: 'How much health the player lost (negative) or recovered (positive) in this scene. 0 if stats are not in use.',
+    },
+    skillsGained: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Short English names of skills the player learned in this scene. Usually empty.',
+    },
+    ending: {
+      type: 'string',
+      enum: ['none', 'victory', 'defeat', 'bittersweet'],
+      description: "'none' unless this scene is the final scene of the story; otherwise how the story ends.",
+    },
+    nextBeat: {
+      type: 'string',
+      description: "The id of the authored beat this scene leads into, or an empty string.",
+    },
+  },
+  required: ['title', 'story', 'choices', 'inventory', 'currentQuest', 'imagePrompt', 'mood', 'codexUpdates', 'questUpdates', 'newCharacters', 'charactersInScene', 'choiceChecks', 'healthChange', 'skillsGained', 'ending', 'nextBeat'],
+};
+
+export class SceneValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid scene response: ${errors.join('; ')}`);
+    this.name = 'SceneValidationError';
+  }
+}
+
+const validateAgainst = (value: unknown, schema: JsonSchema, path: string, errors: string[]): void => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (!(key in record) || record[key] === null || record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          validateAgainst(record[key], propertySchema, `${path}.${key}`, errors);
+        }
+      }
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => validateAgainst(item, schema.items!, `${path}[${index}]`, errors));
+      }
+      return;
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string`);
+      } else if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path} must not be empty`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be a boolean`);
+      }
+      return;
+  }
+};
+
+/** Returns a list of human-readable problems with a value, empty if it matches the schema. */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, rootName = 'response'): string[] => {
+  const errors: string[] = [];
+  validateAgainst(value, schema, rootName, errors);
+  return errors;
+};
+
+/**
+ * Parses raw model output into a scene, tolerating markdown code fences.
+ * Throws a SceneValidationError listing every problem if the shape is wrong.
+ */
+export const parseScene = (rawText: string): GeminiResponse => {
+  const jsonText = rawText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(jsonText);
+  } catch (e) {
+    throw new SceneValidationError([`response is not valid JSON (${(e as Error).message})`]);
+  }
+
+  const errors = validateAgainstSchema(value, sceneJsonSchema);
+  if (errors.length > 0) {
+    throw new SceneValidationError(errors);
+  }
+  return value as GeminiResponse;
+};
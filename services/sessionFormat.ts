@@ -0,0 +1,348 @@
+import { ChoiceField, GameSession, InventoryItem, StoryNode, StoryStep } from "../types";
+import { upgradeInventoryItem } from "../lib/inventory";
+import { toStoryTree } from "../lib/storyTree";
+import { PACING_MODES } from "../lib/pacing";
+import { CONTENT_RATINGS, DIFFICULTIES } from "../lib/presets";
+import { JsonSchema, validateAgainstSchema } from "./sceneSchema";
+
+// Sessions are stored and exported marked with the version of their format. Older ones
+// are brought up to date one version at a time on the way in, whether they come from
+// storage or a file, and only then checked against the current shape. Sessions saved
+// before the format was versioned are told apart by their shape:
+//   1. a single line of steps under 'history'
+//   2. every branch, as a tree of steps with parent pointers
+export const SESSION_FORMAT = 'sagaforge-session';
+export const SESSION_FORMAT_VERSION = 2;
+
+/** A session as written to storage or a file. */
+export interface SessionFile extends GameSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  /** When the record was written; tells the session store which of two writes is newer. */
+  savedAt?: number;
+}
+
+const itemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    quantity: { type: 'integer' },
+    description: { type: 'string' },
+    category: { type: 'string' },
+    usable: { type: 'boolean' },
+    imageUrl: { type: 'string' },
+  },
+  required: ['id', 'name', 'quantity', 'imageUrl'],
+};
+
+const statsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    health: { type: 'number' },
+    maxHealth: { type: 'number' },
+    attributes: { type: 'object' },
+    skills: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['health', 'maxHealth', 'attributes', 'skills'],
+};
+
+const checkResultSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    attribute: { type: 'string' },
+    dc: { type: 'number' },
+    roll: { type: 'number' },
+    modifier: { type: 'number' },
+    total: { type: 'number' },
+    success: { type: 'boolean' },
+  },
+  required: ['attribute', 'dc', 'roll', 'total', 'success'],
+};
+
+// The scene of a step, shared with its earlier versions.
+const sceneProperties: Record<string, JsonSchema> = {
+  story: { type: 'string' },
+  imageUrl: { type: 'string' },
+  choices: { type: 'array', items: { type: 'string' } },
+  inventory: { type: 'array', items: itemSchema },
+  currentQuest: { type: 'string' },
+  mood: { type: 'string' },
+  imagePrompt: { type: 'string' },
+  choiceChecks: {
+    type: 'array',
+    items: { type: 'object', properties: { attribute: { type: 'string' }, dc: { type: 'number' } }, required: ['attribute', 'dc'] },
+  },
+  stats: statsSchema,
+  ending: { type: 'string', enum: ['victory', 'defeat', 'bittersweet'] },
+  nextBeat: { type: 'string' },
+  editedByPlayer: { type: 'boolean' },
+};
+
+const stepSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...sceneProperties,
+    id: { type: 'string', minLength: 1 },
+    parentId: { type: 'string' },
+    choice: {
+      type: 'object',
+      properties: {
+        choiceMade: { type: 'string' },
+        isCustomAction: { type: 'boolean' },
+        checkResult: checkResultSchema,
+        endingRequested: { type: 'boolean' },
+      },
+    },
+    sceneNodeId: { type: 'string' },
+    versions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...sceneProperties,
+          replacedAt: { type: 'number' },
+          replacedBy: { type: 'string', enum: ['reroll', 'image', 'edit', 'revert'] },
+          codexUpdates: { type: 'array', items: { type: 'object' } },
+          questUpdates: { type: 'array', items: { type: 'object' } },
+        },
+        required: ['story', 'imageUrl', 'choices', 'inventory', 'replacedAt', 'replacedBy', 'codexUpdates', 'questUpdates'],
+      },
+    },
+  },
+  required: ['id', 'story', 'imageUrl', 'choices', 'inventory', 'currentQuest', 'mood'],
+};
+
+const revisionsSchema = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'array',
+  items: { type: 'object', properties: { stepId: { type: 'string' }, ...properties }, required: ['stepId'] },
+});
+
+const sessionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string' },
+    prompt: { type: 'string' },
+    visualStyle: { type: 'string' },
+    bannerUrl: { type: 'string' },
+    language: { type: 'string', enum: ['en', 'es', 'pt'] },
+    steps: { type: 'array', minItems: 1, items: stepSchema },
+    currentLeafId: { type: 'string' },
+    createdAt: { type: 'number' },
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { fromStepId: { type: 'string' }, toStepId: { type: 'string' }, summary: { type: 'string' }, synopsis: { type: 'string' } },
+        required: ['fromStepId', 'toStepId', 'summary', 'synopsis'],
+      },
+    },
+    codex: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          kind: { type: 'string' },
+          firstSeenStepId: { type: 'string' },
+          revisions: revisionsSchema({ description: { type: 'string' }, relatedItems: { type: 'array', items: { type: 'string' } } }),
+        },
+        required: ['name', 'kind', 'firstSeenStepId', 'revisions'],
+      },
+    },
+    quests: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          revisions: revisionsSchema({ title: { type: 'string' }, status: { type: 'string' }, objectives: { type: 'array', items: { type: 'object' } } }),
+        },
+        required: ['id', 'revisions'],
+      },
+    },
+    characters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, appearance: { type: 'string' }, portraitUrl: { type: 'string' } },
+        required: ['name', 'appearance', 'portraitUrl'],
+      },
+    },
+    ruleset: { type: 'object', properties: { seed: { type: 'string' } }, required: ['seed'] },
+    pacing: { type: 'string', enum: PACING_MODES },
+    difficulty: { type: 'string', enum: DIFFICULTIES },
+    contentRating: { type: 'string', enum: CONTENT_RATINGS },
+    scenario: { type: 'object', properties: { id: { type: 'string' }, title: { type: 'string' } }, required: ['id', 'title'] },
+    epilogues: {
+      type: 'array',
+      items: { type: 'object', properties: { stepId: { type: 'string' }, text: { type: 'string' }, imageUrl: { type: 'string' } }, required: ['stepId', 'text', 'imageUrl'] },
+    },
+    forkedFrom: {
+      type: 'object',
+      properties: { sessionId: { type: 'string' }, stepId: { type: 'string' }, title: { type: 'string' }, forkedAt: { type: 'number' } },
+      required: ['sessionId', 'stepId', 'title', 'forkedAt'],
+    },
+  },
+  required: ['id', 'title', 'prompt', 'visualStyle', 'bannerUrl', 'language', 'steps', 'currentLeafId', 'createdAt'],
+};
+
+export class SessionFormatError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid session: ${errors.join('; ')}`);
+    this.name = 'SessionFormatError';
+  }
+}
+
+/** A version 1 step, as far as the input schema of its migration checks it. */
+type LinearStepInput = Pick<StoryStep, 'id' | ChoiceField> & {
+  inventory: (Partial<Omit<InventoryItem, 'category'>> & Pick<InventoryItem, 'name' | 'imageUrl'>)[];
+};
+
+/** A version 1 session, with a single line of steps, as far as its migration's input schema checks it. */
+interface LinearSessionInput {
+  history: LinearStepInput[];
+}
+
+/** A migration whose input type is what its input schema checks. */
+interface Migration<T extends object> {
+  /** What the migration relies on in the session it is given; the rest is validated at the end. */
+  input: JsonSchema;
+  /** Given a session that matches the input schema. */
+  migrate: (session: T) => object;
+}
+
+// The session is a T once it matches the input schema of a Migration<T>.
+const matchesInput = <T extends object>(session: object, inputErrors: string[]): session is T => inputErrors.length === 0;
+
+/** Checks a session against the migration's input schema, then migrates it. */
+const defineMigration = <T extends object>({ input, migrate }: Migration<T>) => (session: object, name: string, from: number): object => {
+  const inputErrors = validateAgainstSchema(session, input, name);
+  if (!matchesInput<T>(session, inputErrors)) {
+    throw new SessionFormatError(inputErrors.map(error => `${error} (in version ${from})`));
+  }
+  return migrate(session);
+};
+
+// Each migration takes a session from the version at its index plus one to the next.
+const migrations = [
+  // 1 → 2: the line of steps becomes the only branch of a tree. Its inventory items may
+  // predate ids, quantities and categories.
+  defineMigration<LinearSessionInput>({
+    input: {
+      type: 'object',
+      properties: {
+        history: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              inventory: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    quantity: { type: 'integer' },
+                    description: { type: 'string' },
+                    usable: { type: 'boolean' },
+                    imageUrl: { type: 'string' },
+                  },
+                  required: ['name', 'imageUrl'],
+                },
+              },
+              choiceMade: { type: 'string' },
+              isCustomAction: { type: 'boolean' },
+              checkResult: checkResultSchema,
+              endingRequested: { type: 'boolean' },
+            },
+            required: ['id', 'inventory'],
+          },
+        },
+      },
+      required: ['history'],
+    },
+    migrate: ({ history, ...session }) => ({
+      ...session,
+      ...toStoryTree(history.map(step => ({ ...step, inventory: step.inventory.map(upgradeInventoryItem) }))),
+    }),
+  }),
+];
+
+// What the schema cannot say about the tree: every step id is unique, every parent
+// exists, following parents always reaches the opening scene, and the branch being
+// played ends on a step of the session.
+const validateStoryTree = (steps: StoryNode[], currentLeafId: string, path: string): string[] => {
+  const errors: string[] = [];
+  const byId = new Map<string, StoryNode>();
+  steps.forEach((step, index) => {
+    if (byId.has(step.id)) errors.push(`${path}.steps[${index}].id "${step.id}" is used by more than one step`);
+    byId.set(step.id, step);
+  });
+  if (steps.filter(step => !step.parentId).length !== 1) errors.push(`${path}.steps must have exactly one opening scene without a parentId`);
+  steps.forEach((step, index) => {
+    if (step.parentId === undefined) return;
+    if (!byId.has(step.parentId)) {
+      errors.push(`${path}.steps[${index}].parentId "${step.parentId}" is not a step of the session`);
+      return;
+    }
+    const seen = new Set<string>();
+    for (let node: StoryNode | undefined = step; node?.parentId; node = byId.get(node.parentId)) {
+      if (seen.has(node.id)) {
+        errors.push(`${path}.steps[${index}].parentId leads round in a loop`);
+        break;
+      }
+      seen.add(node.id);
+    }
+  });
+  if (!byId.has(currentLeafId)) errors.push(`${path}.currentLeafId "${currentLeafId}" is not a step of the session`);
+  return errors;
+};
+
+const getFormatVersion = (value: Record<string, unknown>): unknown =>
+  'version' in value ? value.version : 'history' in value ? 1 : 2;
+
+/**
+ * Brings a stored or imported session up to the current format and checks it. The name
+ * starts every problem reported. Throws a SessionFormatError listing every problem if the
+ * session is from a newer version of the app, cannot be migrated or is malformed.
+ */
+export const parseSession = (value: unknown, name = 'session'): GameSession => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SessionFormatError([`${name} must be an object`]);
+  }
+  const version = getFormatVersion(value as Record<string, unknown>);
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new SessionFormatError([`${name}.version must be a positive integer`]);
+  }
+  if (version > SESSION_FORMAT_VERSION) {
+    throw new SessionFormatError([`${name}.version ${version} is newer than this app supports`]);
+  }
+
+  let migrated: object = value;
+  for (let from = version; from < SESSION_FORMAT_VERSION; from++) {
+    migrated = migrations[from - 1](migrated, name, from);
+  }
+
+  const { format, version: _, savedAt, ...session } = migrated as Partial<SessionFile>;
+  const errors = validateAgainstSchema(session, sessionSchema, name);
+  if (errors.length === 0) errors.push(...validateStoryTree(session.steps!, session.currentLeafId!, name));
+  if (errors.length > 0) throw new SessionFormatError(errors);
+  return session as GameSession;
+};
+
+/** Names a session in problem reports by its title, or by the fallback if it has none. */
+export const describeSessionValue = (value: unknown, fallback: string): string => {
+  const title = typeof value === 'object' && value !== null ? (value as { title?: unknown }).title : undefined;
+  return typeof title === 'string' && title.trim() ? `session "${title.trim()}"` : fallback;
+};
+
+export const toSessionFile = (session: GameSession): SessionFile => ({
+  format: SESSION_FORMAT,
+  version: SESSION_FORMAT_VERSION,
+  savedAt: Date.now(),
+  ...session,
+});
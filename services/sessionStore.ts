@@ -0,0 +1,399 @@
+import { GameSession, QuarantinedSession, SessionSummary, StoryStep } from "../types";
+import { deleteImages, isImageRef, loadImageAsDataUrl, storeImage } from "./imageStore";
+import { describeSessionValue, parseSession, SessionFile, SessionFormatError, toSessionFile } from "./sessionFormat";
+import { getStorageBackend } from "./storageBackend";
+import { loadScenarioPacks, mapScenarioImages } from "./scenarioStore";
+import { broadcastSessionsChanged, withStorageLock } from "./tabSync";
+import { getStepEnding } from "../lib/endings";
+import { getStoryPath } from "../lib/storyTree";
+
+// Saved adventures are stored one record per session, plus a small index with what
+// the session list shows. Opening the app only reads the index; a session's history
+// is read when it is resumed. Images live in the image store and are referenced.
+// Sessions that cannot be read (see sessionFormat.ts) are moved to quarantine records
+// as they were, rather than dropped or half-loaded.
+//
+// Every change is a set of record writes that commit together: they are first written
+// to a journal entry, then applied, then the entry is removed. If the tab dies half
+// way, the next start finishes what the entry describes, so a session record and the
+// index never disagree for long and a crash never touches other adventures' records.
+// Other tabs are told about every commit, so their session lists stay current.
+
+/** The pre-index format: every session, with inline images, in a single array. */
+const LEGACY_SESSIONS_KEY = 'infinite-adventure-sessions';
+/** The quarantine as a single list, before it was split into one record per session. */
+const LEGACY_QUARANTINE_KEY = 'infinite-adventure-quarantine';
+const SESSION_INDEX_KEY = 'infinite-adventure-session-index';
+const SESSION_PREFIX = 'infinite-adventure-session:';
+const QUARANTINE_PREFIX = 'infinite-adventure-quarantine:';
+const JOURNAL_PREFIX = 'infinite-adventure-journal:';
+const sessionKey = (sessionId: string) => `${SESSION_PREFIX}${sessionId}`;
+const quarantineKey = (entryId: string) => `${QUARANTINE_PREFIX}${entryId}`;
+
+/** How long a session waits for further changes before it is written. */
+const SAVE_DELAY_MS = 500;
+
+type RecordWrite = { key: string; value: unknown } | { key: string; remove: true };
+
+interface JournalEntry {
+  startedAt: number;
+  writes: RecordWrite[];
+}
+
+const storage = () => getStorageBackend()!;
+const isAvailable = () => getStorageBackend() !== null;
+
+// Writes run one after another, in this tab and across tabs, so that an older save can
+// never land after a newer one and the read-modify-write of the index never interleaves.
+let writeQueue: Promise<unknown> = Promise.resolve();
+const enqueueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const next = writeQueue.then(() => withStorageLock(write));
+  writeQueue = next.catch(() => undefined);
+  return next;
+};
+
+const applyWrite = (write: RecordWrite) =>
+  'remove' in write ? storage().removeItem(write.key) : storage().setItem(write.key, write.value);
+
+/** Applies record writes all together or, after a crash, on the next start. */
+const commit = async (writes: RecordWrite[]) => {
+  const journalKey = `${JOURNAL_PREFIX}${crypto.randomUUID()}`;
+  await storage().setItem<JournalEntry>(journalKey, { startedAt: Date.now(), writes });
+  for (const write of writes) await applyWrite(write);
+  await storage().removeItem(journalKey);
+  broadcastSessionsChanged(writes.filter(write => write.key.startsWith(SESSION_PREFIX)).map(write => write.key.slice(SESSION_PREFIX.length)));
+};
+
+const readIndex = async (): Promise<SessionSummary[]> => (await storage().getItem<SessionSummary[]>(SESSION_INDEX_KEY)) ?? [];
+
+const withSummary = (index: SessionSummary[], summary: SessionSummary) => index.some(s => s.id === summary.id)
+  ? index.map(s => s.id === summary.id ? summary : s)
+  : [summary, ...index];
+
+const toQuarantined = (value: unknown, source: QuarantinedSession['source'], name: string, errors: string[]): QuarantinedSession => ({
+  id: crypto.randomUUID(),
+  source,
+  name,
+  errors,
+  quarantinedAt: Date.now(),
+  data: value,
+});
+
+export const toSessionSummary = (session: GameSession): SessionSummary => {
+  const path = getStoryPath(session);
+  return {
+    id: session.id,
+    title: session.title,
+    prompt: session.prompt,
+    visualStyle: session.visualStyle,
+    bannerUrl: session.bannerUrl,
+    language: session.language,
+    createdAt: session.createdAt,
+    stepCount: path.length,
+    ending: path.length > 0 ? getStepEnding(path[path.length - 1]) : undefined,
+    difficulty: session.difficulty,
+    contentRating: session.contentRating,
+    forkedFrom: session.forkedFrom,
+  };
+};
+
+/** Applies a transformation to every image in a session, running it once per distinct image. */
+const mapSessionImages = async (session: GameSession, transform: (image: string) => Promise<string>): Promise<GameSession> => {
+  const results = new Map<string, Promise<string>>();
+  const map = (image: string) => {
+    if (!results.has(image)) results.set(image, transform(image));
+    return results.get(image)!;
+  };
+
+  // Steps and their earlier versions hold images in the same places.
+  const mapScene = async <T extends Pick<StoryStep, 'imageUrl' | 'inventory'>>(scene: T): Promise<T> => ({
+    ...scene,
+    imageUrl: await map(scene.imageUrl),
+    inventory: await Promise.all(scene.inventory.map(async item => ({ ...item, imageUrl: await map(item.imageUrl) }))),
+  });
+
+  const [bannerUrl, steps, characters, epilogues, scenario] = await Promise.all([
+    map(session.bannerUrl),
+    Promise.all(session.steps.map(async step => ({
+      ...await mapScene(step),
+      ...(step.versions && { versions: await Promise.all(step.versions.map(mapScene)) }),
+    }))),
+    session.characters && Promise.all(session.characters.map(async sheet => ({ ...sheet, portraitUrl: await map(sheet.portraitUrl) }))),
+    session.epilogues && Promise.all(session.epilogues.map(async epilogue => ({ ...epilogue, imageUrl: await map(epilogue.imageUrl) }))),
+    session.scenario && mapScenarioImages(session.scenario, map),
+  ]);
+
+  return { ...session, bannerUrl, steps, ...(characters && { characters }), ...(epilogues && { epilogues }), ...(scenario && { scenario }) };
+};
+
+// Looks for image references in every string of a record, so that sessions in any
+// format, and ones set aside because they could not be read, keep their images.
+const collectImageRefs = (value: unknown, refs: Set<string>): void => {
+  if (typeof value === 'string') {
+    if (isImageRef(value)) refs.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectImageRefs(item, refs));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(item => collectImageRefs(item, refs));
+  }
+};
+
+const collectRecordImageRefs = async (keys: string[]): Promise<Set<string>> => {
+  const refs = new Set<string>();
+  for (const key of keys) collectImageRefs(await storage().getItem(key), refs);
+  return refs;
+};
+
+// Deletes the images deleted records used, unless a saved session, a quarantined one or
+// a scenario pack still uses them. Images no record used are left alone: they may belong to a scene that
+// is being generated or is waiting to be saved, in this tab or another.
+const deleteOrphanedImages = async (candidates: Set<string>) => {
+  if (candidates.size === 0) return;
+  const keys = (await storage().keys()).filter(key => key.startsWith(SESSION_PREFIX) || key.startsWith(QUARANTINE_PREFIX));
+  const referenced = await collectRecordImageRefs(keys);
+  collectImageRefs(await loadScenarioPacks(), referenced);
+  await deleteImages([...candidates].filter(ref => !referenced.has(ref)));
+};
+
+/** Moves inline data URL images into the image store, leaving references behind. */
+export const internSessionImages = (session: GameSession): Promise<GameSession> => mapSessionImages(session, storeImage);
+
+/** Replaces image references with data URLs, making the session self-contained for export. */
+export const inlineSessionImages = (session: GameSession): Promise<GameSession> => mapSessionImages(session, loadImageAsDataUrl);
+
+const writeSession = (session: GameSession): Promise<SessionSummary[]> => enqueueWrite(async () => {
+  const index = withSummary(await readIndex(), toSessionSummary(session));
+  await commit([{ key: sessionKey(session.id), value: toSessionFile(session) }, { key: SESSION_INDEX_KEY, value: index }]);
+  return index;
+});
+
+interface PendingSave {
+  session: GameSession;
+  timer: ReturnType<typeof setTimeout>;
+  waiting: Array<{ resolve: (index: SessionSummary[]) => void; reject: (err: unknown) => void }>;
+}
+
+/** Saves waiting out their delay, by session id. */
+const pendingSaves = new Map<string, PendingSave>();
+
+const writePendingSave = async (sessionId: string): Promise<void> => {
+  const pending = pendingSaves.get(sessionId);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingSaves.delete(sessionId);
+  try {
+    const index = await writeSession(pending.session);
+    pending.waiting.forEach(({ resolve }) => resolve(index));
+  } catch (err) {
+    pending.waiting.forEach(({ reject }) => reject(err));
+  }
+};
+
+/**
+ * Saves a session whose images are already references and returns the updated index.
+ * The write waits a moment for further changes, so a burst of them is written once;
+ * every call in the burst resolves when that write lands.
+ */
+export const saveSession = (session: GameSession): Promise<SessionSummary[]> => new Promise((resolve, reject) => {
+  const pending = pendingSaves.get(session.id);
+  if (pending) clearTimeout(pending.timer);
+  pendingSaves.set(session.id, {
+    session,
+    timer: setTimeout(() => writePendingSave(session.id), SAVE_DELAY_MS),
+    waiting: [...(pending?.waiting ?? []), { resolve, reject }],
+  });
+});
+
+/** Drops a session's save still waiting out its delay, e.g. once another tab has taken the session over. */
+export const cancelSave = (sessionId: string): void => {
+  const pending = pendingSaves.get(sessionId);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingSaves.delete(sessionId);
+  readIndex().then(index => pending.waiting.forEach(({ resolve }) => resolve(index)), err => pending.waiting.forEach(({ reject }) => reject(err)));
+};
+
+/** Writes every save still waiting out its delay, e.g. before the page is hidden. */
+export const flushSaves = async (): Promise<void> => {
+  await Promise.all([...pendingSaves.keys()].map(writePendingSave));
+};
+
+/**
+ * Reads a session, migrating it to the current format. One that cannot be read is moved
+ * to the quarantine and taken off the index, and the SessionFormatError is rethrown.
+ */
+export const loadSession = async (sessionId: string): Promise<GameSession | null> => {
+  if (!isAvailable()) return null;
+  await writePendingSave(sessionId);
+  const stored = await storage().getItem<unknown>(sessionKey(sessionId));
+  if (stored === null) return null;
+  const name = describeSessionValue(stored, `session ${sessionId}`);
+  try {
+    return parseSession(stored, name);
+  } catch (err) {
+    if (err instanceof SessionFormatError) {
+      const entry = toQuarantined(stored, 'storage', name, err.errors);
+      await enqueueWrite(async () => commit([
+        { key: quarantineKey(entry.id), value: entry },
+        { key: sessionKey(sessionId), remove: true },
+        { key: SESSION_INDEX_KEY, value: (await readIndex()).filter(s => s.id !== sessionId) },
+      ]));
+    }
+    throw err;
+  }
+};
+
+// Reads sessions coming from outside, with their images moved into the image store, and
+// sets aside the values that cannot be read as sessions.
+const prepareImport = async (values: unknown[], source: QuarantinedSession['source']) => {
+  const sessions: GameSession[] = [];
+  const quarantined: QuarantinedSession[] = [];
+  values.forEach((value, i) => {
+    const name = describeSessionValue(value, `session ${i + 1}`);
+    try {
+      sessions.push(parseSession(value, name));
+    } catch (err) {
+      if (!(err instanceof SessionFormatError)) throw err;
+      quarantined.push(toQuarantined(value, source, name, err.errors));
+    }
+  });
+  return { sessions: await Promise.all(sessions.map(internSessionImages)), quarantined };
+};
+
+// The record writes that store prepared sessions and quarantine entries, with the index.
+const importWrites = async (sessions: GameSession[], quarantined: QuarantinedSession[]) => {
+  let index = await readIndex();
+  const writes: RecordWrite[] = quarantined.map(entry => ({ key: quarantineKey(entry.id), value: entry }));
+  for (const session of sessions) {
+    index = withSummary(index, toSessionSummary(session));
+    writes.push({ key: sessionKey(session.id), value: toSessionFile(session) });
+  }
+  writes.push({ key: SESSION_INDEX_KEY, value: index });
+  return { writes, index };
+};
+
+/**
+ * Stores imported sessions, replacing any with the same id, all in one commit. Values
+ * that cannot be read as sessions are quarantined instead of stored.
+ */
+export const importSessions = async (values: unknown[]): Promise<{ index: SessionSummary[]; quarantined: QuarantinedSession[] }> => {
+  const { sessions, quarantined } = await prepareImport(values, 'import');
+  const index = await enqueueWrite(async () => {
+    const { writes, index } = await importWrites(sessions, quarantined);
+    await commit(writes);
+    return index;
+  });
+  return { index, quarantined };
+};
+
+/** Deletes a session, and the images it used that no other session still uses. */
+export const deleteSession = (sessionId: string): Promise<SessionSummary[]> => {
+  // A save still waiting would bring the session back.
+  const pending = pendingSaves.get(sessionId);
+  if (pending) clearTimeout(pending.timer);
+  pendingSaves.delete(sessionId);
+
+  const deleted = enqueueWrite(async () => {
+    const index = (await readIndex()).filter(s => s.id !== sessionId);
+    const images = await collectRecordImageRefs([sessionKey(sessionId)]);
+    await commit([{ key: sessionKey(sessionId), remove: true }, { key: SESSION_INDEX_KEY, value: index }]);
+    await deleteOrphanedImages(images);
+    return index;
+  });
+  deleted.then(index => pending?.waiting.forEach(({ resolve }) => resolve(index)), err => pending?.waiting.forEach(({ reject }) => reject(err)));
+  return deleted;
+};
+
+export const loadQuarantine = async (): Promise<QuarantinedSession[]> => {
+  if (!isAvailable()) return [];
+  const keys = (await storage().keys()).filter(key => key.startsWith(QUARANTINE_PREFIX));
+  const entries = await Promise.all(keys.map(key => storage().getItem<QuarantinedSession>(key)));
+  return entries.filter((entry): entry is QuarantinedSession => entry !== null).sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+};
+
+/** Deletes quarantined sessions for good, with the images only they used. */
+export const discardQuarantinedSessions = (ids: string[]): Promise<QuarantinedSession[]> => enqueueWrite(async () => {
+  const images = await collectRecordImageRefs(ids.map(quarantineKey));
+  await commit(ids.map(id => ({ key: quarantineKey(id), remove: true })));
+  await deleteOrphanedImages(images);
+  return loadQuarantine();
+});
+
+// Rebuilds the index from the session records, quarantining any that cannot be read.
+const rebuildIndex = async () => {
+  const summaries: SessionSummary[] = [];
+  const writes: RecordWrite[] = [];
+  for (const key of (await storage().keys()).filter(k => k.startsWith(SESSION_PREFIX))) {
+    const stored = await storage().getItem<unknown>(key);
+    const name = describeSessionValue(stored, `session ${key.slice(SESSION_PREFIX.length)}`);
+    try {
+      summaries.push(toSessionSummary(parseSession(stored, name)));
+    } catch (err) {
+      if (!(err instanceof SessionFormatError)) throw err;
+      const entry = toQuarantined(stored, 'storage', name, err.errors);
+      writes.push({ key: quarantineKey(entry.id), value: entry }, { key, remove: true });
+    }
+  }
+  summaries.sort((a, b) => b.createdAt - a.createdAt);
+  await commit([...writes, { key: SESSION_INDEX_KEY, value: summaries }]);
+};
+
+/**
+ * Finishes the changes of journal entries left behind by a tab that closed or crashed
+ * mid-write, oldest first. Writes hold the storage lock, so no entry found here is one
+ * another tab is still applying. A record saved again since an entry was started keeps
+ * its newer content. The index is rebuilt from the records rather than replayed, since
+ * other tabs may have changed it in between.
+ */
+const recoverJournal = async () => {
+  const journalKeys = (await storage().keys()).filter(key => key.startsWith(JOURNAL_PREFIX));
+  if (journalKeys.length === 0) return;
+
+  const entries = await Promise.all(journalKeys.map(async key => ({ key, entry: await storage().getItem<JournalEntry>(key) })));
+  entries.sort((a, b) => (a.entry?.startedAt ?? 0) - (b.entry?.startedAt ?? 0));
+  for (const { key, entry } of entries) {
+    for (const write of entry?.writes ?? []) {
+      if (write.key === SESSION_INDEX_KEY) continue;
+      const current = await storage().getItem<Partial<SessionFile>>(write.key);
+      if ((current?.savedAt ?? 0) > entry!.startedAt) continue;
+      await applyWrite(write);
+    }
+    await storage().removeItem(key);
+  }
+  await rebuildIndex();
+};
+
+/** Reads the session index as it is now, e.g. after another tab changed it. */
+export const readSessionIndex = async (): Promise<SessionSummary[]> => isAvailable() ? readIndex() : [];
+
+/**
+ * Reads the session index, first finishing writes a crash interrupted and converting
+ * data saved in older layouts: the legacy single-array format into per-session records
+ * with stored images, and the single quarantine list into one record per entry.
+ */
+export const loadSessionIndex = async (): Promise<SessionSummary[]> => {
+  if (!isAvailable()) return [];
+
+  await enqueueWrite(recoverJournal);
+
+  // Each conversion checks for the old data and removes it in the same commit, under the
+  // storage lock, so that a tab starting at the same time cannot convert it a second time.
+  await enqueueWrite(async () => {
+    const legacyQuarantine = await storage().getItem<QuarantinedSession[]>(LEGACY_QUARANTINE_KEY);
+    if (!Array.isArray(legacyQuarantine)) return;
+    await commit([
+      ...legacyQuarantine.map(entry => ({ key: quarantineKey(entry.id), value: entry })),
+      { key: LEGACY_QUARANTINE_KEY, remove: true },
+    ]);
+  });
+
+  await enqueueWrite(async () => {
+    const legacySessions = await storage().getItem<unknown[]>(LEGACY_SESSIONS_KEY);
+    if (!Array.isArray(legacySessions)) return;
+    const { sessions, quarantined } = await prepareImport(legacySessions, 'storage');
+    const { writes } = await importWrites(sessions, quarantined);
+    await commit([...writes, { key: LEGACY_SESSIONS_KEY, remove: true }]);
+  });
+
+  return readIndex();
+};
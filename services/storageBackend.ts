@@ -0,0 +1,59 @@
+// Saved adventures and their images go through StorageBackends rather than localforage
+// directly, so that the session and image stores can run against in-memory backends in
+// tests and tools. Each store has a backend of its own.
+
+// Let TypeScript know about the global localforage object from the CDN script
+declare const localforage: any;
+
+/** A key-value store of structured-clonable values. Each single write is atomic. */
+export interface StorageBackend {
+  getItem<T>(key: string): Promise<T | null>;
+  setItem<T>(key: string, value: T): Promise<T>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/** Sessions share localforage's default database with the settings; images have their own. */
+export type StoreName = 'sessions' | 'images';
+
+const createLocalforageBackend = (store: StoreName): StorageBackend => {
+  const instance = store === 'images' ? localforage.createInstance({ name: 'sagaforge-images' }) : localforage;
+  return {
+    getItem: key => instance.getItem(key),
+    setItem: (key, value) => instance.setItem(key, value),
+    removeItem: key => instance.removeItem(key),
+    keys: () => instance.keys(),
+  };
+};
+
+/** Keeps everything in memory, cloning values on the way in and out as IndexedDB does. */
+export const createMemoryBackend = (): StorageBackend => {
+  const items = new Map<string, unknown>();
+  return {
+    getItem: async <T,>(key: string) => items.has(key) ? structuredClone(items.get(key)) as T : null,
+    setItem: async (key, value) => {
+      items.set(key, structuredClone(value));
+      return value;
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+    keys: async () => [...items.keys()],
+  };
+};
+
+const activeBackends = new Map<StoreName, StorageBackend>();
+
+/** The backend a store uses: localforage unless another was set. Null when neither is available. */
+export const getStorageBackend = (store: StoreName = 'sessions'): StorageBackend | null => {
+  if (!activeBackends.has(store) && typeof localforage !== 'undefined') {
+    activeBackends.set(store, createLocalforageBackend(store));
+  }
+  return activeBackends.get(store) ?? null;
+};
+
+/** Replaces a store's backend, e.g. with createMemoryBackend() in tests. Null goes back to localforage. */
+export const setStorageBackend = (backend: StorageBackend | null, store: StoreName = 'sessions'): void => {
+  if (backend) activeBackends.set(store, backend);
+  else activeBackends.delete(store);
+};
@@ -0,0 +1,119 @@
+import { ChapterSummary, Language, StoryStep } from "../types";
+import { getStoryProvider } from "./providers";
+import { withBackoff } from "./resilience";
+
+// Long-term memory for the model context. The most recent scenes are sent in full,
+// older ones are compressed into chapter summaries, and every chapter carries a
+// rolling synopsis of the whole story up to its end. The context therefore stays
+// bounded no matter how long the adventure runs.
+
+/** Scenes sent to the model in full. */
+const RECENT_SCENES = 4;
+/** Scenes compressed into each chapter summary. */
+const CHAPTER_SIZE = 8;
+/** Chapter summaries sent alongside the synopsis. */
+const CHAPTERS_IN_CONTEXT = 3;
+/** Length of the snippet used for scenes that are neither recent nor summarized yet. */
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Finds the chain of chapters that covers the start of this history, in order.
+ * Chapters written for a branch that is no longer on the path are skipped.
+ */
+export const getChaptersForPath = (history: StoryStep[], chapters: ChapterSummary[] = []): { chapters: ChapterSummary[], coveredSteps: number } => {
+  const path: ChapterSummary[] = [];
+  let coveredSteps = 0;
+
+  while (coveredSteps < history.length) {
+    const next = chapters.find(chapter => {
+      if (chapter.fromStepId !== history[coveredSteps].id) return false;
+      return history.findIndex(step => step.id === chapter.toStepId) >= coveredSteps;
+    });
+    if (!next) break;
+    path.push(next);
+    coveredSteps = history.findIndex(step => step.id === next.toStepId) + 1;
+  }
+
+  return { chapters: path, coveredSteps };
+};
+
+const describeScene = (step: StoryStep, full: boolean): string => {
+  const story = full || step.story.length <= SNIPPET_LENGTH ? step.story : `${step.story.substring(0, SNIPPET_LENGTH)}...`;
+  // A scene the player rewrote is canon as written, even where it contradicts what came before.
+  const label = step.editedByPlayer ? 'Scene (rewritten by the player, treat as canon)' : 'Scene';
+  if (!step.choiceMade) return `${label}: ${story}`;
+  return `${label}: ${story}\n${step.isCustomAction ? 'Player action (free-form)' : 'Choice'}: ${step.choiceMade}`;
+};
+
+/** Builds the story-so-far section of the next-step prompt. */
+export const buildStoryContext = (history: StoryStep[], chapters: ChapterSummary[] = []): string => {
+  const { chapters: pathChapters, coveredSteps } = getChaptersForPath(history, chapters);
+  const recentStart = Math.max(coveredSteps, history.length - RECENT_SCENES);
+  const sections: string[] = [];
+
+  if (pathChapters.length > 0) {
+    sections.push(`SYNOPSIS OF THE STORY SO FAR:\n${pathChapters[pathChapters.length - 1].synopsis}`);
+    const recentChapters = pathChapters.slice(-CHAPTERS_IN_CONTEXT);
+    const firstNumber = pathChapters.length - recentChapters.length + 1;
+    sections.push(`LATEST CHAPTERS:\n${recentChapters.map((chapter, i) => `Chapter ${firstNumber + i}: ${chapter.summary}`).join('\n')}`);
+  }
+
+  const olderScenes = history.slice(coveredSteps, recentStart);
+  if (olderScenes.length > 0) {
+    sections.push(`EARLIER SCENES:\n${olderScenes.map(step => describeScene(step, false)).join('\n')}`);
+  }
+
+  sections.push(`MOST RECENT SCENES:\n${history.slice(recentStart).map(step => describeScene(step, true)).join('\n\n')}`);
+
+  return sections.join('\n\n');
+};
+
+const summarizeChapter = async (steps: StoryStep[], language: Language): Promise<string> => {
+  const scenes = steps.map(step => describeScene(step, true)).join('\n\n');
+  const prompt = {
+    es: `Resume las siguientes escenas de una aventura interactiva en un solo párrafo (máximo 120 palabras). Conserva los nombres de personajes y lugares, los objetos obtenidos o perdidos, quién murió o cambió de bando, las promesas y los misterios sin resolver. Escribe en español y no incluyas nada más que el resumen.\n\n${scenes}`,
+    pt: `Resume as seguintes cenas de uma aventura interativa num único parágrafo (máximo 120 palavras). Mantém os nomes de personagens e locais, os objetos obtidos ou perdidos, quem morreu ou mudou de lado, as promessas e os mistérios por resolver. Escreve em português e não incluas nada além do resumo.\n\n${scenes}`,
+    en: `Summarize the following scenes of an interactive adventure in a single paragraph (max 120 words). Keep the names of characters and places, items gained or lost, who died or changed sides, promises made and unresolved mysteries. Do not include anything other than the summary.\n\n${scenes}`,
+  }[language];
+
+  return withBackoff(() => getStoryProvider().generateText({ prompt, temperature: 0.3, purpose: 'summary' }));
+};
+
+const mergeSynopsis = async (previousSynopsis: string | undefined, chapterSummary: string, language: Language): Promise<string> => {
+  if (!previousSynopsis) return chapterSummary;
+  const prompt = {
+    es: `Esta es la sinopsis de una aventura hasta ahora:\n${previousSynopsis}\n\nY esto es lo que ocurrió después:\n${chapterSummary}\n\nEscribe una sinopsis actualizada de toda la historia en un máximo de 200 palabras. Prioriza los hechos que sigan siendo relevantes para la trama. Escribe en español y no incluyas nada más que la sinopsis.`,
+    pt: `Esta é a sinopse de uma aventura até agora:\n${previousSynopsis}\n\nE isto é o que aconteceu a seguir:\n${chapterSummary}\n\nEscreve uma sinopse atualizada de toda a história com um máximo de 200 palavras. Dá prioridade aos factos que continuam relevantes para a trama. Escreve em português e não incluas nada além da sinopse.`,
+    en: `This is the synopsis of an adventure so far:\n${previousSynopsis}\n\nAnd this is what happened next:\n${chapterSummary}\n\nWrite an updated synopsis of the whole story in at most 200 words. Prioritize facts that are still relevant to the plot. Do not include anything other than the synopsis.`,
+  }[language];
+
+  return withBackoff(() => getStoryProvider().generateText({ prompt, temperature: 0.3, purpose: 'summary' }));
+};
+
+/**
+ * Compresses scenes that have fallen out of the recent window into new chapters.
+ * Returns the updated chapter list, or null when nothing needed compressing.
+ */
+export const compressStoryMemory = async (history: StoryStep[], chapters: ChapterSummary[] = [], language: Language): Promise<ChapterSummary[] | null> => {
+  const { chapters: pathChapters, coveredSteps: alreadyCovered } = getChaptersForPath(history, chapters);
+  let coveredSteps = alreadyCovered;
+  const newChapters: ChapterSummary[] = [];
+
+  while (history.length - RECENT_SCENES - coveredSteps >= CHAPTER_SIZE) {
+    const steps = history.slice(coveredSteps, coveredSteps + CHAPTER_SIZE);
+    const previous = newChapters[newChapters.length - 1] ?? pathChapters[pathChapters.length - 1];
+    const summary = await summarizeChapter(steps, language);
+    const synopsis = await mergeSynopsis(previous?.synopsis, summary, language);
+
+    newChapters.push({
+      id: crypto.randomUUID(),
+      fromStepId: steps[0].id,
+      toStepId: steps[steps.length - 1].id,
+      summary,
+      synopsis,
+    });
+    coveredSteps += CHAPTER_SIZE;
+  }
+
+  return newChapters.length > 0 ? [...chapters, ...newChapters] : null;
+};
@@ -0,0 +1,69 @@
+import { Language } from "../types";
+
+export type ImageQuality = 'high-quality' | 'fast';
+export type AspectRatio = '16:9' | '1:1';
+
+export interface SceneRequest {
+  prompt: string;
+  systemInstruction: string;
+  language: Language;
+  /**
+   * When given, the backend streams the response and calls this with all the raw
+   * text received so far after every chunk.
+   */
+  onProgress?: (textSoFar: string) => void;
+  /** Aborts the request, e.g. when a speculative turn is no longer needed. */
+  signal?: AbortSignal;
+}
+
+export interface TextRequest {
+  prompt: string;
+  temperature: number;
+  /** What the text is for, so backends without a real model can pick a sensible canned answer. */
+  purpose: 'adventure-idea' | 'style-idea' | 'summary' | 'epilogue' | 'rating-review';
+}
+
+export interface ChoiceInterpretationRequest {
+  prompt: string;
+  speech: string;
+  choices: string[];
+}
+
+export interface ImageRequest {
+  /** Full prompt, including the visual style. */
+  prompt: string;
+  quality: ImageQuality;
+  aspectRatio: AspectRatio;
+  /**
+   * Data URLs of images the result should stay consistent with, e.g. character
+   * portraits. Backends whose model cannot take image input rely on the prompt alone.
+   */
+  referenceImages?: string[];
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of running a SagaForge game. Prompt construction lives in
+ * geminiService.ts; providers only turn those prompts into model output.
+ */
+export interface StoryProvider {
+  readonly id: string;
+  /** Returns the raw JSON text of the scene for a turn; the caller validates it. */
+  generateScene(request: SceneRequest): Promise<string>;
+  /** Returns free-form text, e.g. a prompt or style idea. */
+  generateText(request: TextRequest): Promise<string>;
+  /** Returns the raw answer for a spoken choice: a choice text or "UNCLEAR". */
+  interpretChoice(request: ChoiceInterpretationRequest): Promise<string>;
+  /** Returns the image as a data URL. */
+  generateImage(request: ImageRequest): Promise<string>;
+  /** Returns base64-encoded 16-bit PCM audio at 24kHz. */
+  generateSpeech(text: string): Promise<string>;
+}
+
+/** A failed HTTP request to a backend, carrying the status so callers can decide whether to retry. */
+export class ProviderRequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
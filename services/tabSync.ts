@@ -0,0 +1,166 @@
+// SagaForge can be open in several tabs of the same browser, all sharing one storage.
+// Tabs coordinate in two ways:
+//   - Web Locks, which the browser releases by itself when a tab closes or crashes.
+//     One lock serializes writes to storage across tabs. There is also one lock per
+//     adventure, held by the tab playing it; other tabs can only watch it.
+//   - A BroadcastChannel, which tells the other tabs when saved adventures change
+//     and when an adventure is opened, and carries the hand-over of an adventure's
+//     lock: the tab taking an adventure over first asks the one playing it to write
+//     its pending saves and let go, and only takes the lock by force if it gets no
+//     answer in time.
+// Where either API is missing, every tab acts as if it were the only one.
+
+const CHANNEL_NAME = 'sagaforge-sessions';
+const STORAGE_LOCK = 'sagaforge-storage';
+const sessionLockName = (sessionId: string) => `sagaforge-session:${sessionId}`;
+/** How long a tab taking an adventure over waits for the tab playing it to let go. */
+const HAND_OVER_TIMEOUT_MS = 3000;
+
+/** Tells this tab's messages apart from the ones other tabs send. */
+export const TAB_ID = crypto.randomUUID();
+
+export type TabMessage =
+  /** Session records or the index were written; the sessions named changed. */
+  | { type: 'sessions-changed'; tabId: string; sessionIds: string[] }
+  /** A tab started playing an adventure. */
+  | { type: 'session-opened'; tabId: string; sessionId: string }
+  /** A tab asks the one playing an adventure to hand its lock over. */
+  | { type: 'hand-over-request'; tabId: string; sessionId: string }
+  /** The tab that was playing an adventure wrote its saves and let go of the lock. */
+  | { type: 'handed-over'; tabId: string; sessionId: string };
+
+/** What the tab holding an adventure's edit lock is told about losing it. */
+export interface SessionLockHandlers {
+  /** Another tab has the lock now; this one must stop writing the adventure. */
+  onLost: () => void;
+  /** Another tab asked for the lock; writes what is still waiting before it is handed over. */
+  beforeHandOver: () => Promise<void>;
+}
+
+/** The edit lock on an adventure, held by this tab until released. */
+export interface SessionLock {
+  sessionId: string;
+  release: () => void;
+}
+
+const getLocks = (): LockManager | null =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+
+/** Hands over the lock of each adventure this tab plays, by session id. */
+const handOvers = new Map<string, () => Promise<void>>();
+
+let channel: BroadcastChannel | null | undefined;
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    channel?.addEventListener('message', (e: MessageEvent<TabMessage>) => {
+      const handOver = e.data?.type === 'hand-over-request' && handOvers.get(e.data.sessionId);
+      if (!handOver) return;
+      const { sessionId } = e.data as { sessionId: string };
+      handOver()
+        .catch(err => console.error("Failed to hand the adventure over", err))
+        .finally(() => postMessage({ type: 'handed-over', tabId: TAB_ID, sessionId }));
+    });
+  }
+  return channel;
+};
+
+const postMessage = (message: TabMessage) => {
+  getChannel()?.postMessage(message);
+};
+
+/** Calls the listener with every message another tab sends. Returns a function that stops listening. */
+export const onTabMessage = (listener: (message: TabMessage) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+  const handleMessage = (e: MessageEvent<TabMessage>) => {
+    if (e.data?.tabId !== TAB_ID) listener(e.data);
+  };
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+};
+
+export const broadcastSessionsChanged = (sessionIds: string[]): void => {
+  postMessage({ type: 'sessions-changed', tabId: TAB_ID, sessionIds });
+};
+
+export const broadcastSessionOpened = (sessionId: string): void => {
+  postMessage({ type: 'session-opened', tabId: TAB_ID, sessionId });
+};
+
+/** Runs a write while no other tab is writing to storage. */
+export const withStorageLock = <T>(write: () => Promise<T>): Promise<T> => {
+  const locks = getLocks();
+  return locks ? locks.request(STORAGE_LOCK, write) : write();
+};
+
+// Asks the tab playing an adventure to hand it over, resolving once it has or after the
+// timeout, e.g. when that tab is frozen in the background.
+const requestHandOver = (sessionId: string): Promise<void> => new Promise(resolve => {
+  const stop = onTabMessage(message => {
+    if (message.type === 'handed-over' && message.sessionId === sessionId) done();
+  });
+  const timer = setTimeout(() => done(), HAND_OVER_TIMEOUT_MS);
+  const done = () => {
+    clearTimeout(timer);
+    stop();
+    resolve();
+  };
+  postMessage({ type: 'hand-over-request', tabId: TAB_ID, sessionId });
+});
+
+/**
+ * Takes the edit lock on an adventure. Resolves with null if another tab holds it, unless
+ * `takeOver` is set: the other tab is then asked to hand the lock over, and loses it by
+ * force if it does not answer. The handlers are called if this tab loses the lock in turn.
+ */
+export const acquireSessionLock = async (sessionId: string, handlers: SessionLockHandlers, takeOver = false): Promise<SessionLock | null> => {
+  const locks = getLocks();
+  if (!locks) return { sessionId, release: () => {} };
+  if (takeOver) await requestHandOver(sessionId);
+
+  return new Promise((resolve, reject) => {
+    let releaseHeld!: () => void;
+    const held = new Promise<void>(r => { releaseHeld = r; });
+    const handOver = async () => {
+      await handlers.beforeHandOver();
+      release();
+      handlers.onLost();
+    };
+    const forget = () => {
+      if (handOvers.get(sessionId) === handOver) handOvers.delete(sessionId);
+    };
+    const release = () => {
+      forget();
+      releaseHeld();
+    };
+    let acquired = false;
+    locks.request(sessionLockName(sessionId), takeOver ? { steal: true } : { ifAvailable: true }, async lock => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      acquired = true;
+      getChannel();
+      handOvers.set(sessionId, handOver);
+      resolve({ sessionId, release });
+      await held;
+    }).catch(err => {
+      // A lock that was stolen rejects the request that held it.
+      if (acquired && err?.name === 'AbortError') {
+        forget();
+        handlers.onLost();
+      } else if (!acquired) {
+        reject(err);
+      }
+    });
+  });
+};
+
+/** Whether a tab holds the edit lock on an adventure; ask about ones this tab is not playing. */
+export const isSessionOpenElsewhere = async (sessionId: string): Promise<boolean> => {
+  const locks = getLocks();
+  if (!locks) return false;
+  const { held = [] } = await locks.query();
+  return held.some(lock => lock.name === sessionLockName(sessionId));
+};
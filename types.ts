@@ -1,17 +1,135 @@
+export type Language = 'en' | 'es' | 'pt';
+
+
+export type ItemCategory = 'weapon' | 'armor' | 'consumable' | 'tool' | 'key' | 'document' | 'treasure' | 'misc';
+
+/** An inventory item as reported by the model for one scene. */
+export interface SceneItem {
+  /** Stable across scenes; the model reuses it whenever the item is kept or changed. */
+  id: string;
+  name: string;
+  quantity: number;
+  description: string;
+  category: ItemCategory;
+  /** Whether the player can use the item as their action. */
+  usable: boolean;
+  imagePrompt: string;
+}
 
 export interface InventoryItem {
+  id: string;
   name: string;
+  quantity: number;
+  description: string;
+  category: ItemCategory;
+  usable: boolean;
+  /** A stored image reference (see services/imageStore.ts), or a plain URL. */
   imageUrl: string;
 }
 
+export type CodexKind = 'character' | 'location' | 'faction' | 'item' | 'fact';
+
+/** A codex change reported by the model for one scene. */
+export interface CodexUpdate {
+  name: string;
+  kind: CodexKind;
+  description: string;
+  status: string;
+  relatedItems: string[];
+}
+
+export type QuestStatus = 'active' | 'completed' | 'failed';
+
+export interface QuestObjective {
+  text: string;
+  done: boolean;
+}
+
+/** A quest change reported by the model for one scene. */
+export interface QuestUpdate {
+  /** Stable across scenes; the model reuses it whenever the quest changes. */
+  id: string;
+  title: string;
+  status: QuestStatus;
+  description: string;
+  /** The full list of objectives, not only the changed ones. */
+  objectives: QuestObjective[];
+}
+
+export type EndingType = 'victory' | 'defeat' | 'bittersweet';
+
+/** A recurring character the model introduced, to be given a character sheet. */
+export interface NewCharacter {
+  name: string;
+  isProtagonist: boolean;
+  /** Canonical visual description, in English. */
+  appearance: string;
+}
+
+export type Attribute = 'strength' | 'agility' | 'intellect' | 'charisma';
+
+/** The player character's sheet under the optional ruleset. */
+export interface PlayerStats {
+  health: number;
+  maxHealth: number;
+  /** Modifiers added to checks, usually between -1 and +3. */
+  attributes: Record<Attribute, number>;
+  skills: string[];
+}
+
+/** The check a choice requires. An attribute of 'none' means the outcome is not left to the dice. */
+export interface ChoiceCheck {
+  attribute: Attribute | 'none';
+  /** A skill that helps with the check, or empty. */
+  skill: string;
+  /** Difficulty class: the total the roll must reach. */
+  dc: number;
+}
+
+/** A check rolled locally for the choice made on a step. */
+export interface CheckResult {
+  attribute: Attribute;
+  skill: string;
+  dc: number;
+  /** The d20 roll. */
+  roll: number;
+  /** Attribute modifier plus the skill bonus, if the player has the skill. */
+  modifier: number;
+  total: number;
+  success: boolean;
+}
+
 export interface GeminiResponse {
   title: string;
   story: string;
   choices: string[];
-  inventory: Array<{ name: string; imagePrompt: string }>;
+  inventory: SceneItem[];
   currentQuest: string;
   imagePrompt: string;
   mood: string;
+  codexUpdates: CodexUpdate[];
+  questUpdates: QuestUpdate[];
+  newCharacters: NewCharacter[];
+  charactersInScene: string[];
+  /** One check per choice, in the same order. */
+  choiceChecks: ChoiceCheck[];
+  healthChange: number;
+  skillsGained: string[];
+  /** 'none' unless this scene ends the story. */
+  ending: EndingType | 'none';
+  /** The id of the authored beat this scene leads into, or empty. */
+  nextBeat: string;
+}
+
+/**
+ * The parts of a scene that have arrived so far while it is being streamed.
+ * `story` grows as text arrives; the other fields only appear once complete.
+ */
+export interface PartialScene {
+  story: string;
+  choices?: string[];
+  inventory?: SceneItem[];
+  currentQuest?: string;
 }
 
 export interface StoryStep {
@@ -23,19 +141,329 @@ export interface StoryStep {
   currentQuest: string;
   mood: string;
   choiceMade?: string;
+  /** Set when choiceMade is a free-form action the player wrote or said, not one of the offered choices. */
+  isCustomAction?: boolean;
+  /** Ruleset only: the checks for this step's choices, in the same order. */
+  choiceChecks?: ChoiceCheck[];
+  /** Ruleset only: the roll that decided choiceMade, if it required a check. */
+  checkResult?: CheckResult;
+  /** Ruleset only: the player's stats after this step's scene. */
+  stats?: PlayerStats;
+  /** Set when the player asked for choiceMade to bring the story to a close. */
+  endingRequested?: boolean;
+  /** Set when this step's scene ends the story. */
+  ending?: EndingType;
+  /** The scene graph node this step was played from, in adventures with authored scenes. */
+  sceneNodeId?: string;
+  /** The authored beat the model led into; the next scene is that beat, whatever the choice. */
+  nextBeat?: string;
+  /** The prompt the scene's image was drawn from. Absent on steps saved before it was kept. */
+  imagePrompt?: string;
+  /** Set once the player has rewritten the scene's text or choices by hand. */
+  editedByPlayer?: boolean;
+  /** Earlier versions of this scene, oldest first, replaced by rerolls, new images or edits. */
+  versions?: StepVersion[];
+}
+
+/** What replaced a version of a step. */
+export type StepChange = 'reroll' | 'image' | 'edit' | 'revert';
+
+/** The fields of a step that belong to one version of its scene. */
+export type StepContentField = 'story' | 'choices' | 'imageUrl' | 'imagePrompt' | 'inventory' | 'currentQuest' | 'mood' | 'choiceChecks' | 'stats' | 'ending' | 'nextBeat' | 'editedByPlayer';
+
+export interface StepVersion extends Pick<StoryStep, StepContentField> {
+  replacedAt: number;
+  replacedBy: StepChange;
+  /** The codex and quest changes this version made, restored with it. */
+  codexUpdates: CodexUpdate[];
+  questUpdates: QuestUpdate[];
+}
+
+/** The fields of a step that record the choice made on it, rather than its scene. */
+export type ChoiceField = 'choiceMade' | 'isCustomAction' | 'checkResult' | 'endingRequested';
+
+/**
+ * A step as stored in a session's story tree. A step can be left by a different choice on
+ * every branch, so the choice that led to a step is stored on that step, not on its parent.
+ */
+export interface StoryNode extends Omit<StoryStep, ChoiceField> {
+  /** The step this one follows; absent on the opening scene. */
+  parentId?: string;
+  /** The choice made on the parent step that led here. */
+  choice?: Pick<StoryStep, ChoiceField>;
+}
+
+/** A compressed stretch of older scenes, used as long-term memory for the model. */
+export interface ChapterSummary {
+  id: string;
+  /** First and last step covered by this chapter. */
+  fromStepId: string;
+  toStepId: string;
+  summary: string;
+  /** Rolling synopsis of the whole story up to the end of this chapter. */
+  synopsis: string;
+}
+
+export interface CodexRevision {
+  /** The step whose scene produced this revision. */
+  stepId: string;
+  description: string;
+  status: string;
+  relatedItems: string[];
+}
+
+/** A named character, place or fact in the world, with its full revision history. */
+export interface CodexEntry {
+  id: string;
+  name: string;
+  kind: CodexKind;
+  firstSeenStepId: string;
+  revisions: CodexRevision[];
+}
+
+export interface QuestRevision {
+  /** The step whose scene produced this revision. */
+  stepId: string;
+  title: string;
+  status: QuestStatus;
+  description: string;
+  objectives: QuestObjective[];
+}
+
+/** A quest in the journal, with its full revision history. */
+export interface Quest {
+  id: string;
+  revisions: QuestRevision[];
+}
+
+/** An objective as known at a particular point in the story. */
+export interface QuestObjectiveState extends QuestObjective {
+  /** The step where the objective was completed, if it is done. */
+  doneStepIndex?: number;
+}
+
+/** A quest as known at a particular point in the story. */
+export interface QuestState {
+  id: string;
+  title: string;
+  status: QuestStatus;
+  description: string;
+  objectives: QuestObjectiveState[];
+  startedStepIndex: number;
+  /** The step where the quest got its current status. */
+  statusStepIndex: number;
 }
 
+/** The canonical look of a recurring character, reused by every image that shows them. */
+export interface CharacterSheet {
+  id: string;
+  name: string;
+  isProtagonist: boolean;
+  appearance: string;
+  /** Reference portrait; empty if it could not be generated. */
+  portraitUrl: string;
+}
+
+/** A codex entry as known at a particular point in the story. */
+export interface CodexEntryState {
+  id: string;
+  name: string;
+  kind: CodexKind;
+  firstSeenStepIndex: number;
+  description: string;
+  status: string;
+  relatedItems: string[];
+}
+
+/** The closing text and illustrated summary card written for an ending step. */
+export interface Epilogue {
+  stepId: string;
+  text: string;
+  /** A stored image reference (see services/imageStore.ts), or empty if it could not be generated. */
+  imageUrl: string;
+}
+
+export interface Ruleset {
+  /** Seeds every dice roll, so the same choice on the same step always rolls the same. */
+  seed: string;
+}
+
+/** An item a scenario pack gives the player at the start. The model assigns its id and image prompt. */
+export interface ScenarioItem {
+  name: string;
+  quantity: number;
+  description: string;
+  category: ItemCategory;
+  usable: boolean;
+}
+
+/** A character a scenario pack defines up front, for the story to bring in when it fits. */
+export interface ScenarioNpc {
+  name: string;
+  /** Who they are in the world, e.g. "the harbour master, secretly a smuggler". */
+  role: string;
+  /** Canonical visual description, in English. */
+  appearance: string;
+}
+
+/** A choice of an authored scene, and where it leads. */
+export interface SceneGraphChoice {
+  text: string;
+  /** The node the choice leads to, or empty to let the AI improvise what follows. */
+  target: string;
+}
+
+interface SceneNodeBase {
+  id: string;
+  /** The designer's name for the node, shown in the editor. */
+  label: string;
+  /** When set, the AI leads into this node once the story reaches the moment described. */
+  trigger: string;
+}
+
+/** A hand-written scene, played exactly as authored. */
+export interface FixedSceneNode extends SceneNodeBase {
+  kind: 'fixed';
+  story: string;
+  choices: SceneGraphChoice[];
+  /** An image URL or data URL; when empty, an image is generated from imagePrompt. */
+  imageUrl: string;
+  /** In English, like the model's image prompts. */
+  imagePrompt: string;
+  /** Replaces the player's current quest when set. */
+  currentQuest: string;
+  mood: string;
+  ending: EndingType | 'none';
+}
+
+/** A scene the AI writes within the designer's constraints. */
+export interface GenerativeSceneNode extends SceneNodeBase {
+  kind: 'generative';
+  /** What the scene must contain or achieve. */
+  brief: string;
+  /** The node every choice of the generated scene leads to, or empty to keep improvising. */
+  next: string;
+}
+
+export type SceneNode = FixedSceneNode | GenerativeSceneNode;
+
+/** Authored beats of a scenario. The AI improvises whatever happens between them. */
+export interface SceneGraph {
+  /** The node the adventure opens with, or empty to let the AI write the opening. */
+  startNodeId: string;
+  nodes: SceneNode[];
+}
+
+/** A premade world that adventures can start in, shared as a JSON file (see services/scenarioPack.ts). */
+export interface ScenarioPack {
+  id: string;
+  title: string;
+  lore: string;
+  startingLocation: string;
+  startingInventory: ScenarioItem[];
+  startingQuest: string;
+  npcs: ScenarioNpc[];
+  /** Rules for the story's tone and content, e.g. "Magic is rare and feared". */
+  toneRules: string[];
+  /** Visual style for the images; the style picked on the start screen applies when empty. */
+  stylePrompt: string;
+  sceneGraph?: SceneGraph;
+}
+
+/** How forgiving the outcomes of the player's choices are. */
+export type Difficulty = 'forgiving' | 'standard' | 'harsh';
+
+/** What the story and its images may show. */
+export type ContentRating = 'all-ages' | 'teen' | 'mature';
+
+/** How long the adventure is meant to run. Endless stories have no turn budget. */
+export type PacingMode = 'short' | 'novella' | 'endless';
+
 export interface GameSession {
   id: string;
   title: string;
   prompt: string;
   visualStyle: string;
   bannerUrl: string;
-  language: 'en' | 'es' | 'pt';
-  history: StoryStep[];
+  language: Language;
+  /** Every step of every branch, in the order they were played. */
+  steps: StoryNode[];
+  /** The last step of the branch being played. */
+  currentLeafId: string;
+  createdAt: number;
+  chapters?: ChapterSummary[];
+  codex?: CodexEntry[];
+  quests?: Quest[];
+  characters?: CharacterSheet[];
+  /** Present when the adventure uses stats and dice checks. */
+  ruleset?: Ruleset;
+  /** Absent on sessions saved before pacing modes, which are endless. */
+  pacing?: PacingMode;
+  /** Absent on sessions saved before difficulty presets, which play as 'standard'. */
+  difficulty?: Difficulty;
+  /** Absent on sessions saved before content ratings, which play as 'teen'. */
+  contentRating?: ContentRating;
+  /** The scenario pack the adventure was started from, as it was then. */
+  scenario?: ScenarioPack;
+  /** One per ending step that has one, so every branch keeps its own. */
+  epilogues?: Epilogue[];
+  /** Present when the adventure was forked from another one. */
+  forkedFrom?: SessionOrigin;
+}
+
+/** Where a forked adventure was copied from. */
+export interface SessionOrigin {
+  sessionId: string;
+  /** The step the fork was made at, which is the fork's latest scene. */
+  stepId: string;
+  /** The title of the original adventure when it was forked. */
+  title: string;
+  forkedAt: number;
+}
+
+/** A saved or imported session that could not be read, set aside as it was. */
+export interface QuarantinedSession {
+  id: string;
+  /** The app's own storage, or an imported file. */
+  source: 'storage' | 'import';
+  /** How the problems name the session. */
+  name: string;
+  errors: string[];
+  quarantinedAt: number;
+  data: unknown;
+}
+
+/** What the session list shows about a saved adventure, without loading its history. */
+export interface SessionSummary {
+  id: string;
+  title: string;
+  prompt: string;
+  visualStyle: string;
+  bannerUrl: string;
+  language: Language;
   createdAt: number;
+  /** Steps on the branch being played. */
+  stepCount: number;
+  forkedFrom?: SessionOrigin;
+  /** Set when the branch being played has reached an ending. */
+  ending?: EndingType;
+  difficulty?: Difficulty;
+  contentRating?: ContentRating;
 }
 
+/** How a turn's text generation went, for turns that succeeded. */
+export interface GenerationReport {
+  /** Transient or rate-limit failures that were retried with backoff. */
+  retries: number;
+  /** Whether the model had to be re-prompted to fix an invalid response. */
+  repaired: boolean;
+  /** Whether the model had to rewrite the scene because it did not fit the content rating. */
+  rewrittenForRating?: boolean;
+}
+
+/** Why a turn could not be generated. */
+export type GenerationFailureReason = 'invalid-response' | 'unsuitable-content' | 'rate-limited' | 'unavailable' | 'failed';
+
 export type GameState = 'SESSION_SELECT' | 'PLAYING' | 'LOADING' | 'ERROR';
 
 export interface NarrationRef {